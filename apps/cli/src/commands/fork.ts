@@ -1,29 +1,80 @@
-﻿import { getDatabase, RunRepository } from "@omega/db";
+﻿import { createCliRuntime, loadGraphFile, waitForRun } from "../runtime.js";
 
+/** fork 命令选项类型 */
+interface ForkOptions {
+  db: string;
+  input?: string;
+  /** Run 没有保存图定义时（旧版本创建）使用的 graph 文件 */
+  graph?: string;
+  ollamaUrl?: string;
+  mock?: boolean;
+  /** 故障转移链（逗号分隔的 model[@url]） */
+  fallback?: string;
+  /** 额外 Provider 连接的 JSON 文件 */
+  providers?: string;
+}
+
+/**
+ * omega fork <runId> <stepId> 命令实现
+ * 使用父 Run 保存的图定义，从指定 Step 对应的节点开始重新执行（上游节点继承父 Run 的结果）
+ */
 export async function forkCommand(
   runId: string,
   stepId: string,
-  opts: { db: string; input?: string }
+  opts: ForkOptions
 ): Promise<void> {
   console.log(`[OMEGA] Forking run ${runId} from step ${stepId}`);
 
-  const omegaDb = getDatabase(opts.db);
-  const runRepo = new RunRepository(omegaDb.instance);
+  let inputOverride: Record<string, unknown> | undefined;
+  if (opts.input) {
+    try {
+      inputOverride = JSON.parse(opts.input) as Record<string, unknown>;
+    } catch {
+      console.error(`[OMEGA] ❌ --input must be valid JSON. Got: ${opts.input}`);
+      process.exit(1);
+    }
+  }
+
+  const { runtime, omegaDb, runRepo, stepRepo } = await createCliRuntime(opts);
+
+  const fail = (message: string): never => {
+    console.error(`[OMEGA] ❌ ${message}`);
+    omegaDb.close();
+    process.exit(1);
+  };
 
   const parentRun = runRepo.findById(runId);
   if (!parentRun) {
-    console.error(`[OMEGA] Run not found: ${runId}`);
-    process.exit(1);
+    return fail(`Run not found: ${runId}`);
+  }
+
+  const fromStep = stepRepo.findByRunId(runId).find(s => s.stepId === stepId);
+  if (!fromStep) {
+    return fail(`Step ${stepId} does not belong to run ${runId}`);
   }
 
-  console.log(`[OMEGA] Parent run: ${parentRun.graphId} v${parentRun.graphVersion}`);
+  const graph = opts.graph ? loadGraphFile(opts.graph) : runRepo.findGraphDefinition(runId);
+  if (!graph) {
+    return fail(`Run ${runId} has no stored graph definition (created by an older version); pass --graph <file>`);
+  }
+
+  console.log(`[OMEGA] Parent run: ${parentRun.graphId} v${parentRun.graphVersion} (${parentRun.state})`);
+  console.log(`[OMEGA] Fork from: [${fromStep.nodeType}] ${fromStep.nodeLabel} (#${fromStep.sequence})`);
   console.log(`[OMEGA] Input override: ${opts.input ?? "(none)"}`);
-  console.log("\n[OMEGA] Fork ready.");
-  console.log("[OMEGA] To execute, use the GraphRuntime.forkRun() API with a loaded GraphDefinition.");
-  console.log(`[OMEGA] Example: runtime.forkRun("${runId}", "${stepId}", graph, inputOverride)`);
 
-  omegaDb.close();
-}
+  const startTime = Date.now();
 
+  let newRunId: string;
+  try {
+    newRunId = await runtime.forkRun(runId, stepId, graph, inputOverride);
+  } catch (e) {
+    return fail(`Failed to fork run: ${(e as Error).message}`);
+  }
+
+  await waitForRun(runtime, newRunId);
 
+  console.log(`[OMEGA] Total wall time: ${Date.now() - startTime}ms`);
+  console.log(`[OMEGA] New run ID: ${newRunId}`);
 
+  omegaDb.close();
+}
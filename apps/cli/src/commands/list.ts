@@ -22,7 +22,8 @@ export async function listCommand(opts: { db: string; limit: number }): Promise<
       run.graphId.slice(0, 18).padEnd(20) +
       run.state.padEnd(12) +
       String(run.totalTokens).padEnd(10) +
-      run.startedAt.slice(0, 19)
+      run.startedAt.slice(0, 19) +
+      (run.replayOfRunId ? `  (replay of ${run.replayOfRunId})` : "")
     );
   }
 
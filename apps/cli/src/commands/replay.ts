@@ -1,8 +1,30 @@
 ﻿import { getDatabase, RunRepository, StepRepository, EventRepository } from "@omega/db";
+import { NodeState } from "@omega/shared";
+import { RecordedResponseProvider, AGENT_LOOP_GRAPH_ID, parseAgentLoopEvent } from "@omega/core";
+import type { RecordedResponse, ReplayDivergence } from "@omega/core";
+import type { StepEvent } from "@omega/shared";
+import { createCliRuntime, loadGraphFile, waitForRun } from "../runtime.js";
 
+/** replay 命令选项类型 */
+interface ReplayOptions {
+  db: string;
+  dryRun?: boolean;
+  /** Run 没有保存图定义时（旧版本创建）使用的 graph 文件 */
+  graph?: string;
+}
+
+/**
+ * omega replay <runId> 命令实现
+ *
+ *   - --dry-run：只打印原 Run 的 trace
+ *   - 默认：离线重新执行该 Run，LLM 类（LLM / PLANNING / MEMORY / REFLECTION）
+ *     与 TOOL 节点返回录制的 StepEvent.output，新 Run 以 replayOfRunId 标记为回放，
+ *     最后输出差异报告（渲染后 Prompt 与录制不同的节点、缺少录制的节点、最终输出是否一致）
+ *   - AgentLoop Run：逐轮打印录制的响应、工具调用和观察结果（不重新执行）
+ */
 export async function replayCommand(
   runId: string,
-  opts: { db: string; dryRun?: boolean }
+  opts: ReplayOptions
 ): Promise<void> {
   console.log(`[OMEGA] Replaying run: ${runId}`);
 
@@ -22,11 +44,13 @@ export async function replayCommand(
   console.log(`[OMEGA] State: ${run.state}`);
   console.log(`[OMEGA] Started: ${run.startedAt}`);
   console.log(`[OMEGA] Tokens: ${run.totalTokens} | Cost: $${run.totalCostUsd.toFixed(6)}`);
+  const isAgentLoop = run.graphId === AGENT_LOOP_GRAPH_ID;
 
   // 获取所有 Steps
   const steps = stepRepo.findByRunId(runId);
   console.log(`\n[OMEGA] Steps (${steps.length} total):`);
 
+  let cacheHits = 0;
   for (const step of steps) {
     const events = eventRepo.findByStepId(step.stepId);
     const lastEvent = events[events.length - 1];
@@ -34,26 +58,179 @@ export async function replayCommand(
     const inherited = step.inherited ? " [inherited]" : "";
     const duration = step.durationMs ? ` ${step.durationMs}ms` : "";
     const tokens = lastEvent?.tokens ? ` ${lastEvent.tokens}t` : "";
+    const cache = lastEvent?.cacheHit ? " [cache hit]" : "";
+    if (lastEvent?.cacheHit) cacheHits++;
 
     console.log(
       `  [${step.sequence.toString().padStart(2, "0")}] ${step.nodeLabel}` +
-      ` (${step.nodeType})${inherited} → ${step.state}${duration}${tokens}`
+      ` (${step.nodeType})${inherited} → ${step.state}${duration}${tokens}${cache}`
     );
 
+    if (opts.dryRun && lastEvent?.cacheKey) {
+      console.log(`       Cache key: ${lastEvent.cacheKey.slice(0, 16)}…`);
+    }
+
     if (opts.dryRun && lastEvent?.renderedPrompt) {
       console.log(`       Prompt: ${lastEvent.renderedPrompt.slice(0, 80)}...`);
     }
+
+    if (isAgentLoop) printAgentIteration(events);
+  }
+
+  if (cacheHits > 0) {
+    console.log(`\n[OMEGA] Cache hits: ${cacheHits}/${steps.length} steps served from node cache`);
   }
 
   if (opts.dryRun) {
     console.log("\n[OMEGA] Dry-run mode: replay plan printed, no execution.");
-  } else {
-    console.log("\n[OMEGA] Note: Full replay re-execution is available via the GraphRuntime API.");
-    console.log("[OMEGA] Trace events recorded above represent the original execution.");
+    omegaDb.close();
+    return;
+  }
+
+  if (isAgentLoop) {
+    console.log("\n[OMEGA] Agent-loop run: recorded iterations printed above (offline re-execution is only supported for graph runs).");
+    omegaDb.close();
+    return;
+  }
+
+  // ── 确定性回放 ────────────────────────────────────
+  const graph = opts.graph ? loadGraphFile(opts.graph) : runRepo.findGraphDefinition(runId);
+  if (!graph) {
+    console.error(`[OMEGA] ❌ Run ${runId} has no stored graph definition (created by an older version); pass --graph <file>`);
+    omegaDb.close();
+    process.exit(1);
+  }
+
+  const recordings = collectRecordings(runId, runRepo, stepRepo, eventRepo);
+  console.log(`\n[OMEGA] Re-executing offline with ${recordings.length} recorded response(s)...`);
+
+  const replay = new RecordedResponseProvider(recordings);
+  const { runtime } = await createCliRuntime({ db: opts.db, replay });
+
+  let replayRunId: string;
+  try {
+    replayRunId = await runtime.startRun(graph, run.input, { replayOf: runId });
+  } catch (e) {
+    console.error(`[OMEGA] ❌ Failed to start replay: ${(e as Error).message}`);
+    omegaDb.close();
+    process.exit(1);
+  }
+
+  await waitForRun(runtime, replayRunId);
+
+  const replayRun = runRepo.findById(replayRunId);
+  const outputMatches = JSON.stringify(replayRun?.output) === JSON.stringify(run.output);
+  printDivergenceReport(replay.divergences, outputMatches, replayRunId);
+
+  if (replay.divergences.length > 0 || !outputMatches) {
+    process.exitCode = 1;
   }
 
   omegaDb.close();
 }
 
+/**
+ * 收集某个 Run 中成功节点的录制响应（按 Step 顺序）
+ * fork 继承的 Step 没有自己的事件，沿 parentRunId 到父 Run 中查找同一节点的录制
+ */
+function collectRecordings(
+  runId: string,
+  runRepo: RunRepository,
+  stepRepo: StepRepository,
+  eventRepo: EventRepository
+): RecordedResponse[] {
+  const run = runRepo.findById(runId);
+  const recordings: RecordedResponse[] = [];
+  let parentRecordings: RecordedResponse[] | undefined;
+
+  for (const step of stepRepo.findByRunId(runId)) {
+    if (step.state !== NodeState.SUCCESS) continue;
+
+    if (step.inherited) {
+      if (!run?.parentRunId) continue;
+      parentRecordings ??= collectRecordings(run.parentRunId, runRepo, stepRepo, eventRepo);
+      const inherited = parentRecordings.find(r => r.nodeId === step.nodeId);
+      if (inherited) recordings.push(inherited);
+      continue;
+    }
 
+    const event = eventRepo.findByStepId(step.stepId).reverse().find(e => e.output !== undefined);
+    if (!event?.output) continue;
 
+    let output: unknown;
+    try {
+      output = JSON.parse(event.output);
+    } catch {
+      output = event.output;
+    }
+    recordings.push({
+      nodeId: step.nodeId,
+      nodeType: step.nodeType,
+      output,
+      renderedPrompt: event.renderedPrompt,
+      providerMeta: event.providerMeta,
+      tokens: event.tokens,
+      costUsd: event.costUsd,
+    });
+  }
+
+  return recordings;
+}
+
+/** 打印 AgentLoop 一轮迭代的录制内容（响应 / 工具调用 / 最终答案） */
+function printAgentIteration(events: readonly StepEvent[]): void {
+  for (const event of events) {
+    const record = parseAgentLoopEvent(event);
+    if (event.error) console.log(`       Error: ${event.error.message}`);
+    if (!record) continue;
+    switch (record.kind) {
+      case "response":
+        console.log(`       Response: ${oneLine(record.thought || record.text, 100)}`);
+        break;
+      case "observation":
+        console.log(`       ${record.toolName}(${oneLine(JSON.stringify(record.toolInput ?? {}), 60)}) → ${oneLine(record.observation, 80)}`);
+        break;
+      case "answer":
+        console.log(`       Answer: ${oneLine(record.finalAnswer, 100)}`);
+        break;
+    }
+  }
+}
+
+/** 压缩为单行并截断 */
+function oneLine(text: string, max: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? `${line.slice(0, max)}…` : line;
+}
+
+/** 打印回放差异报告 */
+function printDivergenceReport(
+  divergences: readonly ReplayDivergence[],
+  outputMatches: boolean,
+  replayRunId: string
+): void {
+  console.log(`\n[OMEGA] ── Replay report (${replayRunId}) ──`);
+
+  if (divergences.length === 0) {
+    console.log(`[OMEGA] ✅ All rendered prompts match the recording`);
+  }
+  for (const d of divergences) {
+    switch (d.kind) {
+      case "prompt":
+        console.log(`[OMEGA] ⚠️  ${d.nodeId}: rendered prompt differs from the recording`);
+        console.log(`         recorded: ${(d.recordedPrompt ?? "").slice(0, 120)}`);
+        console.log(`         replayed: ${(d.actualPrompt ?? "").slice(0, 120)}`);
+        break;
+      case "providerMeta":
+        console.log(`[OMEGA] ⚠️  ${d.nodeId}: provider settings differ from the recording`);
+        console.log(`         recorded: ${JSON.stringify(d.recordedMeta ?? {})}`);
+        console.log(`         replayed: ${JSON.stringify(d.actualMeta ?? {})}`);
+        break;
+      case "missing":
+        console.log(`[OMEGA] ❌ ${d.nodeId}: no recorded response`);
+        break;
+    }
+  }
+
+  console.log(`[OMEGA] ${outputMatches ? "✅" : "⚠️ "} Final output ${outputMatches ? "matches" : "differs from"} the original run`);
+}
@@ -0,0 +1,87 @@
+﻿import { getDatabase, RunRepository } from "@omega/db";
+import { RunState } from "@omega/shared";
+import { createCliRuntime, loadGraphFile, waitForRun } from "../runtime.js";
+
+/** resume 命令选项类型 */
+interface ResumeOptions {
+  db: string;
+  ollamaUrl?: string;
+  mock?: boolean;
+  /** 故障转移链（逗号分隔的 model[@url]） */
+  fallback?: string;
+  /** 额外 Provider 连接的 JSON 文件 */
+  providers?: string;
+  /** 放弃中断的 Run（标记为 FAILED），而不是继续执行 */
+  abandon?: boolean;
+}
+
+/**
+ * omega resume [runId] [graphFile] 命令实现
+ * 从最后完成的节点继续执行一个 PAUSED 或中途退出（仍为 RUNNING）的 Run（沿用原 runId）
+ *
+ *   - 不传 runId：列出上次中途退出遗留的 Run
+ *   - 不传 graphFile：使用 Run 创建时保存的图定义
+ *   - --abandon：将中断的 Run 标记为 FAILED
+ */
+export async function resumeCommand(
+  runId: string | undefined,
+  graphFile: string | undefined,
+  opts: ResumeOptions
+): Promise<void> {
+  if (!runId) {
+    listInterruptedRuns(opts.db);
+    return;
+  }
+
+  const graph = graphFile ? loadGraphFile(graphFile) : undefined;
+  const { runtime, omegaDb } = await createCliRuntime(opts);
+
+  if (opts.abandon) {
+    try {
+      runtime.abandonRun(runId);
+      console.log(`[OMEGA] Run ${runId} marked as FAILED`);
+    } catch (e) {
+      console.error(`[OMEGA] ❌ Failed to abandon run: ${(e as Error).message}`);
+      omegaDb.close();
+      process.exit(1);
+    }
+    omegaDb.close();
+    return;
+  }
+
+  console.log(`[OMEGA] Resuming run: ${runId}`);
+  try {
+    await runtime.resumeRun(runId, graph);
+  } catch (e) {
+    console.error(`[OMEGA] ❌ Failed to resume run: ${(e as Error).message}`);
+    omegaDb.close();
+    process.exit(1);
+  }
+
+  await waitForRun(runtime, runId);
+
+  omegaDb.close();
+}
+
+/** 列出可恢复的 Run（CLI 进程刚启动，DB 中的 RUNNING Run 都是中途退出遗留的） */
+function listInterruptedRuns(dbPath: string): void {
+  const omegaDb = getDatabase(dbPath);
+  const runRepo = new RunRepository(omegaDb.instance);
+  const runs = [
+    ...runRepo.findByState(RunState.RUNNING),
+    ...runRepo.findByState(RunState.PAUSED),
+  ];
+
+  if (runs.length === 0) {
+    console.log(`[OMEGA] No interrupted or paused runs.`);
+  } else {
+    console.log(`[OMEGA] Resumable runs:`);
+    for (const run of runs) {
+      const label = run.state === RunState.RUNNING ? "interrupted" : "paused";
+      console.log(`[OMEGA]   ${run.runId}  ${label.padEnd(11)}  graph=${run.graphId}  started=${run.startedAt}`);
+    }
+    console.log(`[OMEGA] Resume with: omega resume <runId>`);
+  }
+
+  omegaDb.close();
+}
@@ -1,6 +1,6 @@
 ﻿#!/usr/bin/env node
 /**
- * OMEGA CLI — omega run / replay / fork
+ * OMEGA CLI — omega run / resume / replay / fork
  * 无 UI 模式运行 Agent Graph
  */
 import { Command } from "commander";
@@ -23,6 +23,8 @@ program
   .option("--max-cost <usd>", "Maximum cost budget in USD", parseFloat)
   .option("--ollama-url <url>", "Ollama base URL (default: http://localhost:11434)")
   .option("--mock", "Use mock LLM/Tool executors instead of real providers (for testing without Ollama)")
+  .option("--fallback <targets>", "Comma-separated fallback chain of model[@ollama-url], tried in order when the primary returns 429/5xx or times out")
+  .option("--providers <file>", "JSON file of extra provider connections ({ id, type, baseUrl, apiKey?, apiKeyEnv?, isDefault? }[]) that nodes can reference by ID")
   .action(async (graphFile: string, opts: {
     input?: string;
     inputFile?: string;
@@ -31,6 +33,8 @@ program
     maxCost?: number;
     ollamaUrl?: string;
     mock?: boolean;
+    fallback?: string;
+    providers?: string;
   }) => {
     // --input-file 优先：读文件内容作为 input JSON
     if (opts.inputFile && !opts.input) {
@@ -42,13 +46,33 @@ program
     await runCommand(graphFile, opts);
   });
 
+/** omega resume [runId] [graph.json] */
+program
+  .command("resume [runId] [graphFile]")
+  .description("Resume a paused or interrupted run from its last completed step (lists interrupted runs when no runId is given)")
+  .option("-d, --db <path>", "SQLite database path", "./omega.db")
+  .option("--ollama-url <url>", "Ollama base URL (default: http://localhost:11434)")
+  .option("--mock", "Use mock LLM/Tool executors instead of real providers (for testing without Ollama)")
+  .option("--fallback <targets>", "Comma-separated fallback chain of model[@ollama-url], tried in order when the primary returns 429/5xx or times out")
+  .option("--providers <file>", "JSON file of extra provider connections ({ id, type, baseUrl, apiKey?, apiKeyEnv?, isDefault? }[]) that nodes can reference by ID")
+  .option("--abandon", "Mark an interrupted run as FAILED instead of resuming it")
+  .action(async (
+    runId: string | undefined,
+    graphFile: string | undefined,
+    opts: { db: string; ollamaUrl?: string; mock?: boolean; fallback?: string; providers?: string; abandon?: boolean }
+  ) => {
+    const { resumeCommand } = await import("./commands/resume.js");
+    await resumeCommand(runId, graphFile, opts);
+  });
+
 /** omega replay <runId> */
 program
   .command("replay <runId>")
-  .description("Replay a completed run from its trace events")
+  .description("Re-execute a run offline against its recorded LLM/TOOL responses and report divergences")
   .option("-d, --db <path>", "SQLite database path", "./omega.db")
   .option("--dry-run", "Print replay plan without executing")
-  .action(async (runId: string, opts: { db: string; dryRun?: boolean }) => {
+  .option("-g, --graph <file>", "Graph file to use when the run has no stored graph definition")
+  .action(async (runId: string, opts: { db: string; dryRun?: boolean; graph?: string }) => {
     const { replayCommand } = await import("./commands/replay.js");
     await replayCommand(runId, opts);
   });
@@ -59,7 +83,16 @@ program
   .description("Fork a run from a specific step and re-execute from there")
   .option("-d, --db <path>", "SQLite database path", "./omega.db")
   .option("-i, --input <json>", "Override input JSON for the forked step")
-  .action(async (runId: string, stepId: string, opts: { db: string; input?: string }) => {
+  .option("-g, --graph <file>", "Graph file to use when the run has no stored graph definition")
+  .option("--ollama-url <url>", "Ollama base URL (default: http://localhost:11434)")
+  .option("--mock", "Use mock LLM/Tool executors instead of real providers (for testing without Ollama)")
+  .option("--fallback <targets>", "Comma-separated fallback chain of model[@ollama-url], tried in order when the primary returns 429/5xx or times out")
+  .option("--providers <file>", "JSON file of extra provider connections ({ id, type, baseUrl, apiKey?, apiKeyEnv?, isDefault? }[]) that nodes can reference by ID")
+  .action(async (
+    runId: string,
+    stepId: string,
+    opts: { db: string; input?: string; graph?: string; ollamaUrl?: string; mock?: boolean; fallback?: string; providers?: string }
+  ) => {
     const { forkCommand } = await import("./commands/fork.js");
     await forkCommand(runId, stepId, opts);
   });
@@ -0,0 +1,383 @@
+﻿import fs from "fs";
+import path from "path";
+import { GraphDefinitionSchema } from "@omega/shared";
+import type { GraphDefinition, LLMNodeConfig, ProviderMeta } from "@omega/shared";
+import {
+  getDatabase, RunRepository, StepRepository, EventRepository, NodeCacheRepository, CheckpointRepository,
+  ModelPricingRepository,
+} from "@omega/db";
+import type { OmegaDatabase } from "@omega/db";
+import {
+  GraphRuntime, GraphNodeRunner, NodeExecutorRegistry,
+  InputNodeExecutor, OutputNodeExecutor, LLMNodeExecutor,
+  ToolNodeExecutor, MemoryNodeExecutor, ReflectionNodeExecutor, PlanningNodeExecutor,
+  validateGraph
+} from "@omega/core";
+import type { LLMTargetResolver, RecordedResponseProvider } from "@omega/core";
+import { OllamaProvider, FallbackProvider, ProviderRegistry, PricingCatalog, DEFAULT_MODEL_PRICING } from "@omega/providers";
+import type { LLMProvider, FallbackTarget, ProviderConnection } from "@omega/providers";
+
+/**
+ * CLI 命令共用的 Runtime 装配（run / resume / fork）
+ */
+
+/** Runtime 装配选项 */
+export interface CliRuntimeOptions {
+  db: string;
+  /** Ollama 服务地址，默认 http://localhost:11434 */
+  ollamaUrl?: string;
+  /** 强制使用 mock 模式（不连接真实 Ollama，适合测试） */
+  mock?: boolean;
+  /** 故障转移链：逗号分隔的 model[@url]，主 Ollama 返回 429 / 5xx 或超时时依次改用 */
+  fallback?: string;
+  /** 额外 Provider 连接的 JSON 文件（按 ID 注册，供节点 config.provider 引用） */
+  providers?: string;
+  /** 回放模式：LLM 类 / TOOL 节点响应由录制的 trace 提供，不访问 Ollama，也不读写节点缓存 */
+  replay?: RecordedResponseProvider;
+}
+
+/** LLM 型节点执行器共用的 invokeProvider 签名 */
+type LLMInvoker = (
+  config: LLMNodeConfig,
+  input: unknown
+) => Promise<{ text: string; tokens: number; costUsd: number; providerMeta: ProviderMeta | undefined }>;
+
+/** 装配完成的 Runtime 及其依赖 */
+export interface CliRuntime {
+  runtime: GraphRuntime;
+  omegaDb: OmegaDatabase;
+  runRepo: RunRepository;
+  stepRepo: StepRepository;
+  eventRepo: EventRepository;
+}
+
+/**
+ * 读取并校验 graph 文件（schema + 拓扑结构），失败时打印原因并退出
+ */
+export function loadGraphFile(graphFile: string): GraphDefinition {
+  const absolutePath = path.resolve(graphFile);
+  if (!fs.existsSync(absolutePath)) {
+    console.error(`[OMEGA] ❌ Graph file not found: ${absolutePath}`);
+    process.exit(1);
+  }
+
+  let graphRaw: unknown;
+  try {
+    graphRaw = JSON.parse(fs.readFileSync(absolutePath, "utf-8"));
+  } catch (e) {
+    console.error(`[OMEGA] ❌ Failed to parse graph JSON: ${(e as Error).message}`);
+    process.exit(1);
+  }
+
+  const graphResult = GraphDefinitionSchema.safeParse(graphRaw);
+  if (!graphResult.success) {
+    console.error("[OMEGA] ❌ Invalid graph definition:");
+    console.error(JSON.stringify(graphResult.error.format(), null, 2));
+    process.exit(1);
+  }
+  const graph = graphResult.data;
+  try {
+    validateGraph(graph);
+  } catch (e) {
+    console.error(`[OMEGA] ❌ Invalid graph structure: ${(e as Error).message}`);
+    process.exit(1);
+  }
+  return graph;
+}
+
+/**
+ * 解析 --fallback 参数（逗号分隔的 model[@url]，省略 url 时使用主 Ollama 地址）
+ */
+function parseFallbackTargets(spec: string, defaultBaseUrl: string, pricing: PricingCatalog): FallbackTarget[] {
+  return spec.split(",")
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const at = item.indexOf("@");
+      const model = at === -1 ? item : item.slice(0, at);
+      const baseUrl = at === -1 ? defaultBaseUrl : item.slice(at + 1);
+      return { provider: new OllamaProvider({ baseUrl, pricing }), model };
+    });
+}
+
+/** --providers 文件中的一项（apiKey 可改用 apiKeyEnv 从环境变量读取，避免明文写入文件） */
+interface ProviderFileEntry extends ProviderConnection {
+  apiKeyEnv?: string;
+  /** 设为默认 Provider（未指定 provider 的节点使用） */
+  isDefault?: boolean;
+}
+
+/**
+ * 读取 --providers 文件（ProviderFileEntry 数组），失败时打印原因并退出
+ */
+function loadProviderFile(providerFile: string): ProviderFileEntry[] {
+  const absolutePath = path.resolve(providerFile);
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(absolutePath, "utf-8"));
+  } catch (e) {
+    console.error(`[OMEGA] ❌ Failed to read providers file ${absolutePath}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+  const valid = Array.isArray(entries) && entries.every(e =>
+    typeof e?.id === "string" && typeof e?.type === "string" && typeof e?.baseUrl === "string"
+  );
+  if (!valid) {
+    console.error(`[OMEGA] ❌ Providers file must be an array of { id, type, baseUrl, name?, apiKey?, apiKeyEnv?, isDefault? }`);
+    process.exit(1);
+  }
+  return (entries as ProviderFileEntry[]).map(entry => {
+    const apiKey = entry.apiKey ?? (entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined);
+    return { ...entry, name: entry.name ?? entry.id, ...(apiKey && { apiKey }) };
+  });
+}
+
+/**
+ * 装配 GraphRuntime
+ *
+ * Provider 注册表：Ollama 以 ID "ollama" 注册为默认 Provider（传入 --fallback 时包装为 FallbackProvider），
+ * --providers 文件中的连接按各自 ID 注册；LLM 型节点按 config.provider 路由，为空时使用默认 Provider。
+ * 节点引用未注册的 Provider ID 时 startRun / resume / fork 在加载阶段直接拒绝。
+ *
+ * LLM 调用模式:
+ *   1. --mock flag → mock
+ *   2. Ollama 健康检查通过，或 --providers 提供了其他 Provider → 真实调用
+ *   3. 都不可用 → 降级 mock（附警告）
+ * 传入 replay 时跳过以上检查，LLM / TOOL 执行器改为返回录制的输出
+ */
+export async function createCliRuntime(opts: CliRuntimeOptions): Promise<CliRuntime> {
+  const ollamaBaseUrl = opts.ollamaUrl ?? "http://localhost:11434";
+
+  // ── 初始化数据库 ──────────────────────────────────
+  const omegaDb = getDatabase(opts.db);
+  const runRepo = new RunRepository(omegaDb.instance);
+  const stepRepo = new StepRepository(omegaDb.instance);
+  const eventRepo = new EventRepository(omegaDb.instance);
+  console.log(`[OMEGA] Database: ${path.resolve(opts.db)}`);
+
+  // ── 模型价格表（内置价目 + 桌面端设置中的用户覆盖，共用 model_pricing 表）──
+  const pricingRepo = new ModelPricingRepository(omegaDb.instance);
+  pricingRepo.seedDefaults(DEFAULT_MODEL_PRICING);
+  const pricing = new PricingCatalog(pricingRepo.list());
+
+  // ── Provider 注册表 ───────────────────────────────
+  const providerRegistry = new ProviderRegistry(pricing);
+  const primary = new OllamaProvider({ baseUrl: ollamaBaseUrl, pricing });
+  const fallbacks = opts.fallback ? parseFallbackTargets(opts.fallback, ollamaBaseUrl, pricing) : [];
+  const ollama: LLMProvider = fallbacks.length > 0
+    ? new FallbackProvider([{ provider: primary }, ...fallbacks])
+    : primary;
+  providerRegistry.register("ollama", ollama, true);
+  const extraProviders = opts.providers ? loadProviderFile(opts.providers) : [];
+  for (const entry of extraProviders) {
+    providerRegistry.registerConnection(entry, entry.isDefault === true);
+  }
+
+  // ── 确定 LLM Provider 模式 ────────────────────────
+  let useMock = opts.mock === true;
+
+  if (opts.replay) {
+    console.log(`[OMEGA] Replay mode: LLM / TOOL responses are served from the recorded trace`);
+  } else if (!useMock) {
+    // 尝试 Ollama 健康检查
+    console.log(`[OMEGA] Checking Ollama at ${ollamaBaseUrl}...`);
+    if (fallbacks.length > 0) {
+      console.log(`[OMEGA] Fallback chain: ${fallbacks.map(f => f.model).join(" → ")}`);
+    }
+    const isHealthy = await ollama.healthCheck();
+
+    if (isHealthy) {
+      const models = await ollama.listModels();
+      console.log(`[OMEGA] ✅ Ollama is available. Models: ${models.slice(0, 5).join(", ") || "(none pulled)"}`);
+    } else if (extraProviders.length > 0) {
+      console.warn(`[OMEGA] ⚠️  Ollama not reachable at ${ollamaBaseUrl}; nodes routed to "ollama" will fail`);
+    } else {
+      useMock = true;
+      console.warn(`[OMEGA] ⚠️  Ollama not reachable at ${ollamaBaseUrl}`);
+      console.warn(`[OMEGA] ⚠️  Falling back to mock mode. Start Ollama and rerun to use real AI.`);
+      console.warn(`[OMEGA] ⚠️  Hint: ollama serve  /  ollama pull llama3.2`);
+    }
+  } else {
+    console.log(`[OMEGA] Mock mode enabled (--mock flag)`);
+  }
+  console.log(`[OMEGA] Providers: ${providerRegistry.list().join(", ")}`);
+
+  // ── LLM 调用（LLM / PLANNING / MEMORY / REFLECTION 四种节点共用）──
+  // 真实模式按 config.provider 从注册表路由；mock 模式返回占位输出
+  const invokeProvider: LLMInvoker = useMock || opts.replay
+    ? async (config, _input) => {
+      const modelLabel = `${config.provider || "mock"}/${config.model}`;
+      console.log(`[OMEGA]   🔲 LLM mock → ${modelLabel}`);
+      return {
+        text: `[Mock LLM output for model ${config.model}] — Start Ollama to get real AI responses.`,
+        tokens: 100,
+        costUsd: 0,
+        // 记录节点配置的 Provider / 模型（与真实调用一致），回放 mock 录制时不会误报 providerMeta 不一致
+        providerMeta: {
+          provider: config.provider || (providerRegistry.getDefaultId() ?? "mock"),
+          model: config.model,
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+          ...(config.topP !== undefined && { topP: config.topP }),
+        },
+      };
+    }
+    : async (config, _input) => {
+      const provider = providerRegistry.resolve(config.provider);
+      const modelLabel = `${config.provider || "ollama"}/${config.model}`;
+      console.log(`[OMEGA]   🤖 LLM call → ${modelLabel}`);
+      console.log(`[OMEGA]      Prompt (${(config.promptTemplate ?? "").length} chars)`);
+
+      try {
+        const requestPayload: import("@omega/shared").LLMRequest = {
+          model: config.model,
+          messages: [
+            {
+              role: "system",
+              content: config.systemPrompt ?? "You are a helpful assistant.",
+            },
+            {
+              role: "user",
+              // promptTemplate 已经由执行器渲染好了占位符
+              content: config.promptTemplate ?? "",
+            },
+          ],
+          stream: true,
+          // exactOptionalPropertyTypes: 只有有值时才设置
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+          ...(config.topP !== undefined && { topP: config.topP }),
+          ...(config.maxTokens !== undefined && { maxTokens: config.maxTokens }),
+        };
+        const result = await provider.generateComplete(requestPayload);
+
+        for (const failure of result.providerMeta.fallbackFrom ?? []) {
+          console.warn(`[OMEGA]      ⚠️  ${failure.provider}/${failure.model} failed (${failure.reason}), switched to ${result.providerMeta.provider}/${result.providerMeta.model}`);
+        }
+        console.log(`[OMEGA]      ✓ ${result.tokens} tokens`);
+        // 截断显示前 200 字符
+        const preview = result.text.slice(0, 200).replace(/\n/g, " ");
+        console.log(`[OMEGA]      Output: ${preview}${result.text.length > 200 ? "…" : ""}`);
+        return result;
+      } catch (e) {
+        const msg = (e as Error).message;
+        console.error(`[OMEGA]   ❌ ${modelLabel} error: ${msg}`);
+        // 如果是 Ollama 模型未找到，给出友好提示
+        if (provider.metadata().type === "ollama" && (msg.includes("model") || msg.includes("404"))) {
+          console.error(`[OMEGA]   💡 Hint: run  ollama pull ${config.model}  to download the model`);
+        }
+        throw e;
+      }
+    };
+
+  // 缓存 Key 按实际路由到的 Provider 区分（config.provider 为空 → 默认 Provider）
+  const resolveLLMTarget: LLMTargetResolver = config => ({
+    provider: config.provider || (providerRegistry.getDefaultId() ?? ""),
+    model: config.model,
+  });
+
+  // ── 注册节点执行器 ────────────────────────────────
+  const registry = new NodeExecutorRegistry();
+  registry.register(new InputNodeExecutor());
+  registry.register(new OutputNodeExecutor());
+  registry.register(new LLMNodeExecutor(invokeProvider, resolveLLMTarget));
+  registry.register(new PlanningNodeExecutor(invokeProvider));
+  registry.register(new MemoryNodeExecutor(invokeProvider));
+  registry.register(new ReflectionNodeExecutor(invokeProvider));
+
+  // Tool 执行器 (mock — 工具系统将在后续版本接入)
+  registry.register(new ToolNodeExecutor(async (toolName, _version, toolInput, _timeout) => {
+    console.log(`[OMEGA]   🔧 Tool: ${toolName}`, JSON.stringify(toolInput).slice(0, 100));
+    return { result: `[Mock tool output from ${toolName}]` };
+  }));
+
+  // 回放模式：LLM 类（LLM / PLANNING / MEMORY / REFLECTION）与 TOOL 执行器替换为录制响应（覆盖上面的注册）
+  if (opts.replay) {
+    registry.register(new LLMNodeExecutor(opts.replay.invokeLLM));
+    registry.register(new PlanningNodeExecutor(opts.replay.invokeLLM));
+    registry.register(new MemoryNodeExecutor(opts.replay.invokeLLM));
+    registry.register(new ReflectionNodeExecutor(opts.replay.invokeLLM));
+    registry.register(new ToolNodeExecutor(opts.replay.invokeTool));
+  }
+
+  // mock 的占位输出与回放结果都不写入节点缓存，避免被真实执行命中
+  const nodeRunner = new GraphNodeRunner(
+    registry,
+    opts.replay || useMock ? undefined : new NodeCacheRepository(omegaDb.instance)
+  );
+
+  // ── 创建 Runtime ──────────────────────────────────
+  const runtime = new GraphRuntime(
+    nodeRunner,
+    runRepo,
+    stepRepo,
+    eventRepo,
+    (event) => {
+      switch (event.type) {
+        case "event:run_started":
+          console.log(`[OMEGA] ▶ Run started: ${event.payload.runId}`);
+          break;
+        case "event:run_forked":
+          console.log(`[OMEGA] ▶ Run forked: ${event.payload.newRunId} (from ${event.payload.parentRunId})`);
+          break;
+        case "event:step_started":
+          console.log(`[OMEGA]   → [${event.payload.nodeType}] ${event.payload.nodeLabel}`);
+          break;
+        case "event:step_completed":
+          console.log(`[OMEGA]   ✓ ${event.payload.nodeId} completed`);
+          break;
+        case "event:step_skipped":
+          console.log(`[OMEGA]   ⤼ [${event.payload.nodeType}] ${event.payload.nodeLabel} skipped (${event.payload.reason})`);
+          break;
+        case "event:run_completed":
+          console.log(`[OMEGA] ─────────────────────────────────────`);
+          console.log(`[OMEGA] ${event.payload.state === "COMPLETED" ? "✅" : "⚠️"} Run ${event.payload.state}`);
+          if (event.payload.reason) {
+            console.log(`[OMEGA]    Reason:   ${event.payload.reason}`);
+          }
+          console.log(`[OMEGA]    Duration: ${event.payload.durationMs}ms`);
+          console.log(`[OMEGA]    Tokens:   ${event.payload.totalTokens}`);
+          console.log(`[OMEGA]    Cost:     $${event.payload.totalCostUsd.toFixed(6)}`);
+          if (event.payload.output) {
+            console.log(`[OMEGA]    Output:`);
+            console.log(JSON.stringify(event.payload.output, null, 2));
+          }
+          console.log(`[OMEGA] ─────────────────────────────────────`);
+          break;
+        case "event:run_paused":
+          console.log(`[OMEGA] ⏸ Run paused: ${event.payload.runId}`);
+          break;
+        case "event:run_resumed":
+          console.log(`[OMEGA] ▶ Run resumed: ${event.payload.runId}`);
+          break;
+        case "event:error":
+          console.error(`[OMEGA] ❌ Error: ${event.payload.error.message}`);
+          break;
+      }
+    },
+    new CheckpointRepository(omegaDb.instance),
+    // 回放 / mock 模式不调用 Provider，图中引用的 Provider ID 无需在本机注册
+    opts.replay || useMock ? undefined : providerRegistry
+  );
+
+  return { runtime, omegaDb, runRepo, stepRepo, eventRepo };
+}
+
+/**
+ * 提示上次中途退出遗留的 RUNNING Run（可通过 omega resume 继续）
+ */
+export function reportOrphanedRuns(runtime: GraphRuntime): void {
+  const orphans = runtime.findOrphanedRuns();
+  if (orphans.length === 0) return;
+
+  console.warn(`[OMEGA] ⚠️  Found ${orphans.length} interrupted run(s) from a previous session:`);
+  for (const run of orphans) {
+    console.warn(`[OMEGA]      ${run.runId}  graph=${run.graphId}  started=${run.startedAt}`);
+  }
+  console.warn(`[OMEGA] ⚠️  Resume with: omega resume <runId>   (or discard with: omega resume <runId> --abandon)`);
+}
+
+/** 等待 Run 结束 (轮询活跃状态) */
+export async function waitForRun(runtime: GraphRuntime, runId: string): Promise<void> {
+  while (runtime.getActiveRunIds().includes(runId)) {
+    await new Promise(r => setTimeout(r, 200));
+  }
+}
@@ -7,7 +7,11 @@ import { McpClientManager } from "./mcp/McpClientManager.js";
 import { BUILTIN_TOOLS, getBuiltinToolInfos, callBuiltinTool } from "./mcp/BuiltinMcpTools.js";
 
 // ── 静态导入所有运行时模块（避免打包后动态 import 路径失效）──────────
-import { getDatabase, RunRepository, StepRepository, EventRepository } from "@omega/db";
+import {
+  getDatabase, RunRepository, StepRepository, EventRepository, NodeCacheRepository, CheckpointRepository,
+  GraphRepository, ModelPricingRepository
+} from "@omega/db";
+import type { ModelPricingRecord } from "@omega/db";
 import {
   GraphRuntime,
   GraphNodeRunner,
@@ -20,10 +24,20 @@ import {
   MemoryNodeExecutor,
   PlanningNodeExecutor,
   AgentLoopExecutor,
+  AgentLoopRecorder,
+  AGENT_LOOP_GRAPH_ID,
+  loadAgentLoopIterations,
+  planAgentLoopFork,
+  inheritAgentLoopSteps,
   buildAgentSystemPrompt,
 } from "@omega/core";
-import { OllamaProvider, OpenAICompatibleProvider } from "@omega/providers";
-import { GraphDefinitionSchema } from "@omega/shared";
+import type { ToolApprovalDecision, AgentLoopForkEdit, AgentLoopForkPlan, AgentPartial, AgentLLMInvoker, AgentLLMStreamInvoker, LLMTargetResolver } from "@omega/core";
+import {
+  OllamaProvider, OpenAICompatibleProvider, FallbackProvider, ProviderRegistry, PricingCatalog, DEFAULT_MODEL_PRICING, createProvider
+} from "@omega/providers";
+import type { LLMProvider, FallbackTarget } from "@omega/providers";
+import { GraphDefinitionSchema, ModelPricingSchema } from "@omega/shared";
+import type { GraphDefinition, LLMRequest, LLMToolCall, LLMToolDefinition, ProviderMeta, Run, TokenEvent } from "@omega/shared";
 
 // vite-plugin-electron 将 main 打包为 ESM，需要手动重建 __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -49,7 +63,7 @@ const globalProviderRef: {
   instance: any | null;
   model: string;
   url: string;
-  type: string;    // DB 中的 provider type 字符串（如 "ollama"/"openai-compatible"/"lm-studio"）
+  type: string;    // DB 中的 provider type 字符串（如 "ollama"/"openai-compatible"/"lm-studio"/"anthropic"/"gemini"）
   healthy: boolean;
   win: BrowserWindow | null;
 } = {
@@ -61,6 +75,18 @@ const globalProviderRef: {
   win: null,
 };
 
+// ── 模块级价格表（所有适配器共享同一实例）────────────
+// ensureEarlyDb 时从 model_pricing 表加载；Settings 中修改价格后 replace，已创建的 Provider 实例立即按新价格计费
+const pricingCatalog = new PricingCatalog();
+
+/** Provider 未配置模型时的默认模型（按 providers 表的 type） */
+function defaultModelFor(type: string): string {
+  if (type === "ollama") return "llama3.2";
+  if (type === "anthropic") return "claude-sonnet-4-5";
+  if (type === "gemini") return "gemini-2.5-flash";
+  return "gpt-4o-mini";
+}
+
 // ── 模块级 DB 容器（早于 initRuntime 打开，供 provider IPC 使用）─
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const earlyDbRef: { db: any | null } = { db: null };
@@ -118,6 +144,13 @@ async function ensureEarlyDb(): Promise</* OmegaDatabase */ { instance: any }> {
     console.warn("[OMEGA DB] Failed to create user_settings table:", e);
   }
 
+  // ── 模型价格表：写入内置价目（保留用户覆盖）并加载到 pricingCatalog ──
+  try {
+    reloadPricingCatalog(earlyDbRef.db);
+  } catch (e) {
+    console.warn("[OMEGA DB] Failed to load model pricing:", e);
+  }
+
   // ── 从旧 DB 路径迁移 providers 数据（一次性）──────────────────────
   // 检查当前 DB 是否有 provider 数据，若没有则从已知旧路径导入
   try {
@@ -283,6 +316,184 @@ function getEffectiveDefaultProvider(db: { instance: any }): // eslint-disable-l
   return fallback;
 }
 
+/**
+ * 为 Run 列表附加执行时的图定义摘要（graphs 快照），供 RunHistoryList 展示历史 Run 的图结构
+ * AgentLoop 等没有图快照的 Run 原样返回
+ */
+function withGraphShape(
+  db: any, // eslint-disable-line @typescript-eslint/no-explicit-any
+  runs: Run[]
+): Array<Run & { graphName?: string; graphShape?: { nodeCount: number; edgeCount: number; nodeTypes: string[] } }> {
+  const graphRepo = new GraphRepository(db);
+  const graphs = new Map<string, GraphDefinition | null>();
+  return runs.map(run => {
+    if (!run.graphHash) return run;
+    if (!graphs.has(run.graphHash)) {
+      graphs.set(run.graphHash, graphRepo.findByHash(run.graphHash)?.definition ?? null);
+    }
+    const graph = graphs.get(run.graphHash);
+    if (!graph) return run;
+    return {
+      ...run,
+      graphName: graph.name,
+      graphShape: {
+        nodeCount: graph.nodes.length,
+        edgeCount: graph.edges.length,
+        nodeTypes: graph.nodes.map(n => n.type),
+      },
+    };
+  });
+}
+
+// ── 工具审批设置（user_settings）──────────────────────────────────
+/** 默认需要用户审批的内置工具（写文件 / 执行代码） */
+const DEFAULT_APPROVAL_TOOLS = ["fs_write", "code_exec"];
+
+/** 读取 user_settings 中以 JSON 保存的字符串数组，缺失或格式错误时返回 fallback */
+function readToolListSetting(db: { instance: any }, key: string, fallback: string[]): string[] { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const row = db.instance.prepare(
+    "SELECT value FROM user_settings WHERE key = ? LIMIT 1"
+  ).get(key) as { value: string } | undefined;
+  if (!row) return fallback;
+  try {
+    const parsed = JSON.parse(row.value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === "string") : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** 写入 user_settings 中的字符串数组（去重后以 JSON 保存） */
+function writeToolListSetting(db: { instance: any }, key: string, tools: string[]): void { // eslint-disable-line @typescript-eslint/no-explicit-any
+  db.instance.prepare(
+    "INSERT OR REPLACE INTO user_settings (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)"
+  ).run(key, JSON.stringify([...new Set(tools)]));
+}
+
+/** 执行前需要审批的工具列表 */
+function getApprovalRequiredTools(db: { instance: any }): string[] { // eslint-disable-line @typescript-eslint/no-explicit-any
+  return readToolListSetting(db, "toolApproval.requireApproval", DEFAULT_APPROVAL_TOOLS);
+}
+
+/** 某个工作目录下"始终允许"的工具（按项目保存，切换工作目录后不生效） */
+function getAlwaysAllowedTools(db: { instance: any }, workingDir: string): string[] { // eslint-disable-line @typescript-eslint/no-explicit-any
+  return readToolListSetting(db, `toolApproval.alwaysAllow:${workingDir}`, []);
+}
+
+/** 当前工作目录：优先 user_settings.workingDir，其次 MCP 允许目录 */
+function getApprovalWorkingDir(db: { instance: any }): string | null { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const row = db.instance.prepare(
+    "SELECT value FROM user_settings WHERE key='workingDir' LIMIT 1"
+  ).get() as { value: string } | undefined;
+  return row?.value || mcpManager.allowedDirs[0] || null;
+}
+
+// ── 按 ID 路由 Provider（providers 表）────────────────────────────────
+/** providers 表的一行 */
+type ProviderRow = { id: string; name: string; type: string; base_url: string; api_key?: string; model?: string };
+
+/** 按 ID 读取 providers 表的一行 */
+function findProviderRow(db: { instance: any }, id: string): ProviderRow | undefined { // eslint-disable-line @typescript-eslint/no-explicit-any
+  return db.instance.prepare(
+    "SELECT id, name, type, base_url, api_key, model FROM providers WHERE id = ? LIMIT 1"
+  ).get(id) as ProviderRow | undefined;
+}
+
+/** 由 providers 表的一行创建适配器 */
+function createProviderFromRow(row: ProviderRow): LLMProvider {
+  return createProvider({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    baseUrl: row.base_url,
+    ...(row.api_key && { apiKey: row.api_key }),
+  }, { pricing: pricingCatalog });
+}
+
+/**
+ * 以 providers 表构建 ProviderRegistry（ID 即表主键，is_default 的行为默认 Provider）
+ * 每次调用实时读取，Settings 中增删 Provider 后立即生效
+ */
+function buildProviderRegistry(db: { instance: any }): ProviderRegistry { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const rows = db.instance.prepare(
+    "SELECT id, name, type, base_url, api_key, model, is_default FROM providers ORDER BY created_at ASC"
+  ).all() as Array<ProviderRow & { is_default: number }>;
+  const registry = new ProviderRegistry();
+  for (const row of rows) {
+    registry.register(row.id, createProviderFromRow(row), row.is_default === 1);
+  }
+  return registry;
+}
+
+// ── Provider 故障转移链（user_settings.providerFallbackChain）──────────
+/** 故障转移链中的一项：providers 表 ID + 可选模型覆盖（省略时用该 Provider 配置的模型） */
+interface FallbackChainEntry {
+  providerId: string;
+  model?: string;
+}
+
+/** 读取故障转移链（按尝试顺序），缺失或格式错误时返回空链 */
+function readFallbackChain(db: { instance: any }): FallbackChainEntry[] { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const row = db.instance.prepare(
+    "SELECT value FROM user_settings WHERE key = 'providerFallbackChain' LIMIT 1"
+  ).get() as { value: string } | undefined;
+  if (!row) return [];
+  try {
+    const parsed = JSON.parse(row.value) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((e): e is FallbackChainEntry => typeof e?.providerId === "string")
+      .map(e => ({ providerId: e.providerId, ...(typeof e.model === "string" && e.model.trim() && { model: e.model.trim() }) }));
+  } catch {
+    return [];
+  }
+}
+
+/** 写入故障转移链（同一 Provider 只保留首次出现的一项） */
+function writeFallbackChain(db: { instance: any }, chain: FallbackChainEntry[]): void { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const unique = chain.filter((e, i) => chain.findIndex(o => o.providerId === e.providerId) === i);
+  db.instance.prepare(
+    "INSERT OR REPLACE INTO user_settings (key, value, updated_at) VALUES ('providerFallbackChain', ?, CURRENT_TIMESTAMP)"
+  ).run(JSON.stringify(unique));
+}
+
+/**
+ * 按故障转移链把主 Provider 包装为 FallbackProvider（每次调用实时读取，Settings 中修改即生效）
+ * 链为空、链中 Provider 已被删除或与当前默认 Provider 相同时跳过；没有可用的后备时原样返回主 Provider
+ */
+function withFallbackChain(db: { instance: any }, primary: LLMProvider): LLMProvider { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const chain = readFallbackChain(db);
+  if (chain.length === 0) return primary;
+
+  const defaultRow = db.instance.prepare(
+    "SELECT id FROM providers WHERE is_default = 1 LIMIT 1"
+  ).get() as { id: string } | undefined;
+  const fallbacks: FallbackTarget[] = [];
+  for (const entry of chain) {
+    if (entry.providerId === defaultRow?.id) continue;
+    const row = findProviderRow(db, entry.providerId);
+    if (!row) continue;
+    fallbacks.push({
+      provider: createProviderFromRow(row),
+      model: entry.model ?? row.model ?? defaultModelFor(row.type),
+    });
+  }
+  return fallbacks.length > 0 ? new FallbackProvider([{ provider: primary }, ...fallbacks]) : primary;
+}
+
+// ── 模型价格表（model_pricing 表）────────────────────────────────────
+/**
+ * 写入内置价目并把 model_pricing 表整体加载到 pricingCatalog，返回当前全部条目
+ * 内置价目只更新未被用户覆盖的条目；删除内置模型的覆盖后在此恢复为内置价格
+ */
+function reloadPricingCatalog(db: { instance: any }): ModelPricingRecord[] { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const pricingRepo = new ModelPricingRepository(db.instance);
+  pricingRepo.seedDefaults(DEFAULT_MODEL_PRICING);
+  const entries = pricingRepo.list();
+  pricingCatalog.replace(entries);
+  return entries;
+}
+
 /**
  * 注册 Provider CRUD + reload IPC handler
  * 必须在 app.whenReady 后、窗口创建前调用，确保渲染进程一启动就能使用
@@ -375,7 +586,7 @@ function registerProviderHandlers() {
       const db = await ensureEarlyDb();
       // RunRepository 已从顶部静态导入
       const runRepo = new RunRepository(db.instance);
-      return runRepo.findAll(20);
+      return withGraphShape(db.instance, runRepo.findAll(20));
     } catch {
       // runtime 尚未就绪或 DB 尚未初始化，返回空数组
       return [];
@@ -397,26 +608,23 @@ function registerProviderHandlers() {
 
       // 更新 globalProviderRef 中的 model、url 和 type（即使 instance 尚未就绪也要更新，
       // 以便 initRuntime 启动时读取到正确的值）
-      const newModel = newRow.model ?? (newRow.type === "ollama" ? "llama3.2" : "gpt-4o-mini");
+      const newModel = newRow.model ?? defaultModelFor(newRow.type);
       const newUrl = newRow.base_url;
       globalProviderRef.model = newModel;
       globalProviderRef.url = newUrl;
       globalProviderRef.type = newRow.type;
 
       // 如果 runtime 已就绪（instance 存在），替换实例并做健康检查
-      // OllamaProvider / OpenAICompatibleProvider 已从顶部静态导入
+      // createProvider 按 type 选择适配器（已从顶部静态导入）
       if (globalProviderRef.instance !== null) {
 
-        if (newRow.type === "openai-compatible" || newRow.type === "lm-studio" || newRow.type === "custom") {
-          globalProviderRef.instance = new OpenAICompatibleProvider({
-            id: newRow.id,
-            name: newRow.name,
-            baseUrl: newUrl,
-            ...(newRow.api_key && { apiKey: newRow.api_key }),
-          });
-        } else {
-          globalProviderRef.instance = new OllamaProvider({ baseUrl: newUrl });
-        }
+        globalProviderRef.instance = createProvider({
+          id: newRow.id,
+          name: newRow.name,
+          type: newRow.type,
+          baseUrl: newUrl,
+          ...(newRow.api_key && { apiKey: newRow.api_key }),
+        }, { pricing: pricingCatalog });
 
         const healthy = await globalProviderRef.instance.healthCheck();
         globalProviderRef.healthy = healthy;
@@ -474,20 +682,10 @@ function registerProviderHandlers() {
   });
 
   // ── IPC: list-models（按 type/baseUrl 获取模型列表）────────────────────
-  ipcMain.handle("omega:list-models", async (_e, { type, baseUrl }: { type: string; baseUrl: string }) => {
+  ipcMain.handle("omega:list-models", async (_e, { type, baseUrl, apiKey }: { type: string; baseUrl: string; apiKey?: string }) => {
     try {
-      let models: string[] = [];
-      if (type === "ollama") {
-        const provider = new OllamaProvider({ baseUrl });
-        models = await provider.listModels();
-      } else {
-        const provider = new OpenAICompatibleProvider({
-          id: "list-models-tmp",
-          name: "tmp",
-          baseUrl,
-        });
-        models = await provider.listModels();
-      }
+      const provider = createProvider({ id: "list-models-tmp", name: "tmp", type, baseUrl, ...(apiKey && { apiKey }) });
+      const models = await provider.listModels();
       console.log(`[OMEGA ListModels] ${type} @ ${baseUrl}: ${models.length} models`);
       return { models };
     } catch (e) {
@@ -634,6 +832,100 @@ function registerProviderHandlers() {
     }
   });
 
+  // ── IPC: get-tool-approval（读取工具审批设置 + 当前工作目录的"始终允许"规则）──
+  ipcMain.handle("omega:get-tool-approval", async () => {
+    try {
+      const db = await ensureEarlyDb();
+      const workingDir = getApprovalWorkingDir(db);
+      return {
+        requireApproval: getApprovalRequiredTools(db),
+        alwaysAllow: workingDir ? getAlwaysAllowedTools(db, workingDir) : [],
+        workingDir,
+      };
+    } catch (e) {
+      return { requireApproval: DEFAULT_APPROVAL_TOOLS, alwaysAllow: [], workingDir: null, error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: save-tool-approval（保存需审批工具列表 / 当前工作目录的"始终允许"规则）──
+  ipcMain.handle("omega:save-tool-approval", async (_event, settings: { requireApproval?: string[]; alwaysAllow?: string[] }) => {
+    try {
+      const db = await ensureEarlyDb();
+      if (settings.requireApproval) {
+        writeToolListSetting(db, "toolApproval.requireApproval", settings.requireApproval);
+      }
+      if (settings.alwaysAllow) {
+        const workingDir = getApprovalWorkingDir(db);
+        if (!workingDir) return { error: "No working directory selected" };
+        writeToolListSetting(db, `toolApproval.alwaysAllow:${workingDir}`, settings.alwaysAllow);
+      }
+      return { ok: true };
+    } catch (e) {
+      console.error("[OMEGA Main] save-tool-approval error:", e);
+      return { error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: get-provider-fallback-chain（读取 Provider 故障转移链）──────
+  ipcMain.handle("omega:get-provider-fallback-chain", async () => {
+    try {
+      const db = await ensureEarlyDb();
+      return { chain: readFallbackChain(db) };
+    } catch (e) {
+      return { chain: [], error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: save-provider-fallback-chain（保存故障转移链，下一次 LLM 调用生效）──
+  ipcMain.handle("omega:save-provider-fallback-chain", async (_event, chain: FallbackChainEntry[]) => {
+    try {
+      const db = await ensureEarlyDb();
+      writeFallbackChain(db, chain);
+      return { ok: true };
+    } catch (e) {
+      console.error("[OMEGA Main] save-provider-fallback-chain error:", e);
+      return { error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: list-model-pricing（读取模型价格表）─────────────────────
+  ipcMain.handle("omega:list-model-pricing", async () => {
+    try {
+      const db = await ensureEarlyDb();
+      return { entries: new ModelPricingRepository(db.instance).list() };
+    } catch (e) {
+      return { entries: [], error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: save-model-pricing（保存用户定价，下一次 LLM 调用生效）──────
+  ipcMain.handle("omega:save-model-pricing", async (_event, entry: unknown) => {
+    const parsed = ModelPricingSchema.safeParse(entry);
+    if (!parsed.success) {
+      return { error: parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ") };
+    }
+    try {
+      const db = await ensureEarlyDb();
+      new ModelPricingRepository(db.instance).save({ ...parsed.data, model: parsed.data.model.trim() });
+      return { ok: true, entries: reloadPricingCatalog(db) };
+    } catch (e) {
+      console.error("[OMEGA Main] save-model-pricing error:", e);
+      return { error: (e as Error).message };
+    }
+  });
+
+  // ── IPC: delete-model-pricing（删除自定义价格；内置模型恢复为内置价格）──
+  ipcMain.handle("omega:delete-model-pricing", async (_event, model: string) => {
+    try {
+      const db = await ensureEarlyDb();
+      new ModelPricingRepository(db.instance).delete(model);
+      return { ok: true, entries: reloadPricingCatalog(db) };
+    } catch (e) {
+      console.error("[OMEGA Main] delete-model-pricing error:", e);
+      return { error: (e as Error).message };
+    }
+  });
+
   // ── IPC: cancel-run（早期占位，runtime 未就绪时忽略）────────────────
   ipcMain.handle("omega:cancel-run", async () => {
     return { ok: false, error: "Runtime not ready" };
@@ -643,6 +935,14 @@ function registerProviderHandlers() {
   ipcMain.handle("omega:fork-run", async () => {
     return { ok: false, error: "Runtime not ready" };
   });
+
+  // ── IPC: pause-run / resume-run（早期占位，runtime 未就绪时忽略）──────
+  ipcMain.handle("omega:pause-run", async () => {
+    return { ok: false, error: "Runtime not ready" };
+  });
+  ipcMain.handle("omega:resume-run", async () => {
+    return { ok: false, error: "Runtime not ready" };
+  });
 }
 
 /**
@@ -728,21 +1028,25 @@ async function initRuntime(win: BrowserWindow) {
     // ── 初始化 globalProviderRef.instance ─────────────────────
     // 如果 reload-provider 在 initRuntime 前被调用过，globalProviderRef.model/url 可能已经更新；
     // 优先使用 DB 读取值（更权威），globalProviderRef 字段会在下方被覆盖
-    if (providerTypeInDb === "openai-compatible" || providerTypeInDb === "lm-studio" || providerTypeInDb === "custom") {
-      globalProviderRef.instance = new OpenAICompatibleProvider({
+    if (providerTypeInDb === "openai-compatible" || providerTypeInDb === "lm-studio" || providerTypeInDb === "custom" || providerTypeInDb === "anthropic" || providerTypeInDb === "gemini") {
+      const defaultUrl = providerTypeInDb === "anthropic" ? "https://api.anthropic.com"
+        : providerTypeInDb === "gemini" ? "https://generativelanguage.googleapis.com"
+        : "https://api.openai.com/v1";
+      globalProviderRef.instance = createProvider({
         id: providerIdInDb ?? "custom",
         name: providerNameInDb ?? "Custom Provider",
-        baseUrl: providerBaseUrlInDb ?? "https://api.openai.com/v1",
+        type: providerTypeInDb,
+        baseUrl: providerBaseUrlInDb ?? defaultUrl,
         ...(providerApiKeyInDb && { apiKey: providerApiKeyInDb }),
-      });
-      globalProviderRef.url = providerBaseUrlInDb ?? "https://api.openai.com/v1";
-      globalProviderRef.model = providerModelInDb ?? "gpt-4o-mini";
+      }, { pricing: pricingCatalog });
+      globalProviderRef.url = providerBaseUrlInDb ?? defaultUrl;
+      globalProviderRef.model = providerModelInDb ?? defaultModelFor(providerTypeInDb);
       globalProviderRef.type = providerTypeInDb;
     } else {
       const ollamaBase = (providerTypeInDb === "ollama" && providerBaseUrlInDb)
         ? providerBaseUrlInDb
         : ollamaUrl;
-      globalProviderRef.instance = new OllamaProvider({ baseUrl: ollamaBase });
+      globalProviderRef.instance = new OllamaProvider({ baseUrl: ollamaBase, pricing: pricingCatalog });
       globalProviderRef.url = ollamaBase;
       globalProviderRef.model = providerModelInDb ?? "llama3.2";
       globalProviderRef.type = "ollama";
@@ -792,22 +1096,19 @@ async function initRuntime(win: BrowserWindow) {
         const liveRow = getEffectiveDefaultProvider(liveDb);
 
         if (liveRow) {
-          liveModel = liveRow.model ?? (liveRow.type === "ollama" ? "llama3.2" : "gpt-4o-mini");
+          liveModel = liveRow.model ?? defaultModelFor(liveRow.type);
           const liveUrl = liveRow.base_url;
 
           console.log(`[OMEGA LLM] Live provider from DB: id=${liveRow.id} type=${liveRow.type} url=${liveUrl} model=${liveModel}`);
 
           if (liveUrl !== globalProviderRef.url || liveRow.type !== globalProviderRef.type) {
-            if (liveRow.type === "openai-compatible" || liveRow.type === "lm-studio" || liveRow.type === "custom") {
-              liveProvider = new OpenAICompatibleProvider({
-                id: liveRow.id,
-                name: liveRow.name,
-                baseUrl: liveUrl,
-                ...(liveRow.api_key && { apiKey: liveRow.api_key }),
-              });
-            } else {
-              liveProvider = new OllamaProvider({ baseUrl: liveUrl });
-            }
+            liveProvider = createProvider({
+              id: liveRow.id,
+              name: liveRow.name,
+              type: liveRow.type,
+              baseUrl: liveUrl,
+              ...(liveRow.api_key && { apiKey: liveRow.api_key }),
+            }, { pricing: pricingCatalog });
             globalProviderRef.instance = liveProvider;
             globalProviderRef.model = liveModel;
             globalProviderRef.url = liveUrl;
@@ -823,8 +1124,22 @@ async function initRuntime(win: BrowserWindow) {
         console.warn("[OMEGA LLM] Failed to read live provider from DB, using cached:", e);
       }
 
-      if (!liveProvider) {
-        throw new Error("No LLM provider available. Please configure a provider in Settings.");
+      if (config.provider) {
+        // 节点指定了 Provider ID：经 ProviderRegistry 路由（未知 ID 已在图加载阶段被拒绝），模型留空时用该 Provider 配置的模型
+        const liveDb = await ensureEarlyDb();
+        liveProvider = buildProviderRegistry(liveDb).resolve(config.provider);
+        const routedRow = findProviderRow(liveDb, config.provider);
+        liveModel = routedRow?.model ?? defaultModelFor(routedRow?.type ?? "ollama");
+        console.log(`[OMEGA LLM] Node routed to provider id=${config.provider} type=${routedRow?.type}`);
+      } else {
+        if (!liveProvider) {
+          throw new Error("No LLM provider available. Please configure a provider in Settings.");
+        }
+        try {
+          liveProvider = withFallbackChain(await ensureEarlyDb(), liveProvider);
+        } catch (e) {
+          console.warn("[OMEGA LLM] Failed to read provider fallback chain:", e);
+        }
       }
 
       const resolvedModel = (config.model && config.model.trim()) ? config.model : liveModel;
@@ -856,13 +1171,29 @@ async function initRuntime(win: BrowserWindow) {
       return result;
     };
 
+    // LLM 节点缓存 Key 按实际调用的 Provider / 模型区分（解析规则与 sharedInvokeProvider 一致）
+    const resolveLLMTarget: LLMTargetResolver = (config) => {
+      if (config.provider) {
+        const routedRow = findProviderRow(omegaDb, config.provider);
+        return {
+          provider: config.provider,
+          model: config.model?.trim() || (routedRow?.model ?? defaultModelFor(routedRow?.type ?? "ollama")),
+        };
+      }
+      const defaultRow = getEffectiveDefaultProvider(omegaDb);
+      return {
+        provider: defaultRow?.id ?? globalProviderRef.type,
+        model: config.model?.trim() || (defaultRow ? defaultRow.model ?? defaultModelFor(defaultRow.type) : globalProviderRef.model),
+      };
+    };
+
     // ── 注册节点执行器（四种 LLM 型节点均共用 sharedInvokeProvider）─
     const registry = new NodeExecutorRegistry();
     registry.register(new InputNodeExecutor());
     registry.register(new OutputNodeExecutor());
 
     // LLM 节点：直接执行 LLM 调用
-    registry.register(new LLMNodeExecutor(sharedInvokeProvider));
+    registry.register(new LLMNodeExecutor(sharedInvokeProvider, resolveLLMTarget));
 
     // PLANNING 节点：任务规划专家，实际调用 LLM 生成步骤计划
     registry.register(new PlanningNodeExecutor(sharedInvokeProvider));
@@ -916,7 +1247,7 @@ async function initRuntime(win: BrowserWindow) {
       })
     );
 
-    const nodeRunner = new GraphNodeRunner(registry);
+    const nodeRunner = new GraphNodeRunner(registry, new NodeCacheRepository(omegaDb.instance));
 
     // ── 创建 Runtime 并挂载到 ipcMain ──────────
     const runtime = new GraphRuntime(
@@ -950,6 +1281,25 @@ async function initRuntime(win: BrowserWindow) {
               nodeId: event.payload.nodeId,
             });
             break;
+          case "event:step_skipped":
+            win.webContents.send("omega:step-event", {
+              type: "SYSTEM",
+              message: `⤼ [${event.payload.nodeType}] ${event.payload.nodeLabel} skipped`,
+              nodeId: event.payload.nodeId,
+            });
+            break;
+          case "event:run_paused":
+            win.webContents.send("omega:step-event", {
+              type: "SYSTEM",
+              message: `Run paused: ${event.payload.runId}`,
+            });
+            break;
+          case "event:run_resumed":
+            win.webContents.send("omega:step-event", {
+              type: "SYSTEM",
+              message: `Run resumed: ${event.payload.runId}`,
+            });
+            break;
           case "event:run_completed":
             win.webContents.send("omega:step-event", {
               type: "SYSTEM",
@@ -970,21 +1320,14 @@ async function initRuntime(win: BrowserWindow) {
             });
             break;
         }
-      }
+      },
+      new CheckpointRepository(omegaDb.instance),
+      // 加载阶段校验 LLM 型节点引用的 Provider ID（按 providers 表实时查询）
+      { has: (id: string) => findProviderRow(omegaDb, id) !== undefined }
     );
 
-    // ── AgentLoop LLM invoker 工厂（绑定 runId + signal，供 AgentLoopExecutor 使用）──
-    // 与 sharedInvokeProvider 不同：接受完整的 ChatMessage[] 数组，支持 ReAct 上下文
-    // runId 透传到 omega:token-stream，renderer 过滤时使用；signal 用于中断流式调用
-    const makeAgentLLMInvoker = (runId: string, signal: AbortSignal) => async (
-      systemPrompt: string,
-      messages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
-      opts?: { temperature?: number; maxTokens?: number }
-    ): Promise<{ text: string; tokens: number; costUsd: number }> => {
-      // 在每次 LLM 调用前检查取消状态
-      if (signal.aborted) throw new Error("Run cancelled");
-
-      // 实时从 DB 获取最新 provider（与 sharedInvokeProvider 逻辑相同）
+    // ── AgentLoop 当前 Provider：实时从 DB 获取最新默认 provider（与 sharedInvokeProvider 逻辑相同）──
+    const resolveAgentProvider = async () => {
       let liveProvider = globalProviderRef.instance;
       let liveModel = globalProviderRef.model;
 
@@ -995,16 +1338,33 @@ async function initRuntime(win: BrowserWindow) {
           liveModel = liveRow.model ?? liveModel;
           const liveUrl = liveRow.base_url;
           if (liveUrl !== globalProviderRef.url || liveRow.type !== globalProviderRef.type) {
-            if (liveRow.type === "openai-compatible" || liveRow.type === "lm-studio" || liveRow.type === "custom") {
-              liveProvider = new OpenAICompatibleProvider({ id: liveRow.id, name: liveRow.name, baseUrl: liveUrl, ...(liveRow.api_key && { apiKey: liveRow.api_key }) });
-            } else {
-              liveProvider = new OllamaProvider({ baseUrl: liveUrl });
-            }
+            liveProvider = createProvider(
+              { id: liveRow.id, name: liveRow.name, type: liveRow.type, baseUrl: liveUrl, ...(liveRow.api_key && { apiKey: liveRow.api_key }) },
+              { pricing: pricingCatalog },
+            );
           }
         }
       } catch { /* 使用缓存的 provider */ }
 
       if (!liveProvider) throw new Error("No LLM provider available");
+      try {
+        liveProvider = withFallbackChain(await ensureEarlyDb(), liveProvider);
+      } catch { /* 故障转移链读取失败时只用主 Provider */ }
+      return { liveProvider, liveModel };
+    };
+
+    // ── AgentLoop LLM invoker 工厂（绑定 runId + signal，供 AgentLoopExecutor 使用）──
+    // 与 sharedInvokeProvider 不同：接受完整的 ChatMessage[] 数组，支持 ReAct 上下文
+    // runId 透传到 omega:token-stream，renderer 过滤时使用；signal 用于中断流式调用
+    const makeAgentLLMInvoker = (runId: string, signal: AbortSignal) => async (
+      systemPrompt: string,
+      messages: Array<{ role: "user" | "assistant" | "system" | "tool"; content: string; toolCalls?: LLMToolCall[]; toolCallId?: string }>,
+      opts?: { temperature?: number; maxTokens?: number; tools?: LLMToolDefinition[] }
+    ): Promise<{ text: string; tokens: number; costUsd: number; toolCalls?: LLMToolCall[]; providerMeta?: ProviderMeta }> => {
+      // 在每次 LLM 调用前检查取消状态
+      if (signal.aborted) throw new Error("Run cancelled");
+
+      const { liveProvider, liveModel } = await resolveAgentProvider();
 
       console.log(`[OMEGA AgentLoop] LLM call (streaming): runId=${runId} model=${liveModel} msgs=${messages.length} temp=${opts?.temperature ?? 0.5}`);
 
@@ -1016,6 +1376,9 @@ async function initRuntime(win: BrowserWindow) {
       // runId 透传，renderer 用于过滤只接受当前活跃 run 的 token
       let fullText = "";
       let totalTokens = 0;
+      let costUsd = 0;  // 由 Provider 按价格表计算（Ollama/本地模型为 0）
+      let toolCalls: LLMToolCall[] | undefined;
+      let providerMeta: ProviderMeta | undefined;  // 仅经过故障转移链时由 FallbackProvider 填充
 
       try {
         const stream = liveProvider.generate({
@@ -1026,6 +1389,7 @@ async function initRuntime(win: BrowserWindow) {
           ],
           ...(opts?.temperature !== undefined && { temperature: opts.temperature }),
           ...(opts?.maxTokens !== undefined && { maxTokens: opts.maxTokens }),
+          ...(opts?.tools !== undefined && { tools: opts.tools }),
         });
 
         for await (const event of stream) {
@@ -1046,6 +1410,9 @@ async function initRuntime(win: BrowserWindow) {
             // 最后一个事件（done=true），包含完整的 usage
             if (event.token) fullText += event.token;
             totalTokens = event.usage?.totalTokens ?? totalTokens;
+            costUsd = event.costUsd ?? costUsd;
+            toolCalls = event.toolCalls;
+            providerMeta = event.providerMeta;
           }
         }
       } catch (streamErr) {
@@ -1061,14 +1428,104 @@ async function initRuntime(win: BrowserWindow) {
           ],
           ...(opts?.temperature !== undefined && { temperature: opts.temperature }),
           ...(opts?.maxTokens !== undefined && { maxTokens: opts.maxTokens }),
+          ...(opts?.tools !== undefined && { tools: opts.tools }),
         });
         fullText = fallbackResult.text;
         totalTokens = fallbackResult.tokens;
+        costUsd = fallbackResult.costUsd;
+        toolCalls = fallbackResult.toolCalls;
+        if (fallbackResult.providerMeta.fallbackFrom) providerMeta = fallbackResult.providerMeta;
       }
 
-      const costUsd = 0; // token 成本估算（Ollama/本地模型免费）
       win.webContents.send("omega:token-update", { tokens: totalTokens, costUsd });
-      return { text: fullText, tokens: totalTokens, costUsd };
+      return {
+        text: fullText,
+        tokens: totalTokens,
+        costUsd,
+        ...(toolCalls !== undefined && { toolCalls }),
+        ...(providerMeta !== undefined && { providerMeta }),
+      };
+    };
+
+    // ── AgentLoop 流式 LLM invoker 工厂：原样产出 Provider 的 TokenEvent ──
+    // AgentLoopExecutor 逐 token 增量解析思考 / 答案 / 工具调用标签（onPartial → omega:agent-partial）；
+    // 原始 token 仍推送到 omega:token-stream。尚未产出 token 就失败时回退到 generateComplete
+    const makeAgentLLMStreamInvoker = (runId: string, signal: AbortSignal): AgentLLMStreamInvoker => async function* (
+      systemPrompt,
+      messages,
+      opts,
+    ): AsyncGenerator<TokenEvent> {
+      if (signal.aborted) throw new Error("Run cancelled");
+
+      const { liveProvider, liveModel } = await resolveAgentProvider();
+      const request: LLMRequest = {
+        model: liveModel,
+        messages: [
+          { role: "system", content: systemPrompt },
+          // 多模态消息的 ContentPart[] 由 Provider 适配器原样转发（OpenAI vision 格式）
+          ...(messages as LLMRequest["messages"]),
+        ],
+        ...(opts?.temperature !== undefined && { temperature: opts.temperature }),
+        ...(opts?.maxTokens !== undefined && { maxTokens: opts.maxTokens }),
+        ...(opts?.tools !== undefined && { tools: opts.tools }),
+        stream: true,
+      };
+
+      console.log(`[OMEGA AgentLoop] LLM stream: runId=${runId} model=${liveModel} msgs=${messages.length} temp=${opts?.temperature ?? 0.5}`);
+      win.webContents.send("omega:stream-clear", { runId });
+
+      let yielded = false;
+      try {
+        for await (const event of liveProvider.generate(request)) {
+          if (signal.aborted) return;
+          yielded = true;
+          if (event.token) win.webContents.send("omega:token-stream", { token: event.token, runId });
+          if (event.done) {
+            win.webContents.send("omega:token-update", { tokens: event.usage?.totalTokens ?? 0, costUsd: event.costUsd ?? 0 });
+          }
+          yield event;
+        }
+      } catch (streamErr) {
+        if (signal.aborted) throw new Error("Run cancelled");
+        if (yielded) throw streamErr;
+        console.warn("[OMEGA AgentLoop] Streaming failed, falling back to generateComplete:", streamErr);
+        const result = await liveProvider.generateComplete(request);
+        win.webContents.send("omega:token-update", { tokens: result.tokens, costUsd: result.costUsd });
+        yield {
+          token: result.text,
+          done: true,
+          usage: { promptTokens: 0, completionTokens: result.tokens, totalTokens: result.tokens },
+          costUsd: result.costUsd,
+          ...(result.toolCalls && { toolCalls: result.toolCalls }),
+          ...(result.providerMeta.fallbackFrom && { providerMeta: result.providerMeta }),
+        };
+      }
+    };
+
+    // ── AgentLoop 校验 invoker 工厂：完成前自检的评分调用（非流式，不推送到 token 流）──
+    // model 省略时使用当前默认 Provider 的模型
+    const makeAgentVerifierInvoker = (runId: string, signal: AbortSignal, model?: string): AgentLLMInvoker => async (
+      systemPrompt,
+      messages,
+      opts,
+    ) => {
+      if (signal.aborted) throw new Error("Run cancelled");
+
+      const { liveProvider, liveModel } = await resolveAgentProvider();
+      const verifierModel = model ?? liveModel;
+      console.log(`[OMEGA AgentLoop] Verifier call: runId=${runId} model=${verifierModel}`);
+      const result = await liveProvider.generateComplete({
+        model: verifierModel,
+        messages: [
+          { role: "system", content: systemPrompt },
+          ...(messages as LLMRequest["messages"]),
+        ],
+        ...(opts?.temperature !== undefined && { temperature: opts.temperature }),
+        ...(opts?.maxTokens !== undefined && { maxTokens: opts.maxTokens }),
+        stream: false,
+      });
+      win.webContents.send("omega:token-update", { tokens: result.tokens, costUsd: result.costUsd });
+      return { text: result.text, tokens: result.tokens, costUsd: result.costUsd };
     };
 
     // ── AgentLoop 工具 invoker（内置工具 + MCP 工具混合调用）────────
@@ -1147,7 +1604,7 @@ async function initRuntime(win: BrowserWindow) {
       "omega:run-agent-loop",
       async (
         _event,
-        taskJson: string,        // { task: string, lang?: "zh"|"en", attachmentsJson?: string, sessionId?: string }
+        taskJson: string,        // { task: string, lang?: "zh"|"en", attachmentsJson?: string, sessionId?: string, fork?: {...} }
       ) => {
         let taskOpts: {
           task: string;
@@ -1155,6 +1612,11 @@ async function initRuntime(win: BrowserWindow) {
           availableTools?: string[];
           attachmentsJson?: string;
           sessionId?: string;   // ← 新增：会话 ID，用于跨轮次记忆
+          toolCallMode?: "xml" | "native";  // 工具调用协议（默认 xml；模型支持 function calling 时可用 native）
+          // 完成前自检：校验模型（默认同 Agent 模型）给最终答案打分，低于阈值（默认 0.7）时退回重做，最多 maxRejections 次（默认 2）
+          verification?: { model?: string; confidenceThreshold?: number; maxRejections?: number };
+          // 从已有 AgentLoop Run 的第 iteration 轮分叉（可编辑该轮响应或观察结果），task / attachmentsJson 被忽略
+          fork?: { parentRunId: string; iteration: number; edit?: AgentLoopForkEdit };
         };
         try {
           taskOpts = JSON.parse(taskJson);
@@ -1165,12 +1627,30 @@ async function initRuntime(win: BrowserWindow) {
         // AgentLoopExecutor / buildAgentSystemPrompt / nanoid 已从顶部静态导入
 
         const runId = nanoid();
-        const lang = taskOpts.lang ?? "zh";
         const sessionId = taskOpts.sessionId; // 可能为 undefined（旧版 renderer 兼容）
 
+        // ── AgentLoop fork：任务、语言、图片和历史沿用父 Run 记录的 input ──────
+        let forkInput: {
+          task: string;
+          lang?: "zh" | "en";
+          imageUrls?: string[];
+          history?: Array<{ role: "user" | "assistant" | "system"; content: string }>;
+        } | undefined;
+        if (taskOpts.fork) {
+          const parentRun = runRepo.findById(taskOpts.fork.parentRunId);
+          if (parentRun?.graphId !== AGENT_LOOP_GRAPH_ID || typeof parentRun.input?.["task"] !== "string") {
+            return { error: `Agent-loop run not found: ${taskOpts.fork.parentRunId}` };
+          }
+          forkInput = parentRun.input as NonNullable<typeof forkInput>;
+        }
+        const lang = forkInput?.lang ?? taskOpts.lang ?? "zh";
+
         // ── 跨轮次记忆：读取该 session 的历史消息 ─────────────────────────
         // 若有 sessionId 则从 Map 取历史；没有 sessionId 则每次都是全新对话（向后兼容）
-        const historyMessages = sessionId
+        // fork 时使用父 Run 当时的历史，完成后的摘要对相当于替换父 Run 那一轮
+        const historyMessages = forkInput
+          ? (forkInput.history ?? [])
+          : sessionId
           ? (sessionMessagesMap.get(sessionId) ?? [])
           : [];
 
@@ -1192,38 +1672,10 @@ async function initRuntime(win: BrowserWindow) {
         console.log(`[OMEGA AgentLoop] Builtin tools: [${builtinToolNames.join(",")}]`);
         console.log(`[OMEGA AgentLoop] MCP tools: [${mcpTools.join(",")}]`);
 
-        console.log(`[OMEGA AgentLoop] Starting run ${runId}, lang=${lang}, tools=[${availableTools.join(",")}], sessionId=${sessionId ?? "none"}`);
-        const runStartedAt = new Date().toISOString();
-
-        // ── 写入 DB：Run 开始记录 ─────────────────────────────────────────
-        try {
-          runRepo.create({
-            runId,
-            graphId: "agent-loop",          // AgentLoop 特殊 graphId 标识
-            graphVersion: "1",
-            state: "running",
-            totalTokens: 0,
-            totalCostUsd: 0,
-            input: { task: taskOpts.task.slice(0, 500) }, // 存储任务摘要
-            startedAt: runStartedAt,
-            createdAt: runStartedAt,
-          });
-          console.log(`[OMEGA AgentLoop DB] Run created: ${runId}`);
-        } catch (dbErr) {
-          console.warn(`[OMEGA AgentLoop DB] Failed to create run record:`, dbErr);
-        }
-
-        // 通知 UI：Run 开始（携带真实 runId，renderer 用于 token 过滤同步）
-        win.webContents.send("omega:run-started", { runId });
-        win.webContents.send("omega:step-event", {
-          type: "SYSTEM",
-          message: `Run started: ${runId}`,
-        });
-
         // 处理附件
-        let task = taskOpts.task;
-        let taskImageUrls: string[] | undefined;
-        if (taskOpts.attachmentsJson) {
+        let task = forkInput?.task ?? taskOpts.task;
+        let taskImageUrls: string[] | undefined = forkInput?.imageUrls;
+        if (taskOpts.attachmentsJson && !forkInput) {
           try {
             const attachments: AttachmentItem[] = JSON.parse(taskOpts.attachmentsJson);
             if (attachments.length > 0) {
@@ -1253,6 +1705,74 @@ async function initRuntime(win: BrowserWindow) {
           } catch { /* ignore */ }
         }
 
+        // ── 工具调用协议：fork 沿用父 Run 记录的协议（重建的消息格式取决于它），旧 Run 未记录时使用本次设置 ──
+        const parentToolCallMode = taskOpts.fork ? runRepo.findById(taskOpts.fork.parentRunId)?.input?.["toolCallMode"] : undefined;
+        const toolCallMode: "xml" | "native" = parentToolCallMode === "xml" || parentToolCallMode === "native"
+          ? parentToolCallMode
+          : taskOpts.toolCallMode ?? "xml";
+
+        // ── fork：从父 Run 的事件重建前 N 轮对话（迭代不存在 / 无法重建时直接返回错误）──
+        let forkPlan: AgentLoopForkPlan | undefined;
+        if (taskOpts.fork) {
+          try {
+            forkPlan = planAgentLoopFork(loadAgentLoopIterations(taskOpts.fork.parentRunId, stepRepo, eventRepo), {
+              iteration: taskOpts.fork.iteration,
+              ...(taskOpts.fork.edit && { edit: taskOpts.fork.edit }),
+              lang,
+              task,
+              ...(taskImageUrls && { imageUrls: taskImageUrls }),
+              history: historyMessages,
+              toolCallMode,
+            });
+          } catch (e) {
+            return { error: (e as Error).message };
+          }
+        }
+
+        console.log(`[OMEGA AgentLoop] Starting run ${runId}, lang=${lang}, tools=[${availableTools.join(",")}], sessionId=${sessionId ?? "none"}`);
+        const runStartedAt = new Date().toISOString();
+
+        // ── 写入 DB：Run 开始记录 ─────────────────────────────────────────
+        try {
+          runRepo.create({
+            runId,
+            graphId: AGENT_LOOP_GRAPH_ID,   // AgentLoop 特殊 graphId 标识
+            graphVersion: "1",
+            state: "running",
+            ...(taskOpts.fork && forkPlan && {
+              parentRunId: taskOpts.fork.parentRunId,
+              forkFromStepId: forkPlan.fromStepId,
+            }),
+            totalTokens: 0,
+            totalCostUsd: 0,
+            // 完整任务（已合并附件）、图片、注入的历史和工具调用协议：fork / replay 需要
+            input: {
+              task,
+              lang,
+              toolCallMode,
+              ...(taskImageUrls && { imageUrls: taskImageUrls }),
+              ...(historyMessages.length > 0 && { history: historyMessages }),
+            },
+            startedAt: runStartedAt,
+            createdAt: runStartedAt,
+          });
+          console.log(`[OMEGA AgentLoop DB] Run created: ${runId}`);
+          // fork：复制父 Run 前 N - 1 轮（编辑观察结果时第 N 轮由 seededSteps 重新记录）
+          if (taskOpts.fork && forkPlan) {
+            const inherited = inheritAgentLoopSteps(taskOpts.fork.parentRunId, runId, forkPlan.inheritedIterations, stepRepo, eventRepo);
+            console.log(`[OMEGA AgentLoop DB] Fork of ${taskOpts.fork.parentRunId}: inherited ${inherited} steps`);
+          }
+        } catch (dbErr) {
+          console.warn(`[OMEGA AgentLoop DB] Failed to create run record:`, dbErr);
+        }
+
+        // 通知 UI：Run 开始（携带真实 runId，renderer 用于 token 过滤同步）
+        win.webContents.send("omega:run-started", { runId });
+        win.webContents.send("omega:step-event", {
+          type: "SYSTEM",
+          message: `Run started: ${runId}`,
+        });
+
         // ── 读取用户 Rules（localStorage 通过 IPC 传入，此处从 earlyDb 读取）──
         let userRules: string | undefined;
         let projectRules: string | undefined;
@@ -1264,6 +1784,15 @@ async function initRuntime(win: BrowserWindow) {
           userRules = rulesRow?.value || undefined;
         } catch { /* ignore if table doesn't exist yet */ }
 
+        // ── 读取工具审批设置（需审批的工具 + 当前工作目录）──
+        let requireApproval = DEFAULT_APPROVAL_TOOLS;
+        let approvalDir: string | null = null;
+        try {
+          const approvalDb = await ensureEarlyDb();
+          requireApproval = getApprovalRequiredTools(approvalDb);
+          approvalDir = getApprovalWorkingDir(approvalDb);
+        } catch { /* ignore, fall back to defaults */ }
+
         // ── 读取项目 Rules（.omega/rules.md，位于 MCP 允许目录下）──
         try {
           const allowedDir = mcpManager.allowedDirs[0];
@@ -1304,35 +1833,60 @@ async function initRuntime(win: BrowserWindow) {
           maxIterations: 20,
           maxTokens: 12288,   // 12K token 上限（输入+输出）
           temperature: 0.5,
+          toolCallMode,
+          requireApproval,
+          contextStrategy: "summarize" as const,
+          // delegate_task：子 Agent 最多 8 轮迭代、60K token，不允许再向下委派
+          delegation: { maxIterations: 8, maxTotalTokens: 60000, maxDepth: 1 },
+          ...(taskOpts.verification && {
+            verification: {
+              ...(taskOpts.verification.model && { model: taskOpts.verification.model }),
+              guardrails: {
+                schemaValidation: true,
+                llmOutputValidation: true,
+                confidenceThreshold: taskOpts.verification.confidenceThreshold ?? 0.7,
+              },
+              maxRejections: taskOpts.verification.maxRejections ?? 2,
+            },
+          }),
         };
 
         // 每次迭代步骤回调 → 转换为 step-event 推送到 UI，同时写入 DB
+        // 迭代持久化：完整响应和工具观察写入 steps / events，供 omega replay / fork 和重启后查看
+        const recorder = new AgentLoopRecorder(runId, stepRepo, eventRepo, {
+          provider: globalProviderRef.type,
+          model: globalProviderRef.model,
+          temperature: loopConfig.temperature,
+        });
+
+        // 子 Agent 步骤带 parentPath：UI 上归入发起委派的顶层步骤节点（消息前加 "↳"）
         const onStep = (rId: string, step: import("@omega/shared").AgentStep) => {
-          const nodeId = `agent_step_${step.index}`;
+          const nodeId = `agent_step_${step.parentPath?.[0] ?? step.index}`;
+          const prefix = step.parentPath?.length ? "↳ " : "";
 
           // 通知步骤开始/更新（包含 thinking 内容）
           if (step.status === "thinking") {
             win.webContents.send("omega:step-event", {
               type: "AGENT_ACT",
-              message: `→ [思考] 迭代 ${step.index}${step.thought ? ": " + step.thought.slice(0, 60) : ""}`,
+              message: `${prefix}→ [思考] 迭代 ${step.index}${step.thought ? ": " + step.thought.slice(0, 60) : ""}`,
               nodeId,
             });
           } else if (step.status === "acting") {
             win.webContents.send("omega:step-event", {
               type: "AGENT_ACT",
-              message: `→ [工具] ${step.toolName}`,
+              message: `${prefix}→ [工具] ${step.toolName}`,
               nodeId,
             });
           } else if (step.status === "observing") {
             win.webContents.send("omega:step-event", {
               type: "MCP_CALL",
-              message: `✓ [观察] ${step.toolName}: ${(step.observation ?? "").slice(0, 80)}`,
+              message: `${prefix}✓ [观察] ${step.toolName}: ${(step.observation ?? "").slice(0, 80)}`,
               nodeId,
             });
           } else if (step.status === "done") {
             win.webContents.send("omega:step-event", {
               type: "AGENT_ACT",
-              message: `✓ 步骤 ${step.index} 完成`,
+              message: `${prefix}✓ 步骤 ${step.index} 完成`,
               nodeId,
             });
           }
@@ -1340,34 +1894,20 @@ async function initRuntime(win: BrowserWindow) {
           // 同时把步骤详情通过 omega:agent-step 推送（UI 用于节点卡片渲染）
           win.webContents.send("omega:agent-step", { runId: rId, step });
 
-          // ── 写入 DB：Step 记录（仅 done 状态写一次，避免重复写）────────
-          if (step.status === "done" || step.status === "error") {
-            const now = new Date().toISOString();
-            try {
-              stepRepo.create({
-                stepId: `${rId}_step_${step.index}`,
-                runId: rId,
-                nodeId,
-                nodeType: step.toolName ? "tool" : "llm",
-                nodeLabel: step.toolName ?? `Step ${step.index}`,
-                state: step.status === "error" ? "failed" : "completed",
-                inherited: false,
-                retryCount: 0,
-                startedAt: now,
-                completedAt: now,
-                sequence: step.index,
-              });
-            } catch (dbErr) {
-              // DB 写入失败不影响主流程
-              console.warn(`[OMEGA AgentLoop DB] Failed to create step record:`, dbErr);
-            }
-          }
+          // ── 写入 DB：每轮迭代的 Step + 响应 / 观察事件（DB 异常不影响主流程）──
+          recorder.record(step);
         };
 
         // ── 创建 AbortController，注册到 cancelMap ────────────────────
         const controller = new AbortController();
         agentCancelMap.set(runId, controller);
         const agentLLMInvoker = makeAgentLLMInvoker(runId, controller.signal);
+        const agentLLMStreamInvoker = makeAgentLLMStreamInvoker(runId, controller.signal);
+
+        // 流式增量：思考 / 最终答案的部分文本、提前识别的工具调用 → UI 实时展示
+        const onPartial = (rId: string, partial: AgentPartial) => {
+          win.webContents.send("omega:agent-partial", { runId: rId, partial });
+        };
 
         // ── ask_followup_question 回调：AI 提问用户（Human-in-the-loop）──
         // 当 AI 调用 ask_followup_question 时：
@@ -1397,23 +1937,86 @@ async function initRuntime(win: BrowserWindow) {
           });
         };
 
+        // ── 工具审批回调：执行 requireApproval 中的工具前询问用户（Human-in-the-loop）──
+        // 1. 当前工作目录已"始终允许"该工具时直接放行
+        // 2. 否则通过 IPC 推送工具名与参数到 UI（ToolApprovalModal）
+        // 3. 等待 UI 通过 omega:answer-tool-approval 发回批准 / 修改 / 拒绝
+        // 4. 用户勾选"此项目始终允许"时写入该工作目录的规则
+        const onToolApproval = async (rId: string, toolName: string, toolInput: unknown): Promise<ToolApprovalDecision> => {
+          try {
+            const db = await ensureEarlyDb();
+            if (approvalDir && getAlwaysAllowedTools(db, approvalDir).includes(toolName)) {
+              return { action: "approve" };
+            }
+          } catch { /* ignore, ask the user instead */ }
+
+          return new Promise((resolve) => {
+            const requestId = nanoid();
+            win.webContents.send("omega:tool-approval-request", { runId: rId, requestId, toolName, toolInput, workingDir: approvalDir });
+
+            const answerChannel = "omega:answer-tool-approval";
+            const handler = (
+              _evt: Electron.IpcMainEvent,
+              payload: { requestId: string; action: "approve" | "edit" | "reject"; toolInput?: unknown; reason?: string; alwaysAllow?: boolean },
+            ) => {
+              if (payload.requestId !== requestId) return;
+              ipcMain.removeListener(answerChannel, handler);
+
+              if (payload.alwaysAllow && payload.action !== "reject" && approvalDir) {
+                const dir = approvalDir;
+                ensureEarlyDb().then(db => {
+                  writeToolListSetting(db, `toolApproval.alwaysAllow:${dir}`, [...getAlwaysAllowedTools(db, dir), toolName]);
+                }).catch(e => console.warn("[OMEGA AgentLoop] Failed to save always-allow rule:", e));
+              }
+
+              if (payload.action === "reject") {
+                resolve({ action: "reject", ...(payload.reason ? { reason: payload.reason } : {}) });
+              } else if (payload.action === "edit") {
+                resolve({ action: "edit", toolInput: payload.toolInput });
+              } else {
+                resolve({ action: "approve" });
+              }
+            };
+            ipcMain.on(answerChannel, handler);
+
+            // 如果 AgentLoop 被 abort，按拒绝处理并取消等待
+            controller.signal.addEventListener("abort", () => {
+              ipcMain.removeListener(answerChannel, handler);
+              resolve({ action: "reject", reason: "任务已取消" });
+            }, { once: true });
+          });
+        };
+
         const executor = new AgentLoopExecutor({
           runId,
           config: loopConfig,
           invokeLLM: agentLLMInvoker,
+          invokeLLMStream: agentLLMStreamInvoker,  // 主循环流式调用
+          ...(loopConfig.verification && {
+            invokeVerifier: makeAgentVerifierInvoker(runId, controller.signal, loopConfig.verification.model),
+          }),
           invokeTool: agentToolInvoker,
           onStep,
+          onPartial,      // 注入流式增量回调
           onAskFollowup,  // 注入用户提问回调
+          onToolApproval, // 注入工具审批回调
           lang,
           toolSchemas: allToolSchemas,
           userRules,
           projectRules,
           signal: controller.signal,  // 注入取消信号
+          model: globalProviderRef.model,  // 上下文 token 计数按当前模型选择 Tokenizer
         });
 
         try {
           // 传入历史消息（实现跨轮次记忆，Cline 风格）
-          const result = await executor.execute(task, taskImageUrls, historyMessages);
+          // fork：先推送重建的第 N 轮步骤，再从重建的对话继续执行
+          if (forkPlan) {
+            for (const step of forkPlan.seededSteps) onStep(runId, step);
+          }
+          const result = forkPlan
+            ? await executor.resume(forkPlan.messages, forkPlan.startIteration, forkPlan.firstResponse, task)
+            : await executor.execute(task, taskImageUrls, historyMessages);
 
           // ── 跨轮次记忆：只保存"干净摘要对"，而非整个工具循环中间消息 ──────
           // 问题根因：finalMessages 里含有大量工具调用中间消息（工具结果/nudge/思考链），
@@ -1453,6 +2056,7 @@ async function initRuntime(win: BrowserWindow) {
 
           const wasCancelled = controller.signal.aborted;
           const finalState = wasCancelled ? "CANCELLED" : "COMPLETED";
+          recorder.finish(wasCancelled);
           const completedAt = new Date().toISOString();
           const durationMs = new Date(completedAt).getTime() - new Date(runStartedAt).getTime();
 
@@ -1493,6 +2097,7 @@ async function initRuntime(win: BrowserWindow) {
 
           const msg = (e as Error).message;
           const wasCancelled = msg === "Run cancelled" || controller.signal.aborted;
+          recorder.finish(true);
           const completedAt = new Date().toISOString();
           const durationMs = new Date(completedAt).getTime() - new Date(runStartedAt).getTime();
 
@@ -1661,12 +2266,45 @@ async function initRuntime(win: BrowserWindow) {
       }
     );
 
+    // ── IPC: pause-run ─────────────────────────
+    ipcMain.removeHandler("omega:pause-run");
+    ipcMain.handle("omega:pause-run", async (_event, runId: string) => {
+      try {
+        await runtime.pauseRun(runId);
+        return { ok: true };
+      } catch (e) {
+        return { ok: false, error: (e as Error).message };
+      }
+    });
+
+    // ── IPC: resume-run ────────────────────────
+    // 本进程内暂停的 Run 直接恢复；应用重启后的 PAUSED Run 需要传入 graphJson 才能继续
+    ipcMain.removeHandler("omega:resume-run");
+    ipcMain.handle("omega:resume-run", async (_event, runId: string, graphJson?: string) => {
+      try {
+        let graph;
+        if (graphJson) {
+          try {
+            graph = GraphDefinitionSchema.parse(JSON.parse(graphJson));
+          } catch (e) {
+            return { ok: false, error: `Invalid graph: ${(e as Error).message}` };
+          }
+        }
+        await runtime.resumeRun(runId, graph);
+        console.log(`[OMEGA Main] resume-run: runId=${runId}`);
+        return { ok: true };
+      } catch (e) {
+        console.error("[OMEGA Main] resume-run error:", e);
+        return { ok: false, error: (e as Error).message };
+      }
+    });
+
     // ── IPC: list-runs（runtime 就绪后覆盖早期注册的空实现）──────
     // 移除早期 registerProviderHandlers 注册的空实现，替换为真实数据版本
     ipcMain.removeHandler("omega:list-runs");
     ipcMain.handle("omega:list-runs", async () => {
       const runs = runRepo.findAll(20);
-      return runs;
+      return withGraphShape(omegaDb.instance, runs);
     });
 
     // 注：list-providers / save-provider / delete-provider / reload-provider
@@ -1729,6 +2367,9 @@ async function initRuntime(win: BrowserWindow) {
     });
 
     console.log("[OMEGA Main] Runtime initialized. Ollama:", ollamaHealthy ? "✅" : "❌", "| MCP:", mcpManager.connected ? "✅" : "❌");
+
+    // ── 崩溃恢复：上次退出时仍在执行的 Run ──────────
+    offerOrphanedRunRecovery(win, runtime).catch(console.error);
   } catch (err) {
     console.error("[OMEGA Main] Runtime init failed:", err);
     win.webContents.send("omega:step-event", {
@@ -1738,6 +2379,45 @@ async function initRuntime(win: BrowserWindow) {
   }
 }
 
+/**
+ * 检测上次应用退出时仍为 RUNNING 的 Run，询问用户是否从最后完成的节点继续执行
+ * Resume → runtime.resumeRun（使用 Run 保存的图定义）；Discard → 标记为 FAILED；Later → 保持不变，下次启动再询问
+ */
+async function offerOrphanedRunRecovery(win: BrowserWindow, runtime: GraphRuntime): Promise<void> {
+  const orphans = runtime.findOrphanedRuns();
+  if (orphans.length === 0) return;
+
+  console.log(`[OMEGA Main] Found ${orphans.length} interrupted run(s):`, orphans.map(r => r.runId).join(", "));
+
+  const { response } = await dialog.showMessageBox(win, {
+    type: "question",
+    title: "Interrupted runs",
+    message: `${orphans.length} run(s) were interrupted when Omega last exited.`,
+    detail: orphans.map(r => `• ${r.runId} (graph ${r.graphId}, started ${r.startedAt})`).join("\n")
+      + "\n\nResume them from the last completed step?",
+    buttons: ["Resume", "Discard", "Later"],
+    defaultId: 0,
+    cancelId: 2,
+  });
+  if (response === 2) return;
+
+  for (const run of orphans) {
+    try {
+      if (response === 0) {
+        await runtime.resumeRun(run.runId);
+      } else {
+        runtime.abandonRun(run.runId);
+      }
+    } catch (e) {
+      console.error(`[OMEGA Main] Failed to recover run ${run.runId}:`, e);
+      win.webContents.send("omega:step-event", {
+        type: "SYSTEM",
+        message: `⚠️ Could not resume run ${run.runId}: ${(e as Error).message}`,
+      });
+    }
+  }
+}
+
 // ── 注册窗口控制 IPC（标题栏最小化/最大化/关闭） ───────────────
 function registerTitleBarHandlers(win: BrowserWindow) {
   ipcMain.handle("omega:win-minimize", () => { win.minimize(); });
@@ -20,6 +20,11 @@ type StepEventPayload = {
   details?: string;
 };
 
+type AgentPartialPayload =
+  | { kind: "thinking"; delta: string; text: string; index: number; parentPath?: number[] }
+  | { kind: "answer"; delta: string; text: string; index: number; parentPath?: number[] }
+  | { kind: "tool"; toolName: string; toolInput: unknown; index: number; parentPath?: number[] };
+
 type OllamaStatusPayload = {
   healthy: boolean;
   url: string;
@@ -41,7 +46,7 @@ type TokenUpdatePayload = {
 type ProviderConfigPayload = {
   id: string;
   name: string;
-  type: "openai-compatible" | "ollama" | "lm-studio" | "custom";
+  type: "openai-compatible" | "ollama" | "lm-studio" | "custom" | "anthropic" | "gemini";
   baseUrl: string;
   apiKey?: string;
   model?: string;
@@ -112,6 +117,19 @@ contextBridge.exposeInMainWorld("omega", {
   forkRun: (parentRunId: string, fromStepId: string, graphJson: string, inputOverrideJson?: string) =>
     ipcRenderer.invoke("omega:fork-run", parentRunId, fromStepId, graphJson, inputOverrideJson),
 
+  /**
+   * 暂停正在运行的 Run（当前节点执行完后停止调度）
+   */
+  pauseRun: (runId: string) =>
+    ipcRenderer.invoke("omega:pause-run", runId),
+
+  /**
+   * 恢复 PAUSED 状态的 Run
+   * @param graphJson  应用重启后恢复时需要传入 Graph 定义；本次会话内暂停的 Run 可省略
+   */
+  resumeRun: (runId: string, graphJson?: string) =>
+    ipcRenderer.invoke("omega:resume-run", runId, graphJson),
+
   /**
    * 列出历史 Run 记录（最近 20 条）
    */
@@ -171,8 +189,8 @@ contextBridge.exposeInMainWorld("omega", {
   /**
    * 按指定 type/baseUrl 获取模型列表（用于表单中的模型下拉）
    */
-  listModels: (type: string, baseUrl: string): Promise<{ models: string[]; error?: string }> =>
-    ipcRenderer.invoke("omega:list-models", { type, baseUrl }),
+  listModels: (type: string, baseUrl: string, apiKey?: string): Promise<{ models: string[]; error?: string }> =>
+    ipcRenderer.invoke("omega:list-models", { type, baseUrl, apiKey }),
 
   // ── 事件订阅 ──────────────────────────────────
 
@@ -238,6 +256,17 @@ contextBridge.exposeInMainWorld("omega", {
     return () => ipcRenderer.off("omega:token-stream", handler);
   },
 
+  /**
+   * 监听 AgentLoop 流式增量（思考 / 最终答案的部分文本、提前识别的工具调用）
+   * text 为累计值，重试时直接覆盖即可
+   */
+  onAgentPartial: (callback: (payload: { runId: string; partial: AgentPartialPayload }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, payload: { runId: string; partial: AgentPartialPayload }) =>
+      callback(payload);
+    ipcRenderer.on("omega:agent-partial", handler);
+    return () => ipcRenderer.off("omega:agent-partial", handler);
+  },
+
   /**
    * 监听新 LLM 调用开始（每次迭代开始时发送，用于清空 streaming buffer 实现每轮独立显示）
    */
@@ -278,6 +307,67 @@ contextBridge.exposeInMainWorld("omega", {
     ipcRenderer.send("omega:answer-followup", { runId, answer });
   },
 
+  /**
+   * 监听工具审批请求（requireApproval 中的工具执行前触发）
+   * UI 收到后显示 ToolApprovalModal，展示工具参数
+   */
+  onToolApprovalRequest: (callback: (payload: { runId: string; requestId: string; toolName: string; toolInput: unknown; workingDir: string | null }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, payload: { runId: string; requestId: string; toolName: string; toolInput: unknown; workingDir: string | null }) =>
+      callback(payload);
+    ipcRenderer.on("omega:tool-approval-request", handler);
+    return () => ipcRenderer.off("omega:tool-approval-request", handler);
+  },
+
+  /**
+   * 提交用户的审批结果（批准 / 修改参数后执行 / 拒绝）
+   * @param answer.alwaysAllow 为 true 时，当前工作目录以后自动批准该工具
+   */
+  answerToolApproval: (answer: { requestId: string; action: "approve" | "edit" | "reject"; toolInput?: unknown; reason?: string; alwaysAllow?: boolean }): void => {
+    ipcRenderer.send("omega:answer-tool-approval", answer);
+  },
+
+  /**
+   * 获取工具审批设置（需审批的工具 + 当前工作目录的"始终允许"规则）
+   */
+  getToolApproval: (): Promise<{ requireApproval: string[]; alwaysAllow: string[]; workingDir: string | null; error?: string }> =>
+    ipcRenderer.invoke("omega:get-tool-approval"),
+
+  /**
+   * 保存工具审批设置（alwaysAllow 作用于当前工作目录）
+   */
+  saveToolApproval: (settings: { requireApproval?: string[]; alwaysAllow?: string[] }): Promise<{ ok?: boolean; error?: string }> =>
+    ipcRenderer.invoke("omega:save-tool-approval", settings),
+
+  /**
+   * 获取 Provider 故障转移链（按尝试顺序；model 省略时用该 Provider 配置的模型）
+   */
+  getProviderFallbackChain: (): Promise<{ chain: Array<{ providerId: string; model?: string }>; error?: string }> =>
+    ipcRenderer.invoke("omega:get-provider-fallback-chain"),
+
+  /**
+   * 保存 Provider 故障转移链（下一次 LLM 调用生效）
+   */
+  saveProviderFallbackChain: (chain: Array<{ providerId: string; model?: string }>): Promise<{ ok?: boolean; error?: string }> =>
+    ipcRenderer.invoke("omega:save-provider-fallback-chain", chain),
+
+  /**
+   * 获取模型价格表（内置价目 + 用户覆盖，isCustom 标记用户覆盖的条目）
+   */
+  listModelPricing: (): Promise<{ entries: Array<{ model: string; input: number; output: number; cachedInput?: number; cacheWrite?: number; image?: number; isCustom: boolean; updatedAt: string }>; error?: string }> =>
+    ipcRenderer.invoke("omega:list-model-pricing"),
+
+  /**
+   * 保存一个模型的价格（每 1000 token 的 USD；image 为每张图片的 USD），返回更新后的价格表
+   */
+  saveModelPricing: (entry: { model: string; input: number; output: number; cachedInput?: number; cacheWrite?: number; image?: number }): Promise<{ ok?: boolean; entries?: unknown[]; error?: string }> =>
+    ipcRenderer.invoke("omega:save-model-pricing", entry),
+
+  /**
+   * 删除模型价格（内置模型恢复为内置价格），返回更新后的价格表
+   */
+  deleteModelPricing: (model: string): Promise<{ ok?: boolean; entries?: unknown[]; error?: string }> =>
+    ipcRenderer.invoke("omega:delete-model-pricing", model),
+
   // ── Rules 管理 ────────────────────────────────
 
   /**
@@ -3,6 +3,7 @@ import { AnimatePresence, motion } from "framer-motion";
 import { Sidebar } from "./components/layout/Sidebar.js";
 import { NerveCenter } from "./components/nerve-center/NerveCenter.js";
 import { TraceLogDrawer } from "./components/nerve-center/TraceLogDrawer.js";
+import { ToolApprovalModal } from "./components/nerve-center/ToolApprovalModal.js";
 import { ArtifactsPage } from "./components/pages/ArtifactsPage.js";
 import { SettingsPage } from "./components/pages/SettingsPage.js";
 import { WorkdirPickerPage } from "./components/pages/WorkdirPickerPage.js";
@@ -27,6 +28,7 @@ import type {
   ExecutionEdge,
   ExecutionRound,
   NodeStepRecord,
+  AgentForkTarget,
   McpToolData,
   ProviderConfig,
 } from "./types/ui.js";
@@ -169,6 +171,8 @@ export function App() {
   const [isStreaming, setIsStreaming] = useState(false);
   // 当前活跃的 runId（用于过滤 token-stream，防止多 run 混流）
   const activeRunIdRef = useRef<string | null>(null);
+  // 本轮已开始流式输出最终答案：streaming 文本改由 answer 增量驱动，不再追加原始 token
+  const answerStreamingRef = useRef(false);
 
   // ── ask_followup_question 状态（AI 向用户提问）────────────────
   const [pendingFollowup, setPendingFollowup] = useState<{
@@ -177,6 +181,9 @@ export function App() {
     options?: string[];
   } | null>(null);
 
+  // ── 工具审批队列（并行工具调用可能同时请求多个审批，按到达顺序逐个展示）──
+  const [pendingApprovals, setPendingApprovals] = useState<OmegaToolApprovalRequest[]>([]);
+
   // ── 真实 MCP 工具数据（Electron 下从主进程拉取；浏览器 dev fallback mockMcpTools）─────
   const [mcpToolsData, setMcpToolsData] = useState<McpToolData[]>([]);
 
@@ -470,6 +477,55 @@ export function App() {
      */
     onAgentStep: useCallback((event: import("./hooks/useOmegaRuntime.js").AgentStepEvent) => {
       const { step } = event;
+
+      // 子 Agent（delegate_task）的步骤：追加到发起委派的步骤节点下，不新建节点卡片
+      if (step.parentPath?.length) {
+        const parentNodeId = `agent_step_${step.parentPath[0]}`;
+        const sid = activeSessionIdRef.current;
+        setSessions((prev) =>
+          prev.map((s) => {
+            if (s.id !== sid) return s;
+            const rounds = s.rounds ?? [];
+            const lastRound = rounds[rounds.length - 1];
+            const parentNode = lastRound?.subagents.find(n => n.id === parentNodeId);
+            if (!lastRound || !parentNode) return s;
+
+            const prevSteps: NodeStepRecord[] = parentNode.steps ?? [];
+            const childRecord: NodeStepRecord = {
+              id: `${parentNodeId}_sub_${step.index}_${step.status}_${Date.now()}`,
+              index: prevSteps.length + 1,
+              status: step.status === "done" ? "success"
+                : step.status === "error" ? "error"
+                : "running",
+              startedAt: new Date().toISOString(),
+              ...(step.thought && { prompt: `↳ ${step.thought}` }),
+              ...(step.observation && { input: step.observation }),
+              ...(step.finalAnswer && { output: step.finalAnswer }),
+              ...(step.tokens && { tokens: step.tokens }),
+              ...(step.toolName && { input: `↳ Tool: ${step.toolName}` }),
+            };
+            const updatedNode: SubagentNode = {
+              ...parentNode,
+              steps: [...prevSteps, childRecord],
+              // 父步骤等待子 Agent 期间，用子 Agent 的进度作为当前任务
+              ...(parentNode.state.status === "running" && {
+                state: {
+                  status: "running",
+                  currentTask: `↳ ${step.toolName ?? step.thought?.slice(0, 80) ?? t.nerveCenter.nodeStepThinkingIdle}`,
+                },
+              }),
+            };
+            const updatedSubagents = lastRound.subagents.map(n => n.id === parentNodeId ? updatedNode : n);
+            return {
+              ...s,
+              rounds: [...rounds.slice(0, -1), { ...lastRound, subagents: updatedSubagents }],
+              subagents: updatedSubagents,
+            };
+          })
+        );
+        return;
+      }
+
       // 每个 step.index 对应唯一一个节点卡片，随 thinking→acting→observing→done 流转
       const nodeId = `agent_step_${step.index}`;
 
@@ -560,6 +616,18 @@ export function App() {
             ...(step.finalAnswer && { output: step.finalAnswer }),
             ...(step.tokens && { tokens: step.tokens }),
             ...(step.toolName && { input: `Tool: ${step.toolName}` }),
+            // 完整响应 / 观察结果：RerunModal 据此编辑并从本轮 fork
+            ...(step.response !== undefined && {
+              agentFork: {
+                iteration: step.index,
+                response: step.response,
+                ...(step.observation !== undefined && {
+                  observation: step.observation,
+                  // 按调用位置编号（并行调用的完成顺序不固定），与 fork 重建时的观察结果顺序一致
+                  observationIndex: step.toolCallIndex ?? prevSteps.filter(r => r.agentFork?.observation !== undefined).length,
+                }),
+              },
+            }),
           };
           const updatedSteps = [...prevSteps, newStepRecord];
 
@@ -603,12 +671,57 @@ export function App() {
     const unsub = window.omega.onTokenStream(({ token, runId }) => {
       // 只接受当前活跃 run 的 token（过滤残留或并发 token）
       if (runId && activeRunIdRef.current && runId !== activeRunIdRef.current) return;
+      if (answerStreamingRef.current) return;
       setIsStreaming(true);
       setStreamingText(prev => prev + token);
     });
     return unsub;
   }, [isElectron]);
 
+  // ── AgentLoop 流式增量（主进程增量解析 XML 标签后推送）──────────
+  // 思考 / 提前识别的工具调用 → 当前迭代节点的 currentTask；
+  // 最终答案 → 替换 streaming 文本（只显示 <result> 内容，不含 XML 标签）
+  useEffect(() => {
+    if (!isElectron || !window.omega?.onAgentPartial) return;
+
+    const unsub = window.omega.onAgentPartial(({ runId, partial }) => {
+      if (runId && activeRunIdRef.current && runId !== activeRunIdRef.current) return;
+      if (partial.parentPath?.length) return; // 子 Agent 的增量由父步骤节点的步骤记录体现
+
+      if (partial.kind === "answer") {
+        answerStreamingRef.current = true;
+        setIsStreaming(true);
+        setStreamingText(partial.text);
+        return;
+      }
+
+      const nodeId = `agent_step_${partial.index}`;
+      const currentTask = partial.kind === "thinking"
+        ? partial.text.replace(/\n/g, " ").slice(-80)
+        : `${t.nerveCenter.nodeStepRunningTool}${partial.toolName}`;
+      const sid = activeSessionIdRef.current;
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sid) return s;
+          const rounds = s.rounds ?? [];
+          const lastRound = rounds[rounds.length - 1];
+          const node = lastRound?.subagents.find((n) => n.id === nodeId);
+          if (!lastRound || !node || node.state.status !== "running") return s;
+
+          const updatedSubagents = lastRound.subagents.map((n) =>
+            n.id === nodeId ? { ...n, state: { status: "running" as const, currentTask } } : n
+          );
+          return {
+            ...s,
+            rounds: [...rounds.slice(0, -1), { ...lastRound, subagents: updatedSubagents }],
+            subagents: updatedSubagents,
+          };
+        })
+      );
+    });
+    return unsub;
+  }, [isElectron, t]);
+
   // ── Run 开始时同步真实 runId（解决 token 过滤 ID 不匹配问题）──────
   // main process 在 agent loop 开始时立即发送 omega:run-started 携带后端真实 runId
   // 前端用这个真实 runId 替换 tempRunId，使后续的 token-stream 过滤正确匹配
@@ -618,6 +731,11 @@ export function App() {
     const unsub = window.omega.onRunStarted(({ runId }) => {
       // 将后端真实 runId 同步到 ref，确保 token 过滤不会因为 ID 不同而丢弃所有 token
       activeRunIdRef.current = runId;
+      // 同步到当前会话：停止按钮和 AgentLoop fork 需要真实 runId
+      const sid = activeSessionIdRef.current;
+      setSessions((prev) =>
+        prev.map((s) => s.id === sid ? { ...s, orchestrator: { ...s.orchestrator, runId } } : s)
+      );
     });
     return unsub;
   }, [isElectron]);
@@ -631,6 +749,7 @@ export function App() {
     const unsub = window.omega.onStreamClear(({ runId }) => {
       // 只处理当前活跃 run 的信号（此时 activeRunIdRef 已是真实 runId）
       if (runId && activeRunIdRef.current && runId !== activeRunIdRef.current) return;
+      answerStreamingRef.current = false;
       setStreamingText("");   // 清空旧迭代文本，准备接收新迭代 token
       setIsStreaming(false);  // 短暂重置，等第一个 token 到来时再置 true
     });
@@ -644,6 +763,7 @@ export function App() {
       setStreamingText(""); // 清空 streaming buffer（最终内容已在 session.aiOutput）
       activeRunIdRef.current = null;
       setPendingFollowup(null); // 清空悬挂的提问（run 结束后提问无意义）
+      setPendingApprovals([]);  // 主进程已在 abort 时按拒绝处理，清空待审批队列
     }
   }, [currentSession.state]);
 
@@ -656,6 +776,29 @@ export function App() {
     return unsub;
   }, [isElectron]);
 
+  // ── 监听工具审批请求（requireApproval 中的工具执行前）─────────
+  useEffect(() => {
+    if (!isElectron || !window.omega?.onToolApprovalRequest) return;
+    const unsub = window.omega.onToolApprovalRequest((payload) => {
+      setPendingApprovals(prev => [...prev, payload]);
+    });
+    return unsub;
+  }, [isElectron]);
+
+  const handleToolApproval = useCallback((answer: OmegaToolApprovalAnswer) => {
+    window.omega?.answerToolApproval?.(answer);
+    const current = pendingApprovals.find(r => r.requestId === answer.requestId);
+    // "始终允许"后，队列中同一工具的其余请求一并批准
+    const alsoApproved = answer.alwaysAllow && answer.action !== "reject" && current
+      ? pendingApprovals.filter(r => r.requestId !== answer.requestId && r.toolName === current.toolName)
+      : [];
+    for (const r of alsoApproved) {
+      window.omega?.answerToolApproval?.({ requestId: r.requestId, action: "approve" });
+    }
+    const resolved = new Set([answer.requestId, ...alsoApproved.map(r => r.requestId)]);
+    setPendingApprovals(prev => prev.filter(r => !resolved.has(r.requestId)));
+  }, [pendingApprovals]);
+
   // 启动时通过 IPC 拉取历史 Run 记录
   useEffect(() => {
     if (!isElectron || !window.omega) return;
@@ -664,6 +807,7 @@ export function App() {
       const mapped: RunHistoryItem[] = rows.map((r: unknown) => {
         const row = r as Record<string, unknown>;
         const durationMsRaw = row["duration_ms"] ?? row["durationMs"];
+        const graphShape = row["graphShape"] as RunHistoryItem["graphShape"] | undefined;
         return {
           runId: String(row["id"] ?? row["runId"] ?? ""),
           graphName: String(row["graph_name"] ?? row["graphName"] ?? ""),
@@ -672,6 +816,7 @@ export function App() {
           totalCostUsd: Number(row["total_cost_usd"] ?? row["totalCostUsd"] ?? 0),
           ...(durationMsRaw != null && { durationMs: Number(durationMsRaw) }),
           startedAt: String(row["started_at"] ?? row["startedAt"] ?? new Date().toISOString()),
+          ...(graphShape !== undefined && { graphShape }),
         };
       });
       setRunHistory(mapped);
@@ -1132,6 +1277,89 @@ export function App() {
     );
   }, [activeSessionId]);
 
+  /**
+   * AgentLoop 步骤 fork：以当前 Run 为父 Run，从第 N 轮分叉出新的运行
+   *
+   * 1. 移除最新一轮中第 N 轮及之后的迭代节点（编辑观察结果时第 N 轮由主进程重新推送）
+   * 2. 调用 runAgentLoop({ fork })，之后的迭代照常通过 onAgentStep 推送
+   * 模型响应未改动时不带编辑，第 N 轮重新调用 LLM 生成
+   */
+  const handleAgentFork = useCallback(async (nodeId: string, stepId: string, editedText: string, fork: AgentForkTarget) => {
+    const sid = activeSessionId;
+    const session = sessions.find((s) => s.id === sid);
+    const parentRunId = session?.orchestrator.runId;
+    if (!isElectron || !window.omega?.runAgentLoop || !session || !parentRunId) return;
+
+    const original = session.subagents.find((n) => n.id === nodeId)?.steps?.find((r) => r.id === stepId)?.agentFork;
+    const edit = fork.target === "observation"
+      ? { observation: { index: fork.observationIndex ?? 0, text: editedText } }
+      : editedText !== original?.response ? { response: editedText } : undefined;
+    const timestamp = new Date().toLocaleTimeString("en-GB", { hour12: false });
+
+    setStreamingText("");
+    setIsStreaming(false);
+    setSessions((prev) =>
+      prev.map((s) => {
+        if (s.id !== sid) return s;
+        const rounds = s.rounds ?? [];
+        const lastRound = rounds[rounds.length - 1];
+        if (!lastRound) return s;
+
+        const keptSubagents = lastRound.subagents.filter((n) => {
+          const index = /^agent_step_(\d+)$/.exec(n.id)?.[1];
+          return index === undefined || Number(index) < fork.iteration;
+        });
+        const { aiOutput: _previousOutput, ...round } = lastRound;
+        return {
+          ...s,
+          state: "running" as const,
+          orchestrator: { ...s.orchestrator, state: "running" as const, activeAgents: 1 },
+          rounds: [...rounds.slice(0, -1), { ...round, subagents: keptSubagents, state: "running" as const }],
+          subagents: keptSubagents,
+          traceLogs: [
+            ...s.traceLogs,
+            {
+              id: `fork-${Date.now()}`,
+              type: "AGENT_ACT" as const,
+              timestamp,
+              message: `↻ Forking run ${parentRunId} from iteration ${fork.iteration}${edit ? ` (edited ${fork.target})` : ""}`,
+              nodeId,
+            },
+          ],
+        };
+      })
+    );
+
+    const result = await window.omega.runAgentLoop(JSON.stringify({
+      task: "",
+      lang: navigator.language.startsWith("zh") ? "zh" : "en",
+      sessionId: sid,
+      fork: { parentRunId, iteration: fork.iteration, ...(edit && { edit }) },
+    }));
+
+    if (result?.error) {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sid) return s;
+          return {
+            ...s,
+            state: "failed" as const,
+            orchestrator: { ...s.orchestrator, state: "failed" as const, activeAgents: 0 },
+            traceLogs: [
+              ...s.traceLogs,
+              {
+                id: `err-${Date.now()}`,
+                type: "SYSTEM" as const,
+                timestamp: new Date().toLocaleTimeString("en-GB", { hour12: false }),
+                message: `❌ Fork failed: ${result.error}`,
+              },
+            ],
+          };
+        })
+      );
+    }
+  }, [activeSessionId, sessions, isElectron]);
+
   /**
    * 重新生成某节点的某步骤
    *
@@ -1139,8 +1367,13 @@ export function App() {
    * 2. 清除该节点的下游边（重置为 pending）
    * 3. 新增一条 NodeStepRecord（isRerun=true，记录编辑后的 prompt）
    * 4. Electron：真实重跑（TODO 扩展 IPC）；浏览器：mock 模拟延迟完成
+   * AgentLoop 步骤（带 agentFork）改为从该迭代 fork，见 handleAgentFork
    */
-  const handleNodeRerun = useCallback((nodeId: string, stepId: string, editedPrompt: string) => {
+  const handleNodeRerun = useCallback((nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) => {
+    if (agentFork && isElectron) {
+      void handleAgentFork(nodeId, stepId, editedPrompt, agentFork);
+      return;
+    }
     const timestamp = new Date().toLocaleTimeString("en-GB", { hour12: false });
     const newStepId = `step-rerun-${Date.now()}`;
 
@@ -1312,7 +1545,7 @@ export function App() {
         return prev; // 不修改，由上面的异步 setSessions 处理
       });
     }
-  }, [activeSessionId, isElectron]);
+  }, [activeSessionId, isElectron, handleAgentFork]);
 
   /** 停止当前 Run */
   const handleStop = useCallback(async () => {
@@ -1491,6 +1724,13 @@ export function App() {
         )}
       </AnimatePresence>
       </div> {/* flex flex-1 min-h-0 wrapper */}
+
+      {/* 工具审批对话框（全局浮层，不随路由切换） */}
+      <ToolApprovalModal
+        request={pendingApprovals[0] ?? null}
+        queueSize={pendingApprovals.length}
+        onDecide={handleToolApproval}
+      />
     </div>
   );
 }
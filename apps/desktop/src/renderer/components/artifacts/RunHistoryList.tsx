@@ -47,9 +47,16 @@ function formatDuration(ms?: number): string {
   return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`;
 }
 
+/** 图结构摘要：节点类型链 + 节点/边数量（节点过多时截断） */
+function formatGraphShape(shape: NonNullable<RunHistoryItem["graphShape"]>): string {
+  const types = shape.nodeTypes.slice(0, 5).join(" → ");
+  const more = shape.nodeTypes.length > 5 ? " → …" : "";
+  return `${types}${more}`;
+}
+
 /**
  * RunHistoryList — 左侧 Run 历史竖向列表
- * 每条显示 Run 状态色点、Graph 名称、Token 数、相对时间
+ * 每条显示 Run 状态色点、Graph 名称、图结构摘要、Token 数、相对时间
  * 选中行带左侧蓝色指示线
  */
 export function RunHistoryList({ runs, selectedRunId, onSelect }: RunHistoryListProps) {
@@ -112,6 +119,17 @@ export function RunHistoryList({ runs, selectedRunId, onSelect }: RunHistoryList
                 {run.runId}
               </p>
 
+              {/* 图结构摘要（来自执行时的图定义快照） */}
+              {run.graphShape && (
+                <p
+                  className="text-2xs font-mono mb-1.5 truncate"
+                  style={{ color: "rgba(255,255,255,0.30)" }}
+                  title={`${run.graphShape.nodeCount} nodes · ${run.graphShape.edgeCount} edges`}
+                >
+                  {formatGraphShape(run.graphShape)}
+                </p>
+              )}
+
               {/* 底行: 统计信息 */}
               <div className="flex items-center gap-3">
                 <span className="text-2xs" style={{ color: "rgba(255,255,255,0.28)" }}>
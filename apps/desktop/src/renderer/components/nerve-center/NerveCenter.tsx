@@ -15,6 +15,7 @@ import type {
   ExecutionEdge,
   ExecutionRound,
   ProviderConfig,
+  AgentForkTarget,
 } from "../../types/ui.js";
 
 interface NerveCenterProps {
@@ -38,8 +39,8 @@ interface NerveCenterProps {
   onStop?: () => void;
   /** 节点步骤撤回回调（从 App.tsx 传入） */
   onNodeRevert?: (nodeId: string, stepId: string) => void;
-  /** 节点重新生成回调（从 App.tsx 传入） */
-  onNodeRerun?: (nodeId: string, stepId: string, editedPrompt: string) => void;
+  /** 节点重新生成回调（从 App.tsx 传入；AgentLoop 步骤带 fork 编辑目标） */
+  onNodeRerun?: (nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) => void;
   /** 可用的 Provider 列表（用于模型选择下拉） */
   providers?: ProviderConfig[];
   /** 当前选中的模型 */
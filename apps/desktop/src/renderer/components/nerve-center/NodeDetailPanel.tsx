@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { NodeStepRecord, SubagentNode } from "../../types/ui.js";
+import type { AgentForkTarget, NodeStepRecord, SubagentNode } from "../../types/ui.js";
 import { RerunModal } from "./RerunModal.js";
 import { useLanguage } from "../../i18n/LanguageContext.js";
 
@@ -8,8 +8,8 @@ interface NodeDetailPanelProps {
   node: SubagentNode;
   /** 撤回某步骤回调（将该步及后续标记为 reverted） */
   onRevert: (nodeId: string, stepId: string) => void;
-  /** 重新生成回调（打开 RerunModal 后确认触发） */
-  onRerun: (nodeId: string, stepId: string, editedPrompt: string) => void;
+  /** 重新生成回调（打开 RerunModal 后确认触发；AgentLoop 步骤带 fork 编辑目标） */
+  onRerun: (nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) => void;
 }
 
 /** 状态对应颜色配置 */
@@ -57,8 +57,8 @@ export function NodeDetailPanel({ node, onRevert, onRerun }: NodeDetailPanelProp
     setRerunModalOpen(true);
   }
 
-  function handleRerunConfirm(nodeId: string, stepId: string, editedPrompt: string) {
-    onRerun(nodeId, stepId, editedPrompt);
+  function handleRerunConfirm(nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) {
+    onRerun(nodeId, stepId, editedPrompt, agentFork);
   }
 
   return (
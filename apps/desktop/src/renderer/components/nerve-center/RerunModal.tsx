@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { NodeStepRecord } from "../../types/ui.js";
+import type { AgentForkTarget, NodeStepRecord } from "../../types/ui.js";
 import { useLanguage } from "../../i18n/LanguageContext.js";
 
 interface RerunModalProps {
@@ -12,8 +12,8 @@ interface RerunModalProps {
   nodeLabel: string;
   /** 要重跑的步骤记录（提供初始 prompt） */
   step: NodeStepRecord | null;
-  /** 确认重跑回调：传出编辑后的 prompt */
-  onConfirm: (nodeId: string, stepId: string, editedPrompt: string) => void;
+  /** 确认重跑回调：传出编辑后的 prompt（AgentLoop 步骤额外传出 fork 的编辑目标） */
+  onConfirm: (nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) => void;
   /** 关闭回调 */
   onClose: () => void;
 }
@@ -25,18 +25,22 @@ interface RerunModalProps {
  * - 显示本次步骤的原始 Prompt（可完整编辑 / 重写）
  * - 同时展示上一次的 input / output 作为参考
  * - 确认后触发重跑，不影响其他节点
+ * - AgentLoop 步骤（step.agentFork）：可切换编辑本轮模型响应或工具观察结果，确认后从该迭代 fork
  *
  * 设计：毛玻璃背景遮罩 + 居中卡片，"Quiet Intelligence" 风格
  */
 export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }: RerunModalProps) {
   const { t } = useLanguage();
   const [editedPrompt, setEditedPrompt] = useState("");
+  const [target, setTarget] = useState<AgentForkTarget["target"]>("response");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // 每次打开时重置 prompt 为上一步的值
+  // 每次打开时重置 prompt 为上一步的值（AgentLoop 观察阶段默认编辑观察结果）
   useEffect(() => {
     if (open && step) {
-      setEditedPrompt(step.prompt ?? step.input ?? "");
+      const initialTarget = step.agentFork?.observation !== undefined ? "observation" : "response";
+      setTarget(initialTarget);
+      setEditedPrompt(originalText(step, initialTarget));
       // 稍后聚焦，等动画完成
       setTimeout(() => textareaRef.current?.focus(), 200);
     }
@@ -51,10 +55,25 @@ export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }
 
   function handleConfirm() {
     if (!step) return;
-    onConfirm(nodeId, step.id, editedPrompt);
+    if (step.agentFork) {
+      const { iteration, observationIndex } = step.agentFork;
+      onConfirm(nodeId, step.id, editedPrompt, {
+        iteration,
+        target,
+        ...(target === "observation" && observationIndex !== undefined && { observationIndex }),
+      });
+    } else {
+      onConfirm(nodeId, step.id, editedPrompt);
+    }
     onClose();
   }
 
+  function handleTargetChange(next: AgentForkTarget["target"]) {
+    if (!step) return;
+    setTarget(next);
+    setEditedPrompt(originalText(step, next));
+  }
+
   return (
     <AnimatePresence>
       {open && (
@@ -159,9 +178,31 @@ export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }
               {/* Prompt 编辑区 */}
               <div className="px-5 py-4">
                 <div className="flex items-center justify-between mb-2">
-                  <label className="text-2xs uppercase tracking-wider font-mono" style={{ color: "rgba(255,255,255,0.35)" }}>
-                    {t.rerunModal.promptLabel}
-                  </label>
+                  {step?.agentFork ? (
+                    // AgentLoop：切换编辑模型响应 / 工具观察结果
+                    <div className="flex items-center gap-1">
+                      {(["response", "observation"] as const)
+                        .filter((key) => key === "response" || step.agentFork?.observation !== undefined)
+                        .map((key) => (
+                          <button
+                            key={key}
+                            className="text-2xs px-2 py-0.5 rounded font-mono"
+                            style={{
+                              color: target === key ? "#60a5fa" : "rgba(255,255,255,0.35)",
+                              border: `1px solid ${target === key ? "rgba(96,165,250,0.35)" : "rgba(255,255,255,0.10)"}`,
+                              background: target === key ? "rgba(96,165,250,0.10)" : "transparent",
+                            }}
+                            onClick={() => handleTargetChange(key)}
+                          >
+                            {key === "response" ? t.rerunModal.agentTargetResponse : t.rerunModal.agentTargetObservation}
+                          </button>
+                        ))}
+                    </div>
+                  ) : (
+                    <label className="text-2xs uppercase tracking-wider font-mono" style={{ color: "rgba(255,255,255,0.35)" }}>
+                      {t.rerunModal.promptLabel}
+                    </label>
+                  )}
                   {/* 重置按钮 */}
                   <button
                     className="text-2xs px-2 py-0.5 rounded"
@@ -170,7 +211,7 @@ export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }
                       border: "1px solid rgba(255,255,255,0.10)",
                       background: "transparent",
                     }}
-                    onClick={() => setEditedPrompt(step?.prompt ?? step?.input ?? "")}
+                    onClick={() => step && setEditedPrompt(originalText(step, target))}
                   >
                     {t.rerunModal.reset}
                   </button>
@@ -210,7 +251,7 @@ export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }
                 className="flex items-center justify-between px-5 pb-4 pt-1 gap-3"
               >
                 <p className="text-2xs flex-1" style={{ color: "rgba(255,255,255,0.22)" }}>
-                  {t.rerunModal.rerunHint}
+                  {step?.agentFork ? t.rerunModal.agentForkHint : t.rerunModal.rerunHint}
                 </p>
                 <div className="flex items-center gap-2 flex-shrink-0">
                   <button
@@ -249,3 +290,11 @@ export function RerunModal({ open, nodeId, nodeLabel, step, onConfirm, onClose }
     </AnimatePresence>
   );
 }
+
+/** 编辑框的初始内容：AgentLoop 步骤取模型响应 / 观察结果，其他节点取 prompt */
+function originalText(step: NodeStepRecord, target: AgentForkTarget["target"]): string {
+  if (step.agentFork) {
+    return target === "observation" ? step.agentFork.observation ?? "" : step.agentFork.response;
+  }
+  return step.prompt ?? step.input ?? "";
+}
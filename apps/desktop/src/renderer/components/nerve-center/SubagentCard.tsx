@@ -1,6 +1,6 @@
 ﻿import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { SubagentNode, SubagentCardState } from "../../types/ui.js";
+import type { AgentForkTarget, SubagentNode, SubagentCardState } from "../../types/ui.js";
 import { NodeDetailPanel } from "./NodeDetailPanel.js";
 
 interface SubagentCardProps {
@@ -8,7 +8,7 @@ interface SubagentCardProps {
   /** 撤回某步骤回调 */
   onRevert?: (nodeId: string, stepId: string) => void;
   /** 重新生成回调 */
-  onRerun?: (nodeId: string, stepId: string, editedPrompt: string) => void;
+  onRerun?: (nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) => void;
 }
 
 /** 节点类型图标 */
@@ -98,8 +98,8 @@ export function SubagentCard({ node, onRevert, onRerun }: SubagentCardProps) {
     onRevert?.(nodeId, stepId);
   }
 
-  function handleRerun(nodeId: string, stepId: string, editedPrompt: string) {
-    onRerun?.(nodeId, stepId, editedPrompt);
+  function handleRerun(nodeId: string, stepId: string, editedPrompt: string, agentFork?: AgentForkTarget) {
+    onRerun?.(nodeId, stepId, editedPrompt, agentFork);
   }
 
   const accentColor = TYPE_ACCENT[node.type] ?? "rgba(255,255,255,0.20)";
@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useLanguage } from "../../i18n/LanguageContext.js";
+
+interface ToolApprovalModalProps {
+  /** 当前待审批的请求（null 时不显示） */
+  request: OmegaToolApprovalRequest | null;
+  /** 排队中的审批请求数（含当前） */
+  queueSize: number;
+  /** 审批结果回调 */
+  onDecide: (answer: OmegaToolApprovalAnswer) => void;
+}
+
+/** 把工具参数格式化为可编辑的 JSON 文本 */
+function formatArgs(toolInput: unknown): string {
+  try {
+    return JSON.stringify(toolInput ?? {}, null, 2);
+  } catch {
+    return String(toolInput);
+  }
+}
+
+/**
+ * ToolApprovalModal — 工具调用审批对话框
+ *
+ * 功能：
+ * - 展示 Agent 请求执行的工具名与参数（JSON 可编辑）
+ * - 批准 / 修改参数后执行 / 拒绝（可填写原因，作为观察结果反馈给模型）
+ * - "此项目始终允许"：写入当前工作目录的自动批准规则
+ *
+ * 设计：与 RerunModal 一致的遮罩 + 居中卡片；不支持点击遮罩关闭，必须明确做出决定
+ */
+export function ToolApprovalModal({ request, queueSize, onDecide }: ToolApprovalModalProps) {
+  const { t } = useLanguage();
+  const [argsText, setArgsText] = useState("");
+  const [reason, setReason] = useState("");
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+
+  // 每个新请求重置编辑状态
+  useEffect(() => {
+    if (request) {
+      setArgsText(formatArgs(request.toolInput));
+      setReason("");
+      setAlwaysAllow(false);
+    }
+  }, [request]);
+
+  const original = request ? formatArgs(request.toolInput) : "";
+  const edited = argsText !== original;
+  let parsedArgs: unknown = undefined;
+  let argsValid = true;
+  if (edited) {
+    try {
+      parsedArgs = JSON.parse(argsText);
+    } catch {
+      argsValid = false;
+    }
+  }
+
+  function handleApprove() {
+    if (!request || !argsValid) return;
+    onDecide(edited
+      ? { requestId: request.requestId, action: "edit", toolInput: parsedArgs, alwaysAllow }
+      : { requestId: request.requestId, action: "approve", alwaysAllow });
+  }
+
+  function handleReject() {
+    if (!request) return;
+    onDecide({
+      requestId: request.requestId,
+      action: "reject",
+      ...(reason.trim() ? { reason: reason.trim() } : {}),
+    });
+  }
+
+  return (
+    <AnimatePresence>
+      {request && (
+        <>
+          {/* 遮罩层 */}
+          <motion.div
+            className="fixed inset-0 z-50"
+            style={{ background: "rgba(0,0,0,0.60)", backdropFilter: "blur(4px)" }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.18 }}
+          />
+
+          <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
+          <motion.div
+            key={request.requestId}
+            className="w-[560px] max-w-[90vw] pointer-events-auto"
+            initial={{ opacity: 0, scale: 0.94, y: 12 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.94, y: 12 }}
+            transition={{ duration: 0.22, ease: [0.23, 1, 0.32, 1] }}
+          >
+            <div
+              className="rounded-lg overflow-hidden"
+              style={{
+                background: "rgba(10, 12, 18, 0.97)",
+                border: "1px solid rgba(255,255,255,0.10)",
+                boxShadow: "0 24px 64px rgba(0,0,0,0.60), 0 0 0 1px rgba(251,191,36,0.08)",
+              }}
+            >
+              {/* 顶部标题栏 */}
+              <div
+                className="flex items-center gap-3 px-5 py-4 border-b"
+                style={{ borderColor: "rgba(255,255,255,0.07)" }}
+              >
+                <div
+                  className="w-7 h-7 rounded flex items-center justify-center flex-shrink-0"
+                  style={{ background: "rgba(251,191,36,0.12)", border: "1px solid rgba(251,191,36,0.25)" }}
+                >
+                  <span className="text-xs font-mono" style={{ color: "#fbbf24" }}>!</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-semibold truncate" style={{ color: "rgba(255,255,255,0.85)" }}>
+                    {t.toolApproval.title} — <span className="font-mono">{request.toolName}</span>
+                  </p>
+                  <p className="text-2xs mt-0.5" style={{ color: "rgba(255,255,255,0.30)" }}>
+                    {t.toolApproval.subtitle}
+                  </p>
+                </div>
+                {queueSize > 1 && (
+                  <span className="text-2xs font-mono flex-shrink-0" style={{ color: "rgba(251,191,36,0.70)" }}>
+                    {queueSize} {t.toolApproval.pending}
+                  </span>
+                )}
+              </div>
+
+              {/* 参数编辑区 */}
+              <div className="px-5 py-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-2xs uppercase tracking-wider font-mono" style={{ color: "rgba(255,255,255,0.35)" }}>
+                    {t.toolApproval.argsLabel}
+                  </label>
+                  {edited && (
+                    <button
+                      className="text-2xs px-2 py-0.5 rounded"
+                      style={{
+                        color: "rgba(255,255,255,0.30)",
+                        border: "1px solid rgba(255,255,255,0.10)",
+                        background: "transparent",
+                      }}
+                      onClick={() => setArgsText(original)}
+                    >
+                      {t.toolApproval.reset}
+                    </button>
+                  )}
+                </div>
+
+                <textarea
+                  value={argsText}
+                  onChange={(e) => setArgsText(e.target.value)}
+                  rows={9}
+                  spellCheck={false}
+                  className="w-full rounded resize-none outline-none text-xs leading-relaxed font-mono"
+                  style={{
+                    background: "rgba(255,255,255,0.04)",
+                    border: `1px solid ${argsValid ? "rgba(255,255,255,0.10)" : "rgba(248,113,113,0.45)"}`,
+                    color: "rgba(255,255,255,0.80)",
+                    padding: "10px 12px",
+                    caretColor: "#fbbf24",
+                  }}
+                />
+                {!argsValid && (
+                  <p className="text-2xs mt-1" style={{ color: "#f87171" }}>{t.toolApproval.invalidJson}</p>
+                )}
+
+                <input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t.toolApproval.reasonPlaceholder}
+                  className="w-full rounded outline-none text-xs mt-3"
+                  style={{
+                    background: "rgba(255,255,255,0.04)",
+                    border: "1px solid rgba(255,255,255,0.10)",
+                    color: "rgba(255,255,255,0.75)",
+                    padding: "7px 12px",
+                  }}
+                />
+              </div>
+
+              {/* 底部操作栏 */}
+              <div className="flex items-center justify-between px-5 pb-4 pt-1 gap-3">
+                <label
+                  className="flex items-center gap-2 text-2xs flex-1 cursor-pointer select-none"
+                  style={{ color: "rgba(255,255,255,0.45)" }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={alwaysAllow}
+                    disabled={!request.workingDir}
+                    onChange={(e) => setAlwaysAllow(e.target.checked)}
+                  />
+                  {t.toolApproval.alwaysAllow}
+                </label>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={handleReject}
+                    className="px-3 py-1.5 rounded text-xs"
+                    style={{
+                      background: "rgba(248,113,113,0.10)",
+                      border: "1px solid rgba(248,113,113,0.30)",
+                      color: "#f87171",
+                    }}
+                  >
+                    {t.toolApproval.reject}
+                  </button>
+                  <motion.button
+                    onClick={handleApprove}
+                    disabled={!argsValid}
+                    className="px-4 py-1.5 rounded text-xs font-medium"
+                    style={{
+                      background: "rgba(52,211,153,0.16)",
+                      border: "1px solid rgba(52,211,153,0.35)",
+                      color: "#34d399",
+                      opacity: argsValid ? 1 : 0.4,
+                    }}
+                    whileHover={{ background: "rgba(52,211,153,0.24)" }}
+                    whileTap={{ scale: 0.97 }}
+                    transition={{ duration: 0.12 }}
+                  >
+                    {edited ? t.toolApproval.approveEdited : t.toolApproval.approve}
+                  </motion.button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
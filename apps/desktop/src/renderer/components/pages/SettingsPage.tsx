@@ -5,8 +5,8 @@ import { mockPlugins } from "../../data/mockData.js";
 import { useLanguage } from "../../i18n/LanguageContext.js";
 import type { Locale } from "../../i18n/translations.js";
 
-// 扩展 SettingsSection 以支持 mcp、rules、workdir 分组（局部覆盖，不修改 ui.ts 枚举）
-type ExtendedSettingsSection = SettingsSection | "mcp" | "rules" | "workdir";
+// 扩展 SettingsSection 以支持 mcp、rules、workdir、approvals 分组（局部覆盖，不修改 ui.ts 枚举）
+type ExtendedSettingsSection = SettingsSection | "mcp" | "rules" | "workdir" | "approvals";
 
 /**
  * SettingsPage — 配置中心页面
@@ -204,6 +204,9 @@ export function SettingsPage({
                 onProjectContextChange={onProjectContextChange}
               />
             )}
+            {activeSection === "approvals" && (
+              <ToolApprovalPanel mcpToolNames={mcpTools.map(t => t.name)} />
+            )}
             {activeSection === "appearance" && (
               <AppearancePanel />
             )}
@@ -248,6 +251,7 @@ function SettingsNav({
     { id: "mcp",        label: t.settings.mcp,        desc: t.settings.mcpDesc },
     { id: "rules",      label: t.settings.rules,      desc: t.settings.rulesDesc },
     { id: "workdir",    label: t.settings.workdir,     desc: t.settings.workdirDesc },
+    { id: "approvals",  label: t.settings.approvals,  desc: t.settings.approvalsDesc },
     { id: "appearance", label: t.settings.appearance, desc: t.settings.appearanceDesc },
   ];
 
@@ -343,6 +347,346 @@ function ProvidersPanel({
         <span style={{ fontSize: "16px", lineHeight: 1 }}>+</span>
         <span>{t.settings.addProvider}</span>
       </motion.button>
+
+      <FallbackChainSection providers={providers} />
+
+      <ModelPricingSection />
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────
+// 故障转移链：默认 Provider 返回 429 / 5xx 或超时时依次改用
+// ─────────────────────────────────────────────
+
+function FallbackChainSection({ providers }: { providers: ProviderConfig[] }) {
+  const { t } = useLanguage();
+  const [chain, setChain] = useState<OmegaFallbackChainEntry[]>([]);
+  const [saveError, setSaveError] = useState(false);
+
+  useEffect(() => {
+    window.omega?.getProviderFallbackChain?.()
+      .then(data => setChain(data.chain))
+      .catch(console.error);
+  }, []);
+
+  // 默认 Provider 不参与链；已删除的 Provider 在下次保存时移除
+  const candidates = providers.filter(p => !p.isDefault);
+  const active = chain.filter(e => candidates.some(p => p.id === e.providerId));
+  const inactive = candidates.filter(p => !active.some(e => e.providerId === p.id));
+
+  function save(next: OmegaFallbackChainEntry[]) {
+    setChain(next);
+    window.omega?.saveProviderFallbackChain?.(next)
+      .then(res => setSaveError(!!res.error))
+      .catch(() => setSaveError(true));
+  }
+
+  function moveUp(index: number) {
+    if (index === 0) return;
+    const next = [...active];
+    [next[index - 1], next[index]] = [next[index]!, next[index - 1]!];
+    save(next);
+  }
+
+  function setModel(providerId: string, model: string) {
+    setChain(active.map(e => {
+      if (e.providerId !== providerId) return e;
+      return model ? { providerId, model } : { providerId };
+    }));
+  }
+
+  return (
+    <div className="mt-8">
+      <p className="text-sm font-medium" style={{ color: "rgba(255,255,255,0.72)" }}>
+        {t.settings.fallbackTitle}
+      </p>
+      <p className="text-2xs mt-1 mb-3 leading-relaxed" style={{ color: "rgba(255,255,255,0.30)" }}>
+        {t.settings.fallbackDesc}
+      </p>
+
+      {candidates.length === 0 ? (
+        <p className="text-xs" style={{ color: "rgba(255,255,255,0.30)" }}>
+          {t.settings.fallbackEmpty}
+        </p>
+      ) : (
+        <div className="flex flex-col">
+          {active.map((entry, index) => {
+            const provider = candidates.find(p => p.id === entry.providerId)!;
+            return (
+              <div
+                key={entry.providerId}
+                className="flex items-center gap-3 py-2 border-b border-white/[0.04]"
+              >
+                <span className="text-2xs font-mono w-4" style={{ color: "rgba(96,165,250,0.70)" }}>{index + 1}</span>
+                <span className="text-xs flex-1 min-w-0 truncate" style={{ color: "rgba(255,255,255,0.65)" }}>
+                  {provider.name}
+                </span>
+                <input
+                  value={entry.model ?? ""}
+                  onChange={e => setModel(entry.providerId, e.target.value)}
+                  onBlur={() => save(chain)}
+                  placeholder={provider.model || t.settings.fallbackModelPlaceholder}
+                  className="w-40 px-2 py-1 rounded text-2xs font-mono outline-none"
+                  style={{
+                    background: "rgba(255,255,255,0.03)",
+                    border: "1px solid rgba(255,255,255,0.08)",
+                    color: "rgba(255,255,255,0.65)",
+                  }}
+                />
+                <button
+                  onClick={() => moveUp(index)}
+                  disabled={index === 0}
+                  className="text-2xs px-1.5 py-0.5 rounded"
+                  style={{ color: index === 0 ? "rgba(255,255,255,0.15)" : "rgba(255,255,255,0.45)" }}
+                  title={t.settings.fallbackMoveUp}
+                >
+                  ↑
+                </button>
+                <Toggle enabled onToggle={() => save(active.filter(e => e.providerId !== entry.providerId))} />
+              </div>
+            );
+          })}
+          {inactive.map(provider => (
+            <div
+              key={provider.id}
+              className="flex items-center gap-3 py-2 border-b border-white/[0.04] last:border-0"
+            >
+              <span className="w-4" />
+              <span className="text-xs flex-1 min-w-0 truncate" style={{ color: "rgba(255,255,255,0.35)" }}>
+                {provider.name}
+              </span>
+              <Toggle enabled={false} onToggle={() => save([...active, { providerId: provider.id }])} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {saveError && (
+        <p className="text-xs mt-2" style={{ color: "#f87171" }}>{t.settings.fallbackSaveError}</p>
+      )}
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────
+// 模型价格：Run 花费按此计算（内置价目 + 用户覆盖）
+// ─────────────────────────────────────────────
+
+const PRICING_FIELDS = ["input", "output", "cachedInput", "cacheWrite", "image"] as const;
+type PricingField = typeof PRICING_FIELDS[number];
+type PricingDraft = Record<"model" | PricingField, string>;
+
+const EMPTY_PRICING_DRAFT: PricingDraft = { model: "", input: "", output: "", cachedInput: "", cacheWrite: "", image: "" };
+
+/** 模型列 + 五个价格列 + 操作列 */
+const PRICING_COLUMNS = "minmax(0, 1fr) repeat(5, 76px) 44px";
+
+function toPricingDraft(entry: OmegaModelPricing): PricingDraft {
+  return {
+    model: entry.model,
+    input: String(entry.input),
+    output: String(entry.output),
+    cachedInput: entry.cachedInput?.toString() ?? "",
+    cacheWrite: entry.cacheWrite?.toString() ?? "",
+    image: entry.image?.toString() ?? "",
+  };
+}
+
+/** 草稿转为价格条目（可选价格留空则省略）；模型名为空或价格不是非负数时返回 null */
+function fromPricingDraft(draft: PricingDraft): Omit<OmegaModelPricing, "isCustom" | "updatedAt"> | null {
+  const model = draft.model.trim();
+  const values: Partial<Record<PricingField, number>> = {};
+  for (const field of PRICING_FIELDS) {
+    const raw = draft[field].trim();
+    if (!raw) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) return null;
+    values[field] = value;
+  }
+  if (!model || values.input === undefined || values.output === undefined) return null;
+  return { ...values, model, input: values.input, output: values.output };
+}
+
+function ModelPricingSection() {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<OmegaModelPricing[]>([]);
+  // 正在编辑的模型名，"" 表示新增，null 表示未在编辑
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PricingDraft>(EMPTY_PRICING_DRAFT);
+  const [error, setError] = useState<"" | "invalid" | "save">("");
+
+  useEffect(() => {
+    window.omega?.listModelPricing?.()
+      .then(data => setEntries(data.entries))
+      .catch(console.error);
+  }, []);
+
+  const labels: Record<PricingField, string> = {
+    input: t.settings.pricingInput,
+    output: t.settings.pricingOutput,
+    cachedInput: t.settings.pricingCachedInput,
+    cacheWrite: t.settings.pricingCacheWrite,
+    image: t.settings.pricingImage,
+  };
+
+  function startEdit(entry?: OmegaModelPricing) {
+    setEditing(entry?.model ?? "");
+    setDraft(entry ? toPricingDraft(entry) : EMPTY_PRICING_DRAFT);
+    setError("");
+  }
+
+  function handleSave() {
+    const entry = fromPricingDraft(draft);
+    if (!entry) {
+      setError("invalid");
+      return;
+    }
+    window.omega?.saveModelPricing?.(entry)
+      .then(res => {
+        if (res.error || !res.entries) {
+          setError("save");
+          return;
+        }
+        setEntries(res.entries);
+        setEditing(null);
+      })
+      .catch(() => setError("save"));
+  }
+
+  function handleRemove(model: string) {
+    window.omega?.deleteModelPricing?.(model)
+      .then(res => {
+        if (res.entries) setEntries(res.entries);
+        setError(res.error ? "save" : "");
+      })
+      .catch(() => setError("save"));
+  }
+
+  const inputStyle = {
+    background: "rgba(255,255,255,0.03)",
+    border: "1px solid rgba(255,255,255,0.08)",
+    color: "rgba(255,255,255,0.65)",
+  };
+
+  // 编辑行：已有条目只改价格（改名相当于新增另一个模型）
+  const editRow = (
+    <div className="py-2 border-b border-white/[0.04]">
+      <div className="grid items-center gap-2" style={{ gridTemplateColumns: PRICING_COLUMNS }}>
+        <input
+          value={draft.model}
+          onChange={e => setDraft({ ...draft, model: e.target.value })}
+          disabled={editing !== ""}
+          placeholder={t.settings.pricingModel}
+          className="min-w-0 px-2 py-1 rounded text-2xs font-mono outline-none"
+          style={inputStyle}
+        />
+        {PRICING_FIELDS.map(field => (
+          <input
+            key={field}
+            value={draft[field]}
+            onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+            placeholder={labels[field]}
+            inputMode="decimal"
+            className="min-w-0 px-2 py-1 rounded text-2xs font-mono outline-none"
+            style={inputStyle}
+          />
+        ))}
+        <span />
+      </div>
+      <div className="flex justify-end gap-2 mt-2">
+        <button
+          onClick={() => setEditing(null)}
+          className="text-2xs px-2 py-1 rounded"
+          style={{ color: "rgba(255,255,255,0.45)" }}
+        >
+          {t.settings.cancel}
+        </button>
+        <button
+          onClick={handleSave}
+          className="text-2xs px-2 py-1 rounded"
+          style={{ background: "rgba(96,165,250,0.12)", color: "rgba(96,165,250,0.85)" }}
+        >
+          {editing === "" ? t.settings.add : t.settings.save}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-8">
+      <p className="text-sm font-medium" style={{ color: "rgba(255,255,255,0.72)" }}>
+        {t.settings.pricingTitle}
+      </p>
+      <p className="text-2xs mt-1 mb-3 leading-relaxed" style={{ color: "rgba(255,255,255,0.30)" }}>
+        {t.settings.pricingDesc}
+      </p>
+
+      <div
+        className="grid gap-2 pb-1 border-b border-white/[0.06] text-2xs"
+        style={{ gridTemplateColumns: PRICING_COLUMNS, color: "rgba(255,255,255,0.30)" }}
+      >
+        <span>{t.settings.pricingModel}</span>
+        {PRICING_FIELDS.map(field => <span key={field} className="text-right">{labels[field]}</span>)}
+        <span />
+      </div>
+
+      <div className="flex flex-col max-h-80 overflow-y-auto">
+        {entries.map(entry => editing === entry.model ? (
+          <div key={entry.model}>{editRow}</div>
+        ) : (
+          <div
+            key={entry.model}
+            className="grid items-center gap-2 py-1.5 border-b border-white/[0.04]"
+            style={{ gridTemplateColumns: PRICING_COLUMNS }}
+          >
+            <button
+              onClick={() => startEdit(entry)}
+              className="flex items-center gap-2 min-w-0 text-left"
+              title={t.settings.pricingEdit}
+            >
+              <span className="text-xs font-mono truncate" style={{ color: "rgba(255,255,255,0.65)" }}>{entry.model}</span>
+              {entry.isCustom && (
+                <span className="text-2xs px-1 rounded" style={{ background: "rgba(96,165,250,0.10)", color: "rgba(96,165,250,0.70)" }}>
+                  {t.settings.pricingCustom}
+                </span>
+              )}
+            </button>
+            {PRICING_FIELDS.map(field => (
+              <span key={field} className="text-2xs font-mono text-right" style={{ color: "rgba(255,255,255,0.45)" }}>
+                {entry[field] ?? "—"}
+              </span>
+            ))}
+            {entry.isCustom ? (
+              <button
+                onClick={() => handleRemove(entry.model)}
+                className="text-2xs px-1.5 py-0.5 rounded"
+                style={{ color: "rgba(255,255,255,0.35)" }}
+                title={t.settings.pricingRemove}
+              >
+                ✕
+              </button>
+            ) : <span />}
+          </div>
+        ))}
+        {editing === "" && editRow}
+      </div>
+
+      {editing !== "" && (
+        <button
+          onClick={() => startEdit()}
+          className="mt-3 text-2xs"
+          style={{ color: "rgba(96,165,250,0.60)" }}
+        >
+          + {t.settings.pricingAddModel}
+        </button>
+      )}
+
+      {error && (
+        <p className="text-xs mt-2" style={{ color: "#f87171" }}>
+          {error === "invalid" ? t.settings.pricingInvalid : t.settings.pricingSaveError}
+        </p>
+      )}
     </div>
   );
 }
@@ -363,6 +707,8 @@ function ProviderRow({
     "ollama": "Ollama",
     "lm-studio": "LM Studio",
     "custom": "Custom",
+    "anthropic": "Anthropic",
+    "gemini": "Gemini",
   };
 
   return (
@@ -497,6 +843,8 @@ function ProviderFormDrawer({
     "ollama": "http://localhost:11434",
     "lm-studio": "http://localhost:1234/v1",
     "custom": "https://your-api.com/v1",
+    "anthropic": "https://api.anthropic.com",
+    "gemini": "https://generativelanguage.googleapis.com",
   };
 
   const MODEL_PLACEHOLDER: Record<ProviderConfig["type"], string> = {
@@ -504,6 +852,8 @@ function ProviderFormDrawer({
     "ollama": "llama3.2",
     "lm-studio": "lmstudio-community/llama-3.2-1b-instruct",
     "custom": "model-name",
+    "anthropic": "claude-sonnet-4-5",
+    "gemini": "gemini-2.5-flash",
   };
 
   const handleSave = () => {
@@ -574,7 +924,7 @@ function ProviderFormDrawer({
               {t.settings.providerType}
             </label>
             <div className="grid grid-cols-2 gap-2">
-              {(["openai-compatible", "ollama", "lm-studio", "custom"] as const).map(ptype => (
+              {(["openai-compatible", "anthropic", "gemini", "ollama", "lm-studio", "custom"] as const).map(ptype => (
                 <button
                   key={ptype}
                   onClick={() => setType(ptype)}
@@ -585,7 +935,7 @@ function ProviderFormDrawer({
                     color: type === ptype ? "rgba(96,165,250,0.90)" : "rgba(255,255,255,0.45)",
                   }}
                 >
-                  {{ "openai-compatible": "OpenAI API", "ollama": "Ollama", "lm-studio": "LM Studio", "custom": "Custom" }[ptype]}
+                  {{ "openai-compatible": "OpenAI API", "anthropic": "Anthropic", "gemini": "Gemini", "ollama": "Ollama", "lm-studio": "LM Studio", "custom": "Custom" }[ptype]}
                 </button>
               ))}
             </div>
@@ -596,7 +946,7 @@ function ProviderFormDrawer({
             label={t.settings.providerName}
             value={name}
             onChange={setName}
-            placeholder={`${type === "ollama" ? "Ollama 本地" : type === "openai-compatible" ? "OpenAI" : "My Provider"}`}
+            placeholder={`${type === "ollama" ? "Ollama 本地" : type === "openai-compatible" ? "OpenAI" : type === "anthropic" ? "Anthropic" : type === "gemini" ? "Gemini" : "My Provider"}`}
           />
 
           {/* Base URL */}
@@ -620,7 +970,7 @@ function ProviderFormDrawer({
                   type={showKey ? "text" : "password"}
                   value={apiKey}
                   onChange={e => setApiKey(e.target.value)}
-                  placeholder="sk-..."
+                  placeholder={type === "gemini" ? "AIza..." : "sk-..."}
                   className="flex-1 bg-transparent px-3 py-2 text-xs outline-none font-mono"
                   style={{ color: "rgba(255,255,255,0.70)", background: "rgba(255,255,255,0.03)" }}
                 />
@@ -1286,6 +1636,125 @@ function RulesPanel({
   );
 }
 
+// ─────────────────────────────────────────────
+// ToolApprovalPanel — 工具审批设置面板
+// ─────────────────────────────────────────────
+
+/** 内置工具名（与主进程 BuiltinMcpTools 保持一致） */
+const BUILTIN_TOOL_NAMES = [
+  "fs_write", "code_exec", "fs_read", "http_fetch",
+  "web_search", "browser_open", "clipboard_read", "clipboard_write",
+];
+
+function ToolApprovalPanel({ mcpToolNames }: { mcpToolNames: string[] }) {
+  const { t } = useLanguage();
+  const [requireApproval, setRequireApproval] = useState<string[]>([]);
+  const [alwaysAllow, setAlwaysAllow] = useState<string[]>([]);
+  const [workingDir, setWorkingDir] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState(false);
+
+  useEffect(() => {
+    window.omega?.getToolApproval?.().then(data => {
+      setRequireApproval(data.requireApproval);
+      setAlwaysAllow(data.alwaysAllow);
+      setWorkingDir(data.workingDir);
+    }).catch(console.error);
+  }, []);
+
+  // 改动即保存（与 Toggle 交互一致，无单独保存按钮）
+  function save(settings: { requireApproval?: string[]; alwaysAllow?: string[] }) {
+    window.omega?.saveToolApproval?.(settings)
+      .then(res => setSaveError(!!res.error))
+      .catch(() => setSaveError(true));
+  }
+
+  function toggleTool(name: string) {
+    const next = requireApproval.includes(name)
+      ? requireApproval.filter(n => n !== name)
+      : [...requireApproval, name];
+    setRequireApproval(next);
+    save({ requireApproval: next });
+  }
+
+  function revoke(name: string) {
+    const next = alwaysAllow.filter(n => n !== name);
+    setAlwaysAllow(next);
+    save({ alwaysAllow: next });
+  }
+
+  const toolNames = [...new Set([...BUILTIN_TOOL_NAMES, ...mcpToolNames, ...requireApproval])];
+
+  return (
+    <div>
+      <SectionHeader
+        title={t.settings.approvalsTitle}
+        description={t.settings.approvalsDesc2}
+      />
+
+      <div className="flex flex-col gap-6 mt-6">
+        {/* 需要审批的工具 */}
+        <div>
+          <p className="text-sm font-medium mb-2" style={{ color: "rgba(255,255,255,0.72)" }}>
+            {t.settings.approvalsRequire}
+          </p>
+          <div className="flex flex-col">
+            {toolNames.map(name => (
+              <div
+                key={name}
+                className="flex items-center justify-between py-2 border-b border-white/[0.04] last:border-0"
+              >
+                <span className="text-xs font-mono" style={{ color: "rgba(255,255,255,0.60)" }}>{name}</span>
+                <Toggle enabled={requireApproval.includes(name)} onToggle={() => toggleTool(name)} />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* 当前项目的"始终允许"规则 */}
+        <div>
+          <p className="text-sm font-medium" style={{ color: "rgba(255,255,255,0.72)" }}>
+            {t.settings.approvalsAlwaysAllow}
+          </p>
+          <p className="text-2xs mt-1 mb-2 font-mono truncate" style={{ color: "rgba(255,255,255,0.18)" }}>
+            {workingDir ?? t.settings.workdirNotSet}
+          </p>
+          {alwaysAllow.length === 0 ? (
+            <p className="text-xs" style={{ color: "rgba(255,255,255,0.30)" }}>
+              {t.settings.approvalsAlwaysAllowEmpty}
+            </p>
+          ) : (
+            <div className="flex flex-col">
+              {alwaysAllow.map(name => (
+                <div
+                  key={name}
+                  className="flex items-center justify-between py-2 border-b border-white/[0.04] last:border-0"
+                >
+                  <span className="text-xs font-mono" style={{ color: "rgba(52,211,153,0.70)" }}>{name}</span>
+                  <button
+                    onClick={() => revoke(name)}
+                    className="text-2xs px-2 py-0.5 rounded"
+                    style={{
+                      color: "rgba(255,255,255,0.40)",
+                      border: "1px solid rgba(255,255,255,0.10)",
+                      background: "transparent",
+                    }}
+                  >
+                    {t.settings.approvalsRevoke}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {saveError && (
+          <p className="text-xs" style={{ color: "#f87171" }}>{t.settings.approvalsSaveError}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────
 // 公共子组件
 // ─────────────────────────────────────────────
@@ -11,8 +11,14 @@ export interface AgentStepEvent {
     toolInput?: unknown;
     observation?: string;
     finalAnswer?: string;
+    /** 本轮完整的模型响应（fork 时可编辑） */
+    response?: string;
+    /** 该工具调用在本轮响应中的位置（fork 编辑观察结果时按此编号） */
+    toolCallIndex?: number;
     status: "thinking" | "acting" | "observing" | "done" | "error";
     tokens: number;
+    /** 子 Agent 步骤：发起委派的父步骤序号路径 */
+    parentPath?: number[];
   };
 }
 
@@ -97,6 +97,35 @@ export const translations = {
       workdirChangeCanceled: "已取消",
       workdirChangeError: "✗ 更换失败",
       workdirHint: "首次启动 Omega 时会自动弹出目录选择对话框。更换后立即生效，Agent 下次运行时将以新目录为上下文根目录。",
+      approvals: "工具审批",
+      approvalsDesc: "执行前确认",
+      approvalsTitle: "工具审批",
+      approvalsDesc2: "开启审批的工具在执行前会暂停，显示调用参数，由你批准、修改或拒绝。拒绝结果会作为观察反馈给模型。",
+      approvalsRequire: "需要审批的工具",
+      approvalsAlwaysAllow: "当前项目始终允许",
+      approvalsAlwaysAllowEmpty: "当前项目没有自动批准的工具",
+      approvalsRevoke: "撤销",
+      approvalsSaveError: "✗ 保存失败",
+      fallbackTitle: "故障转移链",
+      fallbackDesc: "默认 Provider 返回 429 / 5xx 或超时时，按顺序改用下列 Provider 重试。模型留空则使用该 Provider 配置的模型。",
+      fallbackEmpty: "添加更多 Provider 后可组成故障转移链",
+      fallbackModelPlaceholder: "默认模型",
+      fallbackMoveUp: "上移",
+      fallbackSaveError: "✗ 保存失败",
+      pricingTitle: "模型价格",
+      pricingDesc: "用于计算 Run 花费。单价为每 1000 token 的 USD，缓存价格留空时按输入价格计，图片价格仅用于按张计费的服务。修改后的条目不再随内置价目更新。",
+      pricingModel: "模型",
+      pricingInput: "输入",
+      pricingOutput: "输出",
+      pricingCachedInput: "缓存读取",
+      pricingCacheWrite: "缓存写入",
+      pricingImage: "图片/张",
+      pricingCustom: "自定义",
+      pricingEdit: "编辑",
+      pricingRemove: "删除自定义价格（内置模型恢复默认价格）",
+      pricingAddModel: "添加模型价格",
+      pricingInvalid: "模型名不能为空，价格须为非负数",
+      pricingSaveError: "✗ 保存失败",
     },
     taskInput: {
       placeholder: "描述一个任务让 Omega 执行...",
@@ -195,6 +224,22 @@ export const translations = {
       cancel: "取消",
       rerun: "从此处重新运行",
       rerunHint: "此操作将从此节点重新运行，下游节点将被清除。",
+      agentTargetResponse: "模型响应",
+      agentTargetObservation: "工具观察结果",
+      agentForkHint: "将从此迭代 fork 出新的运行：之前的迭代保留，之后的迭代重新执行。",
+    },
+    toolApproval: {
+      title: "工具调用审批",
+      subtitle: "Agent 请求执行以下工具，请确认参数",
+      argsLabel: "调用参数（JSON，可编辑）",
+      reset: "重置",
+      invalidJson: "参数不是有效的 JSON",
+      reasonPlaceholder: "拒绝原因（可选，会反馈给模型）",
+      alwaysAllow: "此项目始终允许该工具",
+      reject: "拒绝",
+      approve: "批准执行",
+      approveEdited: "按修改后的参数执行",
+      pending: "个待审批",
     },
     nodeDetail: {
       stepHistory: "步骤历史",
@@ -314,6 +359,35 @@ export const translations = {
       workdirChangeCanceled: "Canceled",
       workdirChangeError: "✗ Change failed",
       workdirHint: "On first launch, Omega will prompt you to select a working directory. Changes take effect immediately for the next run.",
+      approvals: "Approvals",
+      approvalsDesc: "Confirm before running",
+      approvalsTitle: "Tool Approvals",
+      approvalsDesc2: "Tools that require approval pause before running and show their arguments so you can approve, edit or reject the call. Rejections are sent back to the model as an observation.",
+      approvalsRequire: "Tools requiring approval",
+      approvalsAlwaysAllow: "Always allowed in this project",
+      approvalsAlwaysAllowEmpty: "No tools are auto-approved for this project",
+      approvalsRevoke: "Revoke",
+      approvalsSaveError: "✗ Failed to save",
+      fallbackTitle: "Fallback Chain",
+      fallbackDesc: "When the default provider returns 429 / 5xx or times out, the request is retried on these providers in order. Leave the model empty to use the provider's configured model.",
+      fallbackEmpty: "Add more providers to build a fallback chain",
+      fallbackModelPlaceholder: "Default model",
+      fallbackMoveUp: "Move up",
+      fallbackSaveError: "✗ Failed to save",
+      pricingTitle: "Model Pricing",
+      pricingDesc: "Used to compute run cost. Prices are USD per 1K tokens; empty cache prices fall back to the input price, and the image price only applies to services that bill per image. Edited entries are no longer updated with the bundled prices.",
+      pricingModel: "Model",
+      pricingInput: "Input",
+      pricingOutput: "Output",
+      pricingCachedInput: "Cache read",
+      pricingCacheWrite: "Cache write",
+      pricingImage: "Per image",
+      pricingCustom: "Custom",
+      pricingEdit: "Edit",
+      pricingRemove: "Remove custom price (bundled models revert to the default price)",
+      pricingAddModel: "Add model price",
+      pricingInvalid: "Model name is required and prices must be non-negative numbers",
+      pricingSaveError: "✗ Failed to save",
     },
     taskInput: {
       placeholder: "Describe a task for Omega to run...",
@@ -412,6 +486,22 @@ export const translations = {
       cancel: "Cancel",
       rerun: "Rerun from here",
       rerunHint: "This will rerun from this node. Downstream nodes will be cleared.",
+      agentTargetResponse: "Model response",
+      agentTargetObservation: "Tool observation",
+      agentForkHint: "This forks a new run from this iteration: earlier iterations are kept, later ones run again.",
+    },
+    toolApproval: {
+      title: "Approve Tool Call",
+      subtitle: "The agent wants to run the tool below. Review its arguments",
+      argsLabel: "Arguments (JSON, editable)",
+      reset: "Reset",
+      invalidJson: "Arguments are not valid JSON",
+      reasonPlaceholder: "Reason for rejecting (optional, sent to the model)",
+      alwaysAllow: "Always allow this tool for this project",
+      reject: "Reject",
+      approve: "Approve",
+      approveEdited: "Run with edited arguments",
+      pending: "pending",
     },
     nodeDetail: {
       stepHistory: "Step History",
@@ -11,6 +11,12 @@
  *   - onProjectContext: 监听主进程扫描工作目录后的项目上下文推送
  *   - changeWorkingDir: 弹出文件夹选择器更换工作目录
  *   - getWorkingDir: 读取当前保存的工作目录
+ *
+ * 新增:
+ *   - onToolApprovalRequest / answerToolApproval: 工具执行前的用户审批
+ *   - getToolApproval / saveToolApproval: 需审批工具列表与按项目的"始终允许"规则
+ *   - getProviderFallbackChain / saveProviderFallbackChain: Provider 故障转移链
+ *   - listModelPricing / saveModelPricing / deleteModelPricing: 模型价格表（cost reporting）
  */
 
 interface OmegaStepEventPayload {
@@ -47,7 +53,7 @@ interface OmegaRunGraphResult {
 interface OmegaProviderConfig {
   id: string;
   name: string;
-  type: "openai-compatible" | "ollama" | "lm-studio" | "custom";
+  type: "openai-compatible" | "ollama" | "lm-studio" | "custom" | "anthropic" | "gemini";
   baseUrl: string;
   apiKey?: string;
   model?: string;
@@ -78,10 +84,22 @@ interface OmegaAgentStepPayload {
   toolInput?: unknown;
   observation?: string;
   finalAnswer?: string;
+  /** 本轮完整的模型响应 */
+  response?: string;
+  /** 该工具调用在本轮响应中的位置（并行调用按完成顺序推送） */
+  toolCallIndex?: number;
   status: "thinking" | "acting" | "observing" | "done" | "error";
   tokens: number;
+  /** 子 Agent（delegate_task）步骤：发起委派的父步骤序号路径 */
+  parentPath?: number[];
 }
 
+/** AgentLoop 流式增量（text 为目前为止的累计文本） */
+type OmegaAgentPartialPayload =
+  | { kind: "thinking"; delta: string; text: string; index: number; parentPath?: number[] }
+  | { kind: "answer"; delta: string; text: string; index: number; parentPath?: number[] }
+  | { kind: "tool"; toolName: string; toolInput: unknown; index: number; parentPath?: number[] };
+
 interface OmegaApi {
   // ── Graph 运行时 ─────────────────────────────
 
@@ -90,7 +108,9 @@ interface OmegaApi {
 
   /**
    * 运行 ReAct 动态 Agent 循环（Cline 风格，步骤数由 LLM 自主决定）
-   * taskJson: { task, lang?, availableTools?, attachmentsJson? }
+   * taskJson: { task, lang?, availableTools?, attachmentsJson?, sessionId?, verification?, fork? }
+   * verification: { model?, confidenceThreshold?, maxRejections? }：完成前由校验模型给答案打分，低于阈值时退回重做
+   * fork: { parentRunId, iteration, edit?: { response?, observation?: { index, text } } }：从已有 AgentLoop Run 的某轮分叉
    */
   runAgentLoop?(taskJson: string): Promise<OmegaRunGraphResult>;
 
@@ -106,6 +126,10 @@ interface OmegaApi {
     graphJson: string,
     inputOverrideJson?: string,
   ): Promise<{ ok: boolean; newRunId?: string; error?: string }>;
+  /** 暂停正在运行的 Run */
+  pauseRun(runId: string): Promise<{ ok: boolean; error?: string }>;
+  /** 恢复 PAUSED 状态的 Run（应用重启后恢复需传入 graphJson） */
+  resumeRun(runId: string, graphJson?: string): Promise<{ ok: boolean; error?: string }>;
   /** 列出历史 Run 记录 */
   listRuns(): Promise<unknown[]>;
 
@@ -132,7 +156,7 @@ interface OmegaApi {
     lmstudio: { healthy: boolean; models: string[]; url: string };
   }>;
   /** 按指定 type/baseUrl 获取模型列表 */
-  listModels?(type: string, baseUrl: string): Promise<{ models: string[]; error?: string }>;
+  listModels?(type: string, baseUrl: string, apiKey?: string): Promise<{ models: string[]; error?: string }>;
 
   // ── 事件订阅 ──────────────────────────────────
 
@@ -150,6 +174,9 @@ interface OmegaApi {
   /** 监听 LLM 流式 token（打字机效果，每 token 一次回调） */
   onTokenStream?(callback: (payload: { token: string; runId: string }) => void): () => void;
 
+  /** 监听 AgentLoop 流式增量（思考 / 最终答案的部分文本、提前识别的工具调用） */
+  onAgentPartial?(callback: (payload: { runId: string; partial: OmegaAgentPartialPayload }) => void): () => void;
+
   /** 监听新 LLM 迭代开始（每次迭代 streaming 前触发，用于清空 buffer 实现逐轮显示） */
   onStreamClear?(callback: (payload: { runId: string }) => void): () => void;
 
@@ -169,6 +196,27 @@ interface OmegaApi {
    */
   submitFollowupAnswer?(runId: string, answer: string): void;
 
+  // ── 工具审批 ────────────────────────────────
+
+  /** 监听工具审批请求（requireApproval 中的工具执行前触发） */
+  onToolApprovalRequest?(callback: (payload: OmegaToolApprovalRequest) => void): () => void;
+  /** 提交审批结果；alwaysAllow 为 true 时当前工作目录以后自动批准该工具 */
+  answerToolApproval?(answer: OmegaToolApprovalAnswer): void;
+  /** 获取工具审批设置（需审批的工具 + 当前工作目录的"始终允许"规则） */
+  getToolApproval?(): Promise<{ requireApproval: string[]; alwaysAllow: string[]; workingDir: string | null; error?: string }>;
+  /** 保存工具审批设置（alwaysAllow 作用于当前工作目录） */
+  saveToolApproval?(settings: { requireApproval?: string[]; alwaysAllow?: string[] }): Promise<{ ok?: boolean; error?: string }>;
+  /** 获取 Provider 故障转移链（默认 Provider 返回 429 / 5xx 或超时时依次改用） */
+  getProviderFallbackChain?(): Promise<{ chain: OmegaFallbackChainEntry[]; error?: string }>;
+  /** 保存 Provider 故障转移链 */
+  saveProviderFallbackChain?(chain: OmegaFallbackChainEntry[]): Promise<{ ok?: boolean; error?: string }>;
+  /** 获取模型价格表（内置价目 + 用户覆盖） */
+  listModelPricing?(): Promise<{ entries: OmegaModelPricing[]; error?: string }>;
+  /** 保存一个模型的价格，返回更新后的价格表 */
+  saveModelPricing?(entry: Omit<OmegaModelPricing, "isCustom" | "updatedAt">): Promise<{ ok?: boolean; entries?: OmegaModelPricing[]; error?: string }>;
+  /** 删除模型价格（内置模型恢复为内置价格），返回更新后的价格表 */
+  deleteModelPricing?(model: string): Promise<{ ok?: boolean; entries?: OmegaModelPricing[]; error?: string }>;
+
   // ── Rules 管理 ────────────────────────────────
 
   /** 获取用户全局 Rules */
@@ -215,6 +263,48 @@ declare global {
     omega?: OmegaApi;
   }
 
+  /** 工具审批请求（主进程 → UI）— 全局类型，供 App/ToolApprovalModal 使用 */
+  interface OmegaToolApprovalRequest {
+    runId: string;
+    requestId: string;
+    toolName: string;
+    toolInput: unknown;
+    workingDir: string | null;
+  }
+
+  /** 工具审批结果（UI → 主进程） */
+  interface OmegaToolApprovalAnswer {
+    requestId: string;
+    action: "approve" | "edit" | "reject";
+    toolInput?: unknown;
+    reason?: string;
+    alwaysAllow?: boolean;
+  }
+
+  /** Provider 故障转移链中的一项 — 全局类型，供 SettingsPage 使用 */
+  interface OmegaFallbackChainEntry {
+    /** providers 表 ID */
+    providerId: string;
+    /** 覆盖模型（省略时用该 Provider 配置的模型） */
+    model?: string;
+  }
+
+  /** 模型价格表的一项（token 单价为每 1000 token 的 USD）— 全局类型，供 SettingsPage 使用 */
+  interface OmegaModelPricing {
+    model: string;
+    input: number;
+    output: number;
+    /** 命中提示缓存的输入单价（省略时按 input 计） */
+    cachedInput?: number;
+    /** 写入提示缓存的输入单价（省略时按 input 计） */
+    cacheWrite?: number;
+    /** 每张输入图片的 USD */
+    image?: number;
+    /** 用户覆盖的条目（否则为内置价目） */
+    isCustom: boolean;
+    updatedAt: string;
+  }
+
   /** 项目上下文（由主进程扫描工作目录后生成）— 全局类型，供 App/SettingsPage 使用 */
   interface OmegaProjectContext {
     workingDir: string;
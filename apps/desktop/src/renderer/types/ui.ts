@@ -44,6 +44,27 @@ export interface NodeStepRecord {
   errorMsg?: string;
   /** 是否为重跑步骤（相对于上一步的重新生成） */
   isRerun?: boolean;
+  /** AgentLoop 迭代信息（存在时 RerunModal 改为编辑模型响应 / 工具观察结果并 fork） */
+  agentFork?: AgentForkInfo;
+}
+
+/** AgentLoop 迭代的可编辑内容 */
+export interface AgentForkInfo {
+  /** 迭代序号 */
+  iteration: number;
+  /** 本轮完整的模型响应 */
+  response: string;
+  /** 工具观察结果（observing 阶段的记录才有） */
+  observation?: string;
+  /** 该观察结果在本轮工具调用中的序号 */
+  observationIndex?: number;
+}
+
+/** RerunModal 确认 AgentLoop fork 时的编辑目标 */
+export interface AgentForkTarget {
+  iteration: number;
+  target: "response" | "observation";
+  observationIndex?: number;
 }
 
 /** Subagent 节点数据 (用于 Execution Engine 层渲染) */
@@ -220,6 +241,13 @@ export interface RunHistoryItem {
   startedAt: string;
   /** AI 输出文本（可作为 artifact 内容） */
   aiOutput?: string;
+  /** 执行时的图结构摘要（来自 graphs 快照；AgentLoop Run 没有） */
+  graphShape?: {
+    nodeCount: number;
+    edgeCount: number;
+    /** 节点类型（按 nodes 数组顺序） */
+    nodeTypes: string[];
+  };
 }
 
 /** 工件类型 */
@@ -246,7 +274,7 @@ export type SettingsSection = "providers" | "plugins" | "appearance";
 export interface ProviderConfig {
   id: string;
   name: string;
-  type: "openai-compatible" | "ollama" | "lm-studio" | "custom";
+  type: "openai-compatible" | "ollama" | "lm-studio" | "custom" | "anthropic" | "gemini";
   baseUrl: string;
   /** API Key（openai-compatible / custom 类型使用） */
   apiKey?: string;
@@ -0,0 +1,116 @@
+/**
+ * 用本地 mock 服务校验 AnthropicProvider / GeminiProvider 的请求转换、SSE 解析和用量计算
+ *
+ * 需要先构建 providers：pnpm --filter @omega/providers... build
+ * 运行：node demo/provider-sse-mock/check.mjs（任一断言失败时退出码非 0）
+ */
+import assert from "node:assert/strict";
+import { AnthropicProvider, GeminiProvider, PricingCatalog } from "../../packages/providers/dist/index.js";
+import { startMockServer } from "./mock-server.mjs";
+
+/** 固定价格（每 1K token，USD），与内置价格表解耦，便于手算 */
+const pricing = new PricingCatalog([
+  { model: "claude-sonnet-4", input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  { model: "gemini-2.5-flash", input: 0.3, output: 2.5, cachedInput: 0.075 },
+]);
+
+const tools = [{
+  name: "get_weather",
+  description: "Current weather for a city",
+  parameters: {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    properties: { city: { type: "string" }, unit: { type: "string", enum: ["c", "f"] } },
+    required: ["city"],
+    additionalProperties: false,
+  },
+}];
+
+/** 覆盖消息合并：两条 system、相邻 user、assistant 工具调用 + tool 结果后紧跟 user */
+const messages = [
+  { role: "system", content: "You are a weather bot." },
+  { role: "system", content: "Answer briefly." },
+  { role: "user", content: "Hi" },
+  { role: "user", content: "Weather in London?" },
+  { role: "assistant", content: "", toolCalls: [{ id: "call_london", name: "get_weather", arguments: { city: "London" } }] },
+  { role: "tool", toolCallId: "call_london", content: "12°C" },
+  { role: "user", content: "And Paris?" },
+];
+
+function assertCost(actual, expected) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `costUsd ${actual} !== ${expected}`);
+}
+
+async function checkAnthropic(mock) {
+  const provider = new AnthropicProvider({ id: "anthropic", name: "Anthropic (mock)", baseUrl: mock.baseUrl, apiKey: "sk-mock", pricing });
+  const events = [];
+  for await (const event of provider.generate({ model: "claude-sonnet-4-20250514", messages, tools, temperature: 0, stream: true })) {
+    events.push(event);
+  }
+
+  const { url, headers, body } = mock.requests.at(-1);
+  assert.equal(url, "/v1/messages");
+  assert.equal(headers["x-api-key"], "sk-mock");
+  assert.equal(headers["anthropic-version"], "2023-06-01");
+  assert.deepEqual(body.system, [
+    { type: "text", text: "You are a weather bot." },
+    { type: "text", text: "Answer briefly.", cache_control: { type: "ephemeral" } },
+  ]);
+  assert.deepEqual(body.messages, [
+    { role: "user", content: [{ type: "text", text: "Hi" }, { type: "text", text: "Weather in London?" }] },
+    { role: "assistant", content: [{ type: "tool_use", id: "call_london", name: "get_weather", input: { city: "London" } }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "call_london", content: "12°C" }, { type: "text", text: "And Paris?" }] },
+  ]);
+  assert.deepEqual(body.tools[0].cache_control, { type: "ephemeral" });
+  assert.equal(body.max_tokens, 4096);
+
+  const text = events.filter(e => !e.done).map(e => e.token).join("");
+  assert.equal(text, "Checking the weather.");
+
+  const final = events.at(-1);
+  assert.equal(final.done, true);
+  assert.deepEqual(final.toolCalls, [{ id: "toolu_01", name: "get_weather", arguments: { city: "Paris", unit: "c" } }]);
+  // promptTokens = input 12 + cacheWrite 300 + cacheRead 1000
+  assert.deepEqual(final.usage, { promptTokens: 1312, completionTokens: 42, totalTokens: 1354, cacheCreationTokens: 300, cacheReadTokens: 1000 });
+  // (12 × 3 + 300 × 3.75 + 1000 × 0.3 + 42 × 15) / 1000
+  assertCost(final.costUsd, 2.091);
+  console.log("✓ AnthropicProvider: request mapping, text / tool_use assembly, cache usage and cost");
+}
+
+async function checkGemini(mock) {
+  const provider = new GeminiProvider({ id: "gemini", name: "Gemini (mock)", baseUrl: mock.baseUrl, apiKey: "gm-mock", pricing });
+  const result = await provider.generateComplete({ model: "models/gemini-2.5-flash", messages, tools, stream: true });
+
+  const { url, headers, body } = mock.requests.at(-1);
+  assert.equal(url, "/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse");
+  assert.equal(headers["x-goog-api-key"], "gm-mock");
+  assert.deepEqual(body.systemInstruction, { parts: [{ text: "You are a weather bot." }, { text: "Answer briefly." }] });
+  assert.deepEqual(body.contents, [
+    { role: "user", parts: [{ text: "Hi" }, { text: "Weather in London?" }] },
+    { role: "model", parts: [{ functionCall: { id: "call_london", name: "get_weather", args: { city: "London" } } }] },
+    { role: "user", parts: [{ functionResponse: { id: "call_london", name: "get_weather", response: { result: "12°C" } } }, { text: "And Paris?" }] },
+  ]);
+  assert.deepEqual(body.tools[0].functionDeclarations[0].parameters, {
+    type: "object",
+    properties: { city: { type: "string" }, unit: { type: "string", enum: ["c", "f"] } },
+    required: ["city"],
+  });
+
+  // 思考摘要不计入正文；functionCall 没有 ID 时按序号生成
+  assert.equal(result.text, "Checking the weather.");
+  assert.deepEqual(result.toolCalls, [{ id: "call_0", name: "get_weather", arguments: { city: "Paris", unit: "c" } }]);
+  assert.equal(result.tokens, 1354);
+  // (312 × 0.3 + 1000 × 0.075 + (30 + 12 thoughts) × 2.5) / 1000
+  assertCost(result.costUsd, 0.2736);
+  assert.deepEqual(result.providerMeta, { provider: "gemini", model: "models/gemini-2.5-flash" });
+  console.log("✓ GeminiProvider: request mapping, text / functionCall assembly, cached and thinking tokens, cost");
+}
+
+const mock = await startMockServer();
+try {
+  await checkAnthropic(mock);
+  await checkGemini(mock);
+  console.log("All provider checks passed.");
+} finally {
+  await mock.close();
+}
@@ -0,0 +1,102 @@
+/**
+ * Anthropic Messages API / Gemini streamGenerateContent 的本地 SSE mock 服务
+ *
+ *   - POST /v1/messages                                  → Anthropic 流式事件（文本 + tool_use + prompt caching usage）
+ *   - POST /v1beta/models/<model>:streamGenerateContent  → Gemini SSE 数据块（思考摘要 + 文本 + functionCall + usageMetadata）
+ *
+ * 响应按小片段写出（故意在行中间切开），覆盖适配器的 SSE 行缓冲逻辑。
+ * 收到的请求记录在 requests 中，供 check.mjs 校验消息转换结果。
+ *
+ * 单独运行：node mock-server.mjs [port]（默认 8787），再把 Provider 的 baseUrl 指向 http://127.0.0.1:<port>
+ */
+import { createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+
+/** Anthropic 录制流：两段 text_delta + 分两片到达的 tool_use input，usage 含缓存写入 / 命中 */
+export const ANTHROPIC_EVENTS = [
+  { type: "message_start", message: { id: "msg_mock", role: "assistant", usage: { input_tokens: 12, cache_creation_input_tokens: 300, cache_read_input_tokens: 1000, output_tokens: 1 } } },
+  { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Checking the " } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "weather." } },
+  { type: "content_block_stop", index: 0 },
+  { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_01", name: "get_weather", input: {} } },
+  { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "{\"city\": \"Par" } },
+  { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "is\", \"unit\": \"c\"}" } },
+  { type: "content_block_stop", index: 1 },
+  { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 42 } },
+  { type: "message_stop" },
+];
+
+/** Gemini 录制流：思考摘要（不计入正文）、分块文本、不带 ID 的 functionCall，usageMetadata 为累计值 */
+export const GEMINI_CHUNKS = [
+  { candidates: [{ content: { role: "model", parts: [{ text: "Need the forecast.", thought: true }] } }], usageMetadata: { promptTokenCount: 1312, totalTokenCount: 1312 } },
+  { candidates: [{ content: { role: "model", parts: [{ text: "Checking the " }] } }] },
+  {
+    candidates: [{
+      content: { role: "model", parts: [{ text: "weather." }, { functionCall: { name: "get_weather", args: { city: "Paris", unit: "c" } } }] },
+      finishReason: "STOP",
+    }],
+    usageMetadata: { promptTokenCount: 1312, candidatesTokenCount: 30, thoughtsTokenCount: 12, totalTokenCount: 1354, cachedContentTokenCount: 1000 },
+  },
+];
+
+function anthropicStream() {
+  return ANTHROPIC_EVENTS.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join("");
+}
+
+function geminiStream() {
+  return GEMINI_CHUNKS.map(chunk => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join("");
+}
+
+/** 按 7 字节切片写出，每片之间让出事件循环，使客户端分多次 read() 收到 */
+async function writeSliced(res, payload) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const bytes = Buffer.from(payload, "utf8");
+  for (let i = 0; i < bytes.length; i += 7) {
+    res.write(bytes.subarray(i, i + 7));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  res.end();
+}
+
+/**
+ * 启动 mock 服务
+ * @param {number} port 0 表示随机端口
+ * @returns {Promise<{ baseUrl: string; requests: Array<{ url: string; headers: import("node:http").IncomingHttpHeaders; body: any }>; close: () => Promise<void> }>}
+ */
+export async function startMockServer(port = 0) {
+  const requests = [];
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => { raw += chunk; });
+    req.on("end", () => {
+      requests.push({ url: req.url ?? "", headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+
+      if (req.method === "POST" && req.url === "/v1/messages") {
+        writeSliced(res, anthropicStream()).catch(() => res.destroy());
+      } else if (req.method === "POST" && /^\/v1beta\/models\/[^/]+:streamGenerateContent\?alt=sse$/.test(req.url ?? "")) {
+        writeSliced(res, geminiStream()).catch(() => res.destroy());
+      } else {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: `No mock for ${req.method} ${req.url}` } }));
+      }
+    });
+  });
+
+  await new Promise(resolve => server.listen(port, "127.0.0.1", resolve));
+  const { port: actualPort } = server.address();
+
+  return {
+    baseUrl: `http://127.0.0.1:${actualPort}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const mock = await startMockServer(Number(process.argv[2] ?? 8787));
+  console.log(`[mock] Anthropic: ${mock.baseUrl}  (POST /v1/messages)`);
+  console.log(`[mock] Gemini:    ${mock.baseUrl}  (POST /v1beta/models/<model>:streamGenerateContent?alt=sse)`);
+  console.log("[mock] Ctrl+C to stop");
+}
@@ -1,5 +1,5 @@
 ﻿import { nanoid } from "nanoid";
-import type { ErrorEnvelope } from "@omega/shared";
+import type { BudgetConfig, ErrorEnvelope } from "@omega/shared";
 import { ErrorType } from "@omega/shared";
 
 /**
@@ -53,3 +53,65 @@ export class OmegaError extends Error {
     this.envelope = envelope;
   }
 }
+
+/** 图结构非法（环路、悬空边、重复节点等），在加载阶段抛出 */
+export class GraphValidationError extends OmegaError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(createErrorEnvelope(ErrorType.VALIDATION_ERROR, message, context ? { context } : undefined));
+    this.name = "GraphValidationError";
+  }
+}
+
+/** Run 超出资源预算（BudgetConfig）时抛出 */
+export class BudgetExceededError extends OmegaError {
+  constructor(
+    /** 被突破的预算项 */
+    public readonly limit: keyof BudgetConfig,
+    /** 预算上限 */
+    public readonly limitValue: number,
+    /** 实际用量 */
+    public readonly actual: number,
+    runId?: string
+  ) {
+    super(createErrorEnvelope(
+      ErrorType.BUDGET_EXCEEDED,
+      `Budget exceeded: ${limit} limit is ${limitValue}, used ${actual}`,
+      { ...(runId !== undefined && { runId }), context: { limit, limitValue, actual } }
+    ));
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Provider API 返回非 2xx 状态码时抛出（429 / 5xx 视为可重试，FallbackProvider 据此切换） */
+export class ProviderHttpError extends OmegaError {
+  constructor(
+    /** 适配器名称（如 "Ollama"、"Anthropic"） */
+    public readonly provider: string,
+    /** HTTP 状态码 */
+    public readonly status: number,
+    body: string
+  ) {
+    super(createErrorEnvelope(
+      ErrorType.PROVIDER_ERROR,
+      `${provider} API error ${status}: ${body}`,
+      { context: { provider, status }, retryable: status === 429 || status >= 500 }
+    ));
+    this.name = "ProviderHttpError";
+  }
+}
+
+/** Provider 在限定时间内没有响应时抛出 */
+export class ProviderTimeoutError extends OmegaError {
+  constructor(
+    public readonly provider: string,
+    /** 超时阈值 (ms) */
+    public readonly timeoutMs: number
+  ) {
+    super(createErrorEnvelope(
+      ErrorType.TIMEOUT_ERROR,
+      `${provider} did not respond within ${timeoutMs}ms`,
+      { context: { provider, timeoutMs }, retryable: true }
+    ));
+    this.name = "ProviderTimeoutError";
+  }
+}
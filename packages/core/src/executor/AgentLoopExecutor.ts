@@ -1,21 +1,57 @@
-import { nanoid } from "nanoid";
+﻿import { nanoid } from "nanoid";
 import { createLogger } from "../logger.js";
-import type { AgentLoopConfig, AgentStep } from "@omega/shared";
+import type { AgentLoopConfig, AgentStep, LLMToolCall, LLMToolDefinition, ProviderMeta, TokenEvent } from "@omega/shared";
 import {
   estimateTokens,
   formatOutput,
+  summarizeContext,
+  verifyAnswer,
 } from "../skills/AgentSkills.js";
+import type { VerificationVerdict } from "../skills/AgentSkills.js";
+import { countTextTokens } from "../tokenizer.js";
+import { StreamingResponseParser } from "./StreamingResponseParser.js";
+import type { AgentStreamDelta } from "./StreamingResponseParser.js";
 
 const log = createLogger("AgentLoopExecutor");
 
+/** 上下文摘要调用的输出 token 上限 */
+const SUMMARY_MAX_TOKENS = 1024;
+
+/** 完成前自检调用的输出 token 上限 */
+const VERIFY_MAX_TOKENS = 512;
+
 // ─── 类型定义 ──────────────────────────────────────────────────────────────
 
 /** LLM 调用函数签名（由 main/index.ts 注入） */
 export type AgentLLMInvoker = (
   systemPrompt: string,
   messages: ChatMessage[],
-  options?: { temperature?: number; maxTokens?: number }
-) => Promise<{ text: string; tokens: number; costUsd: number }>;
+  /** tools 仅在 toolCallMode = "native" 时传入 */
+  options?: { temperature?: number; maxTokens?: number; tools?: LLMToolDefinition[] }
+  /** providerMeta：实际响应的 Provider（经过故障转移时返回，随步骤持久化） */
+) => Promise<{ text: string; tokens: number; costUsd: number; toolCalls?: LLMToolCall[]; providerMeta?: ProviderMeta }>;
+
+/**
+ * 流式 LLM 调用函数签名（可选，由 main/index.ts 注入）
+ * 与 LLMProvider.generate 一致：逐个产出 TokenEvent，最后一个事件 done = true 并携带 usage / costUsd / toolCalls
+ */
+export type AgentLLMStreamInvoker = (
+  systemPrompt: string,
+  messages: ChatMessage[],
+  options?: { temperature?: number; maxTokens?: number; tools?: LLMToolDefinition[] }
+) => AsyncIterable<TokenEvent>;
+
+/** 流式增量事件：AgentStreamDelta + 所属迭代（子 Agent 带 parentPath） */
+export type AgentPartial = AgentStreamDelta & {
+  index: number;
+  parentPath?: number[];
+};
+
+/** 流式增量回调（思考 / 最终答案的部分文本、提前识别的工具调用，仅用于 UI 展示） */
+export type AgentPartialCallback = (
+  runId: string,
+  partial: AgentPartial
+) => void;
 
 /** MCP 工具调用函数签名（由 main/index.ts 注入） */
 export type AgentToolInvoker = (
@@ -40,6 +76,28 @@ export type AskFollowupCallback = (
   options?: string[]  // 可选的选项列表（供 UI 显示快速选项按钮）
 ) => Promise<string>;
 
+/**
+ * 工具调用审批结果
+ * approve — 按原参数执行
+ * edit    — 以用户修改后的参数执行
+ * reject  — 不执行；拒绝原因作为观察结果回传给 LLM，循环继续
+ */
+export type ToolApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; toolInput: unknown }
+  | { action: "reject"; reason?: string };
+
+/**
+ * 工具调用审批回调（与 AskFollowupCallback 同为 Human-in-the-loop）
+ * config.requireApproval 中的工具执行前触发；主进程可按"始终允许"规则直接批准，
+ * 或通过 IPC 将工具参数推送到 UI，等待用户批准 / 修改 / 拒绝后 resolve
+ */
+export type ToolApprovalCallback = (
+  runId: string,
+  toolName: string,
+  toolInput: unknown
+) => Promise<ToolApprovalDecision>;
+
 /** 多模态内容块（OpenAI vision 格式） */
 export type ContentPart =
   | { type: "text"; text: string }
@@ -47,8 +105,12 @@ export type ContentPart =
 
 /** 聊天消息格式（支持纯文本 string 或多模态 ContentPart[]） */
 export interface ChatMessage {
-  role: "user" | "assistant" | "system";
+  role: "user" | "assistant" | "system" | "tool";
   content: string | ContentPart[];
+  /** assistant 消息发起的原生工具调用（toolCallMode = "native"） */
+  toolCalls?: LLMToolCall[];
+  /** tool 消息对应的调用 ID */
+  toolCallId?: string;
 }
 
 /** AgentLoopResult — 完整循环的返回值 */
@@ -71,6 +133,17 @@ export interface ToolSchemaInfo {
   };
 }
 
+/** 一次响应中解析出的单个工具调用 */
+interface AgentToolUse {
+  toolName: string;
+  toolInput: unknown;
+  /** 原生函数调用时对应的 tool_call（回传结果时关联 toolCallId） */
+  toolCall?: LLMToolCall;
+}
+
+/** 一轮 LLM 响应的公共信息（同一迭代各阶段的步骤共用） */
+type AgentResponseInfo = Pick<AgentStep, "thought" | "response" | "tokens" | "costUsd" | "toolCalls" | "providerMeta">;
+
 // ─── 核心工具函数（Cline 风格）─────────────────────────────────────────────
 
 /**
@@ -100,6 +173,63 @@ function extractParam(inputBlock: string, paramName: string): string | undefined
   return inputBlock.slice(start + open.length, end).trim();
 }
 
+/**
+ * 按出现顺序提取文本中的全部直接标签工具调用块
+ *
+ * 每个块的闭合标签取"下一个工具开始标签之前的最后一个同名闭合标签"：
+ * 既能在一次响应中识别多个（含同名）工具调用，又保留 lastIndexOf 的贪婪语义
+ * （参数内容里含有同名闭合标签时不会被截断）
+ */
+function extractToolBlocks(
+  text: string,
+  availableTools: string[]
+): Array<{ toolName: string; block: string }> {
+  // 所有工具开始标签的位置（升序）
+  const opens: Array<{ toolName: string; index: number }> = [];
+  for (const toolName of availableTools) {
+    const open = `<${toolName}>`;
+    for (let i = text.indexOf(open); i !== -1; i = text.indexOf(open, i + open.length)) {
+      opens.push({ toolName, index: i });
+    }
+  }
+  opens.sort((a, b) => a.index - b.index);
+
+  const blocks: Array<{ toolName: string; block: string }> = [];
+  let pos = 0;
+  for (const { toolName, index } of opens) {
+    if (index < pos) continue; // 位于上一个块内部（参数内容中的标签）
+    const open = `<${toolName}>`;
+    const close = `</${toolName}>`;
+    const firstClose = text.indexOf(close, index + open.length);
+    if (firstClose === -1) continue;
+    const nextOpen = opens.find(o => o.index > firstClose)?.index ?? text.length;
+    const end = text.lastIndexOf(close, nextOpen - close.length);
+    blocks.push({ toolName, block: text.slice(index + open.length, end).trim() });
+    pos = end + close.length;
+  }
+  return blocks;
+}
+
+/**
+ * 解析工具块内的参数标签（<param>value</param>）
+ * 没有参数标签时返回原始文本
+ */
+function parseToolParams(toolBlock: string): unknown {
+  const paramMap: Record<string, string> = {};
+  // 找出所有参数名（开始标签）
+  const tagNameRegex = /<(\w+)>/g;
+  const tagNames = new Set<string>();
+  for (const m of toolBlock.matchAll(tagNameRegex)) {
+    if (m[1]) tagNames.add(m[1]);
+  }
+  // 逐参数名提取（使用 indexOf+lastIndexOf 贪婪匹配）
+  for (const name of tagNames) {
+    const value = extractParam(toolBlock, name);
+    if (value !== undefined) paramMap[name] = value;
+  }
+  return Object.keys(paramMap).length > 0 ? paramMap : toolBlock;
+}
+
 /**
  * Cline 风格的上下文截断范围计算
  * 永远保留 index 0（用户任务原始消息）和 index 1（首次助手回应）
@@ -141,6 +271,39 @@ function getTruncationRange(
   return [startOfMiddle, endIdx];
 }
 
+/**
+ * 截断后修复原生工具调用的配对关系（OpenAI 兼容 API 拒绝不成对的 tool_calls / tool 消息）
+ * - assistant.toolCalls 中没有紧随其后 tool 结果的调用被移除
+ * - 找不到发起调用的 tool 消息降级为 user 消息
+ * 只按位置匹配：Ollama 的调用 ID 在每次响应内重新编号
+ */
+function repairToolCallPairs(messages: ChatMessage[]): void {
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i]!;
+    if (message.role === "tool") {
+      let ownerIdx = i - 1;
+      while (ownerIdx >= 0 && messages[ownerIdx]!.role === "tool") ownerIdx--;
+      const owner = messages[ownerIdx];
+      if (!owner?.toolCalls?.some(c => c.id === message.toolCallId)) {
+        messages[i] = { role: "user", content: message.content };
+      }
+    } else if (message.toolCalls) {
+      const replied = new Set<string | undefined>();
+      for (let j = i + 1; j < messages.length && messages[j]!.role === "tool"; j++) {
+        replied.add(messages[j]!.toolCallId);
+      }
+      const kept = message.toolCalls.filter(c => replied.has(c.id));
+      if (kept.length !== message.toolCalls.length) {
+        messages[i] = {
+          role: message.role,
+          content: message.content,
+          ...(kept.length > 0 && { toolCalls: kept }),
+        };
+      }
+    }
+  }
+}
+
 // ─── System Prompt 构建 ───────────────────────────────────────────────────
 
 /**
@@ -151,7 +314,8 @@ function getTruncationRange(
 function buildToolDescriptions(
   availableTools: string[],
   toolSchemas: ToolSchemaInfo[] = [],
-  lang: "zh" | "en" = "zh"
+  lang: "zh" | "en" = "zh",
+  toolCallMode: AgentLoopConfig["toolCallMode"] = "xml"
 ): string {
   if (availableTools.length === 0) {
     return lang === "zh"
@@ -188,19 +352,28 @@ function buildToolDescriptions(
           lines.push(`- \`${paramName}\` ${req}: ${paramInfo.description ?? paramInfo.type}`);
         }
 
+        // 原生函数调用模式下参数格式由 tools 定义约束，不输出 XML 用法
+        if (toolCallMode === "native") {
+          lines.push("");
+          continue;
+        }
         lines.push(lang === "zh" ? "**用法：**" : "**Usage:**");
         lines.push(`<${schema.name}>`);
         for (const [paramName, paramInfo] of paramEntries) {
           lines.push(`<${paramName}>${paramInfo.description ?? "value"}</${paramName}>`);
         }
         lines.push(`</${schema.name}>`);
-      } else {
+      } else if (toolCallMode === "xml") {
         lines.push(lang === "zh" ? "**用法（无参数）：**" : "**Usage (no parameters):**");
         lines.push(`<${schema.name}></${schema.name}>`);
       }
     } else {
       // 没有 schema 信息的工具（MCP 动态工具）
       lines.push(`## ${toolName}`);
+      if (toolCallMode === "native") {
+        lines.push("");
+        continue;
+      }
       lines.push(lang === "zh" ? "**用法：**" : "**Usage:**");
       lines.push(`<${toolName}>`);
       lines.push(`<input>parameters here</input>`);
@@ -212,6 +385,128 @@ function buildToolDescriptions(
   return lines.join("\n");
 }
 
+/**
+ * 将工具 Schema 列表转换为原生函数调用的 tools 定义（toolCallMode = "native"）
+ * attempt_completion / ask_followup_question 同样以函数形式提供
+ */
+export function buildToolDefinitions(
+  availableTools: string[],
+  toolSchemas: ToolSchemaInfo[] = [],
+  lang: "zh" | "en" = "zh"
+): LLMToolDefinition[] {
+  const schemaMap = new Map<string, ToolSchemaInfo>(
+    toolSchemas.map(s => [s.name, s])
+  );
+
+  const definitions: LLMToolDefinition[] = availableTools.map(toolName => {
+    const schema = schemaMap.get(toolName);
+    if (schema) {
+      return {
+        name: schema.name,
+        description: schema.description,
+        parameters: { ...schema.inputSchema, properties: schema.inputSchema.properties ?? {} },
+      };
+    }
+    // 没有 schema 信息的工具（MCP 动态工具）：与 XML 模式一致，参数放在 input 中
+    return {
+      name: toolName,
+      description: toolName,
+      parameters: {
+        type: "object",
+        properties: { input: { type: "string", description: "parameters" } },
+      },
+    };
+  });
+
+  definitions.push({
+    name: "ask_followup_question",
+    description: lang === "zh"
+      ? "需要更多信息才能继续时向用户提问，不要猜测"
+      : "Ask the user a question when you need more information to continue. Don't guess.",
+    parameters: {
+      type: "object",
+      properties: {
+        question: { type: "string", description: lang === "zh" ? "清晰、具体的问题" : "A clear, specific question" },
+        options: {
+          type: "array",
+          items: { type: "string" },
+          description: lang === "zh" ? "可选的建议选项" : "Optional suggested answers",
+        },
+      },
+      required: ["question"],
+    },
+  });
+  definitions.push(buildCompletionToolDefinition(lang));
+
+  return definitions;
+}
+
+/** attempt_completion 的函数定义（强制总结时单独提供） */
+function buildCompletionToolDefinition(lang: "zh" | "en"): LLMToolDefinition {
+  return {
+    name: "attempt_completion",
+    description: lang === "zh"
+      ? "确认任务已完全完成后提交最终结果，这是任务的唯一合法终止方式"
+      : "Submit the final result once the task is fully complete. This is the only legitimate way to end a task.",
+    parameters: {
+      type: "object",
+      properties: {
+        result: {
+          type: "string",
+          description: lang === "zh"
+            ? "完整的最终结果，面向用户，不得以问句结尾"
+            : "The complete, user-facing final result. Must not end with a question.",
+        },
+      },
+      required: ["result"],
+    },
+  };
+}
+
+/** 子 Agent 委派工具名（config.delegation 存在时自动加入可用工具） */
+export const DELEGATE_TASK_TOOL = "delegate_task";
+
+/** delegate_task 的工具 Schema（XML / 原生模式共用） */
+function buildDelegateTaskSchema(lang: "zh" | "en", maxIterations: number): ToolSchemaInfo {
+  return {
+    name: DELEGATE_TASK_TOOL,
+    description: lang === "zh"
+      ? "把一个边界清晰的子任务委派给子 Agent 独立完成，只返回它的最终结果。适合需要多步工具调用、但中间过程不必保留在你上下文中的任务（如调研、批量阅读文件）。"
+      : "Delegate a well-scoped subtask to a sub-agent that works on it independently and returns only its final result. Use it for multi-step work whose intermediate tool output you don't need in your own context (e.g. research, reading many files).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task: {
+          type: "string",
+          description: lang === "zh"
+            ? "子任务的完整描述（子 Agent 看不到你的对话历史，需写清背景和期望的输出）"
+            : "Complete description of the subtask (the sub-agent cannot see your conversation, so include context and the expected output)",
+        },
+        tools: {
+          type: "string",
+          description: lang === "zh"
+            ? "子 Agent 可用的工具名，逗号分隔，须为你的可用工具的子集；省略则继承全部工具"
+            : "Comma-separated tool names the sub-agent may use, a subset of your own tools; omit to inherit all of them",
+        },
+        max_iterations: {
+          type: "number",
+          description: lang === "zh"
+            ? `子 Agent 最大迭代轮次（不超过 ${maxIterations}）`
+            : `Maximum sub-agent iterations (at most ${maxIterations})`,
+        },
+      },
+      required: ["task"],
+    },
+  };
+}
+
+/** 解析 delegate_task 的 tools 参数（逗号分隔字符串或数组），未提供时返回 undefined */
+function parseToolList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  if (typeof value === "string" && value.trim()) return value.split(/[,\s]+/).filter(Boolean);
+  return undefined;
+}
+
 /**
  * 构建用户 Rules 和项目 Rules 章节
  */
@@ -247,6 +542,8 @@ function buildRulesSection(
  * 4. RULES 章节（具体禁令和约束）
  * 5. OBJECTIVE 章节（5步方法论）
  * 6. 用户/项目 Rules
+ *
+ * toolCallMode = "native" 时工具、提问和完成均通过函数调用进行，不出现 XML 用法说明
  */
 export function buildAgentSystemPrompt(
   basePrompt: string,
@@ -255,19 +552,21 @@ export function buildAgentSystemPrompt(
   toolSchemas: ToolSchemaInfo[] = [],
   userRules?: string,
   projectRules?: string,
+  toolCallMode: AgentLoopConfig["toolCallMode"] = "xml",
 ): string {
-  const toolDesc = buildToolDescriptions(availableTools, toolSchemas, lang);
+  const toolDesc = buildToolDescriptions(availableTools, toolSchemas, lang, toolCallMode);
   const hasTools = availableTools.length > 0;
   const rulesSection = buildRulesSection(userRules, projectRules, lang);
+  const native = toolCallMode === "native";
 
   if (lang === "zh") {
-    return `${basePrompt}
-
-====
+    const formatSection = native
+      ? `你有工具可以帮你完成任务。工具以原生函数调用（function calling）的方式提供。
 
-# 工具使用（TOOL USE）
+## 工具使用格式
 
-你有工具可以帮你完成任务。工具调用使用 XML 风格的直接标签格式。
+直接调用对应的函数，参数按函数的 JSON Schema 填写。不要在正文中输出 XML 工具标签。`
+      : `你有工具可以帮你完成任务。工具调用使用 XML 风格的直接标签格式。
 
 ## 工具使用格式
 
@@ -280,15 +579,39 @@ export function buildAgentSystemPrompt(
 例如使用 web_search：
 <web_search>
 <query>搜索关键词</query>
-</web_search>
+</web_search>`;
+    const followupUsage = native
+      ? `调用 ask_followup_question 函数：question 为你的问题（清晰、具体），options 为可选的建议选项列表。`
+      : `<ask_followup_question>
+<question>你的问题（清晰、具体）</question>
+<options>
+<option>选项1（可选，提供建议选项让用户更方便作答）</option>
+<option>选项2</option>
+</options>
+</ask_followup_question>`;
+    const completionUsage = native
+      ? `调用 attempt_completion 函数，result 参数为完整的最终结果（面向用户，清晰可读。不得以问句或"还需要帮助吗"结尾）。`
+      : `<attempt_completion>
+<result>
+[完整的最终结果，面向用户，清晰可读。不得以问句或"还需要帮助吗"结尾。]
+</result>
+</attempt_completion>`;
+
+    return `${basePrompt}
+
+====
+
+# 工具使用（TOOL USE）
+
+${formatSection}
 
 ## 工具使用指南
 
 1. 在 <thinking> 标签中评估当前已有信息和所需信息，决定下一步行动
 2. 选择最适合当前步骤的工具
-3. **每次响应只能调用一个工具**，不要在一次响应中调用多个工具
+3. **相互独立的工具调用可以在一次响应中同时发起**（它们会并行执行，例如同时 web_search 多个关键词）；依赖前一个工具结果的调用必须等结果返回后再发起
 4. 等待用户（系统）返回工具执行结果后，再决定下一步
-5. 工具调用必须使用正确的 XML 格式，参数名必须精确
+5. ${native ? "工具调用的参数必须符合函数的 JSON Schema" : "工具调用必须使用正确的 XML 格式"}，参数名必须精确
 6. 绝对不要假设工具执行成功——必须等待实际结果后再继续
 
 ## 可用工具
@@ -301,13 +624,7 @@ ${toolDesc}
 
 当你需要更多信息才能继续时，使用此格式向用户提问。**不要猜测**，直接问。
 
-<ask_followup_question>
-<question>你的问题（清晰、具体）</question>
-<options>
-<option>选项1（可选，提供建议选项让用户更方便作答）</option>
-<option>选项2</option>
-</options>
-</ask_followup_question>
+${followupUsage}
 
 **注意：** options 是可选的。如果有明确的选项可供选择，提供它们。
 
@@ -317,11 +634,7 @@ ${toolDesc}
 
 当你确认任务已完全完成后，必须使用以下格式提交最终结果：
 
-<attempt_completion>
-<result>
-[完整的最终结果，面向用户，清晰可读。不得以问句或"还需要帮助吗"结尾。]
-</result>
-</attempt_completion>
+${completionUsage}
 
 **重要约束（必须遵守）：**
 - 在确认所有工具调用都已成功之前，**禁止**使用 attempt_completion
@@ -335,7 +648,7 @@ ${toolDesc}
 
 ### 工具使用规则
 ${hasTools ? `- 必须等待每个工具的执行结果，不得假设结果
-- 每次只调用一个工具，调用后必须等待结果再继续
+- 相互独立的工具可以在一次响应中一起调用；依赖其他工具结果的调用必须等待结果后再发起
 - 缺少必填参数时，不得调用工具——应该向用户提问获取缺失信息
 - 工具执行失败时，分析错误原因，尝试修复后重试` : `- 当前无可用工具，请直接基于知识回答`}
 
@@ -344,7 +657,7 @@ ${hasTools ? `- 必须等待每个工具的执行结果，不得假设结果
 - 第一次响应（Iteration 1）：只分析和规划，绝对禁止直接生成代码或最终内容
   - 在 <thinking> 中：① 将任务拆解为 3-7 个子步骤 ② 每步用的工具 ③ 潜在风险
   - 然后调用第一个信息收集工具（如 web_search、fs_read），或如无需工具则输出详细执行计划
-- 从第二次响应起：每次只执行一个步骤（一个工具调用），基于上一步实际结果推进
+- 从第二次响应起：每次执行一个步骤（相互独立的多个工具调用可合并为一步），基于上一步实际结果推进
 - 必须等待工具结果再继续，绝对不要预测或假设工具输出
 
 ### 输出规则
@@ -360,7 +673,7 @@ ${hasTools ? `- 必须等待每个工具的执行结果，不得假设结果
 你的目标是以迭代、有条不紊的方式完成用户交代的任务。
 
 1. **分析任务**：仔细阅读任务，设定清晰可达的子目标，按逻辑优先级排序
-2. **顺序推进**：每次响应只用一个工具，每步都基于上一步的实际结果
+2. **顺序推进**：每步都基于上一步的实际结果；同一步内相互独立的工具调用在一次响应中并行发起
 3. **先思考后行动**：每次工具调用前，在 <thinking> 标签内：
    - 分析当前已有信息
    - 思考哪个工具最适合这一步
@@ -374,13 +687,13 @@ ${rulesSection}`;
   }
 
   // ── 英文版 ──────────────────────────────────────────────────────────────
-  return `${basePrompt}
+  const formatSection = native
+    ? `You have access to tools that help you complete tasks. Tools are provided through native function calling.
 
-====
-
-# TOOL USE
+## Tool Use Formatting
 
-You have access to tools that help you complete tasks. Tool calls use direct XML-style tags.
+Call the corresponding function directly, with arguments matching its JSON Schema. Do NOT write XML tool tags in your reply.`
+    : `You have access to tools that help you complete tasks. Tool calls use direct XML-style tags.
 
 ## Tool Use Formatting
 
@@ -393,15 +706,39 @@ Tool use is formatted as follows (tool name is the XML tag, parameters are insid
 Example using web_search:
 <web_search>
 <query>search keywords</query>
-</web_search>
+</web_search>`;
+  const followupUsage = native
+    ? `Call the ask_followup_question function: question is your question (clear and specific), options is an optional list of suggested answers.`
+    : `<ask_followup_question>
+<question>Your question (clear and specific)</question>
+<options>
+<option>Option 1 (optional — provide suggested choices to make it easier for the user)</option>
+<option>Option 2</option>
+</options>
+</ask_followup_question>`;
+  const completionUsage = native
+    ? `Call the attempt_completion function with result set to the complete final result (user-facing, clear and readable. Do NOT end with a question or "Is there anything else I can help you with?").`
+    : `<attempt_completion>
+<result>
+[Complete final result, user-facing, clear and readable. Do NOT end with a question or "Is there anything else I can help you with?"]
+</result>
+</attempt_completion>`;
+
+  return `${basePrompt}
+
+====
+
+# TOOL USE
+
+${formatSection}
 
 ## Tool Use Guidelines
 
 1. Assess your current state and what information you need in <thinking> tags before calling a tool
 2. Choose the most appropriate tool for the current step
-3. **Use only ONE tool per response** — never call multiple tools in a single response
+3. **Independent tool calls may be made together in one response** (they run in parallel, e.g. several web_search queries at once); a call that depends on another tool's result must wait for that result
 4. Wait for the tool result (returned by the user/system) before deciding your next action
-5. Tool calls must use the correct XML format with exact parameter names
+5. ${native ? "Tool call arguments must match the function's JSON Schema" : "Tool calls must use the correct XML format"} with exact parameter names
 6. NEVER assume a tool succeeded — wait for the actual result before continuing
 
 ## Available Tools
@@ -414,13 +751,7 @@ ${toolDesc}
 
 When you need more information to continue, use this format to ask the user. **Don't guess** — ask directly.
 
-<ask_followup_question>
-<question>Your question (clear and specific)</question>
-<options>
-<option>Option 1 (optional — provide suggested choices to make it easier for the user)</option>
-<option>Option 2</option>
-</options>
-</ask_followup_question>
+${followupUsage}
 
 **Note:** The options element is optional. Provide it when there are clear choices the user can pick from.
 
@@ -430,11 +761,7 @@ When you need more information to continue, use this format to ask the user. **D
 
 When you have confirmed the task is fully complete, submit your final result using:
 
-<attempt_completion>
-<result>
-[Complete final result, user-facing, clear and readable. Do NOT end with a question or "Is there anything else I can help you with?"]
-</result>
-</attempt_completion>
+${completionUsage}
 
 **IMPORTANT CONSTRAINTS (must follow):**
 - This tool CANNOT be used until you've confirmed all previous tool uses were successful
@@ -448,7 +775,7 @@ When you have confirmed the task is fully complete, submit your final result usi
 
 ### Tool Use Rules
 ${hasTools ? `- MUST wait for each tool's result before continuing — never assume the outcome
-- Use only ONE tool per response, then wait for the result
+- Independent tools may be called together in one response; calls that depend on another tool's result must wait for it
 - If required parameters are missing, do NOT call the tool — ask the user with ask_followup_question
 - If a tool fails, analyze the error and attempt a fix before retrying` : `- No tools available — answer directly from your knowledge`}
 
@@ -457,7 +784,7 @@ ${hasTools ? `- MUST wait for each tool's result before continuing — never ass
 - First response (Iteration 1): ONLY analyze and plan — NEVER generate code or final content directly
   - In <thinking>: ① Break task into 3-7 sub-steps ② Tool for each step ③ Potential risks
   - Then call the first information-gathering tool (e.g. web_search, fs_read), or output a detailed plan if no tools needed
-- From the second response onward: execute ONE step at a time, based on the actual result of the previous step
+- From the second response onward: execute ONE step at a time (independent tool calls may be combined into one step), based on the actual result of the previous step
 - NEVER predict or assume tool output — wait for the actual result
 
 ### Output Rules
@@ -473,7 +800,7 @@ ${hasTools ? `- MUST wait for each tool's result before continuing — never ass
 Your goal is to accomplish the user's task iteratively and methodically.
 
 1. **Analyze the task**: Read carefully, set clear achievable sub-goals in logical priority order
-2. **Progress sequentially**: Use one tool per response, each step based on the previous actual result
+2. **Progress sequentially**: Each step is based on the previous actual result; independent tool calls within a step go out together in one response
 3. **Think before acting**: Before each tool call, use <thinking> to:
    - Assess your current state
    - Determine which tool best fits this step
@@ -494,7 +821,8 @@ ${rulesSection}`;
  * Cline 风格改进：
  * 1. 所有 XML 提取使用 indexOf+lastIndexOf（安全贪婪匹配）
  * 2. 支持 <think>/<thinking>/<thought> 三种变体（国产模型常用 <think>）
- * 3. 支持直接标签工具调用格式（<tool_name><param>value</param></tool_name>）
+ * 3. 支持直接标签工具调用格式（<tool_name><param>value</param></tool_name>），
+ *    一次响应中的多个工具调用按出现顺序全部返回
  * 4. 同时兼容旧的 <tool_use> 嵌套格式
  * 5. finalAnswer 用 !== undefined 判断（空字符串也算有效，避免循环不终止）
  */
@@ -503,8 +831,7 @@ function parseAgentResponse(
   availableTools: string[] = []
 ): {
   thinking?: string;
-  toolName?: string;
-  toolInput?: unknown;
+  toolUses?: AgentToolUse[];   // 本轮的全部工具调用（并行执行）
   finalAnswer?: string;
   followupQuestion?: string;   // ask_followup_question 工具的问题内容
   followupOptions?: string[];  // ask_followup_question 的选项列表
@@ -560,31 +887,14 @@ function parseAgentResponse(
   // ── 5. 解析工具调用（优先尝试直接标签格式）──────────────────────────
   // 直接标签格式（Cline 风格）：<tool_name><param>value</param></tool_name>
   if (availableTools.length > 0) {
-    for (const toolName of availableTools) {
-      const toolBlock = extractBetweenTags(text, toolName);
-      if (toolBlock !== undefined) {
-        // 找到工具调用！提取参数
-        const paramMap: Record<string, string> = {};
-        // 找出所有参数名（开始标签）
-        const tagNameRegex = /<(\w+)>/g;
-        const tagNames = new Set<string>();
-        for (const m of toolBlock.matchAll(tagNameRegex)) {
-          if (m[1]) tagNames.add(m[1]);
-        }
-        // 逐参数名提取（使用 indexOf+lastIndexOf 贪婪匹配）
-        for (const name of tagNames) {
-          const value = extractParam(toolBlock, name);
-          if (value !== undefined) paramMap[name] = value;
-        }
-
-        const toolInput = Object.keys(paramMap).length > 0 ? paramMap : toolBlock;
-        const result: { thinking?: string; toolName: string; toolInput: unknown } = {
-          toolName,
-          toolInput,
-        };
-        if (thinking !== undefined) result.thinking = thinking;
-        return result;
-      }
+    const toolUses: AgentToolUse[] = extractToolBlocks(text, availableTools).map(({ toolName, block }) => ({
+      toolName,
+      toolInput: parseToolParams(block),
+    }));
+    if (toolUses.length > 0) {
+      const result: { thinking?: string; toolUses: AgentToolUse[] } = { toolUses };
+      if (thinking !== undefined) result.thinking = thinking;
+      return result;
     }
   }
 
@@ -601,21 +911,8 @@ function parseAgentResponse(
         .replace(/<tool_name>[\s\S]*?<\/tool_name>/i, "")
         .trim();
 
-      const paramMap: Record<string, string> = {};
-      const tagNameRegex = /<(\w+)>/g;
-      const tagNames = new Set<string>();
-      for (const m of inputBlock.matchAll(tagNameRegex)) {
-        if (m[1]) tagNames.add(m[1]);
-      }
-      for (const name of tagNames) {
-        const value = extractParam(inputBlock, name);
-        if (value !== undefined) paramMap[name] = value;
-      }
-
-      const toolInput = Object.keys(paramMap).length > 0 ? paramMap : inputBlock;
-      const result: { thinking?: string; toolName: string; toolInput: unknown } = {
-        toolName,
-        toolInput,
+      const result: { thinking?: string; toolUses: AgentToolUse[] } = {
+        toolUses: [{ toolName, toolInput: parseToolParams(inputBlock) }],
       };
       if (thinking !== undefined) result.thinking = thinking;
       return result;
@@ -629,6 +926,59 @@ function parseAgentResponse(
   return fallback;
 }
 
+/**
+ * 解析 Provider 返回的原生工具调用（toolCallMode = "native"）
+ *
+ * 返回结构与 parseAgentResponse 一致，另带本轮实际处理的调用（handledCalls，记录到 assistant 消息，
+ * 每个都必须回传一条 tool 结果）。优先级：attempt_completion > ask_followup_question > 可用工具（全部并行）。
+ * 没有可识别的调用时返回 undefined，由调用方回退到 XML 解析。
+ */
+function parseToolCalls(
+  toolCalls: LLMToolCall[],
+  text: string,
+  availableTools: string[] = []
+): (ReturnType<typeof parseAgentResponse> & { handledCalls: LLMToolCall[] }) | undefined {
+  // 函数调用模式下正文即思考过程（兼容仍输出 <thinking> 标签的模型）
+  const thinking =
+    extractBetweenTags(text, "thinking") ??
+    extractBetweenTags(text, "thought") ??
+    extractBetweenTags(text, "think") ??
+    (text.trim() || undefined);
+  const withThinking = <T extends object>(result: T): T & { thinking?: string } =>
+    thinking !== undefined ? { ...result, thinking } : result;
+
+  const completion = toolCalls.find(c => c.name === "attempt_completion");
+  if (completion) {
+    const result = completion.arguments["result"];
+    return withThinking({
+      handledCalls: [completion],
+      finalAnswer: typeof result === "string" ? result : JSON.stringify(result ?? ""),
+    });
+  }
+
+  const followup = toolCalls.find(c => c.name === "ask_followup_question");
+  if (followup) {
+    const question = String(followup.arguments["question"] ?? "");
+    const options = followup.arguments["options"];
+    const followupOptions = Array.isArray(options) ? options.map(String).filter(o => o.trim()) : [];
+    return withThinking({
+      handledCalls: [followup],
+      followupQuestion: question,
+      ...(followupOptions.length > 0 && { followupOptions }),
+    });
+  }
+
+  const handledCalls = toolCalls.filter(c => availableTools.includes(c.name));
+  if (handledCalls.length > 0) {
+    return withThinking({
+      handledCalls,
+      toolUses: handledCalls.map(call => ({ toolName: call.name, toolInput: call.arguments, toolCall: call })),
+    });
+  }
+
+  return undefined;
+}
+
 // ─── 缺参数检测 ───────────────────────────────────────────────────────────
 
 /**
@@ -656,6 +1006,134 @@ function getMissingRequiredParams(
   });
 }
 
+// ─── 对话消息构建（执行与 fork 重建共用）──────────────────────────────────
+
+/** 连续无效响应上限（达到后发送更强硬的提示） */
+const MAX_CONSECUTIVE_MISTAKES = 3;
+
+/** 单个工具调用回传给 LLM 的观察结果 */
+export interface ToolObservation {
+  toolName: string;
+  observation: string;
+  /** 原生函数调用对应的 tool_call ID（存在时以 tool 消息回传） */
+  toolCallId?: string | undefined;
+}
+
+/**
+ * 构建初始对话：多轮历史（附上下文说明）+ 本轮用户任务（有图片时为多模态消息）
+ * 历史消息为干净的"摘要对"（用户任务 + AI 答案），不含工具调用中间步骤
+ */
+export function buildInitialMessages(
+  lang: "zh" | "en",
+  task: string,
+  imageUrls?: string[],
+  history?: ChatMessage[],
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  if (history && history.length > 0) {
+    messages.push(...history);
+    // 告知 LLM 历史已注入，现在是新的一轮任务
+    messages.push({
+      role: "user",
+      content: lang === "zh"
+        ? `[上下文说明] 以上是你与用户之前的对话历史（共 ${history.length} 条消息）。现在用户有了新的任务，请在理解历史上下文的基础上完成它。`
+        : `[Context Note] The above messages are your previous conversation history with the user (${history.length} messages). The user now has a new task — please complete it with awareness of the prior context.`,
+    });
+    messages.push({ role: "assistant", content: lang === "zh" ? "好的，我已了解历史对话内容，请告诉我新的任务。" : "Understood, I have reviewed the conversation history. Please share your new task." });
+  }
+
+  messages.push({
+    role: "user",
+    content: imageUrls && imageUrls.length > 0
+      ? [
+          { type: "text", text: task },
+          ...imageUrls.map((url) => ({
+            type: "image_url" as const,
+            image_url: { url, detail: "auto" as const },
+          })),
+        ]
+      : task,
+  });
+  return messages;
+}
+
+/** 对一次工具调用的回复消息：原生 tool_call 以 tool 消息回传，XML 模式以 user 消息回传 */
+export function buildReplyMessage(toolCallId: string | undefined, content: string): ChatMessage {
+  return toolCallId
+    ? { role: "tool", toolCallId, content }
+    : { role: "user", content };
+}
+
+/**
+ * 构建工具结果消息（Cline 风格：[Tool Use Result: xxx]）
+ * XML 模式全部结果合并为一条 user 消息；原生模式按协议每个 tool_call 回传一条 tool 消息
+ */
+export function buildToolResultMessages(lang: "zh" | "en", observations: ToolObservation[]): ChatMessage[] {
+  const resultBlocks = observations.map(o => lang === "zh"
+    ? `[工具执行结果: ${o.toolName}]\n\n${o.observation}`
+    : `[Tool Use Result: ${o.toolName}]\n\n${o.observation}`);
+  const nextAction = lang === "zh"
+    ? "基于以上工具执行结果，决定下一步行动。如果任务已完成，使用 attempt_completion 提交最终结果。"
+    : "Based on the above result, decide your next action. Use attempt_completion if the task is complete.";
+
+  if (observations.length > 0 && observations.every(o => o.toolCallId)) {
+    return observations.map((o, i) => buildReplyMessage(
+      o.toolCallId,
+      i === observations.length - 1 ? `${resultBlocks[i]}\n\n${nextAction}` : resultBlocks[i]!,
+    ));
+  }
+  return [{ role: "user", content: `${resultBlocks.join("\n\n")}\n\n${nextAction}` }];
+}
+
+/** ask_followup_question 的用户回答消息 */
+export function buildFollowupAnswerMessage(lang: "zh" | "en", question: string, answer: string): string {
+  return lang === "zh"
+    ? `[用户回答 ask_followup_question]\n\n问题：${question}\n\n用户的回答：${answer}\n\n请基于用户的回答继续完成任务。`
+    : `[User Answer to ask_followup_question]\n\nQuestion: ${question}\n\nUser's answer: ${answer}\n\nPlease continue completing the task based on the user's answer.`;
+}
+
+/** 自检未通过时作为 attempt_completion 结果退回的消息 */
+function buildVerificationFeedback(lang: "zh" | "en", verdict: VerificationVerdict, threshold: number): string {
+  return lang === "zh"
+    ? `[答案校验未通过] 置信度 ${verdict.score.toFixed(2)}，低于阈值 ${threshold.toFixed(2)}。\n\n审核意见：${verdict.critique || "（无）"}\n\n请根据审核意见继续完成任务，必要时再使用工具，然后重新提交 attempt_completion。`
+    : `[Answer verification failed] Confidence ${verdict.score.toFixed(2)} is below the threshold ${threshold.toFixed(2)}.\n\nReviewer critique: ${verdict.critique || "(none)"}\n\nAddress the critique — use tools again if needed — and then resubmit with attempt_completion.`;
+}
+
+/** 工具结果 / 用户回答消息的前缀（完成前自检从对话中收集观察结果） */
+const OBSERVATION_PREFIXES = ["[Tool Use Result:", "[工具执行结果:", "[User Answer", "[用户回答"];
+
+/** 收集对话中的工具观察结果和用户回答（截断 / 摘要后只剩仍在上下文中的部分） */
+function collectObservations(messages: ChatMessage[]): string[] {
+  return messages.flatMap(m => {
+    if (typeof m.content !== "string") return [];
+    const isObservation = m.role === "tool"
+      || (m.role === "user" && OBSERVATION_PREFIXES.some(prefix => (m.content as string).startsWith(prefix)));
+    return isObservation ? [m.content] : [];
+  });
+}
+
+/**
+ * 无结构化输出时的 nudge 消息（照搬 Cline 的 noToolsUsed()）
+ * 连续无效响应达到上限时改为要求立即做出决定
+ */
+export function buildNudgeMessage(lang: "zh" | "en", nativeTools: boolean, consecutiveMistakeCount: number): string {
+  if (consecutiveMistakeCount >= MAX_CONSECUTIVE_MISTAKES) {
+    return lang === "zh"
+      ? `你已经连续 ${consecutiveMistakeCount} 次没有使用工具或 attempt_completion。\n\n请立刻决定：\n1. 如果任务已经完成，使用 attempt_completion 提交结果\n2. 如果还需要工具，使用正确的工具调用格式\n3. 如果需要更多信息，使用 ask_followup_question\n\n不要再输出纯文本——必须使用结构化格式。`
+      : `You have failed to use a tool or attempt_completion for ${consecutiveMistakeCount} consecutive responses.\n\nPlease immediately decide:\n1. If the task is complete, use attempt_completion to submit your result\n2. If you need a tool, use the correct tool call format\n3. If you need more information, use ask_followup_question\n\nDo NOT output plain text — you MUST use a structured format.`;
+  }
+  if (nativeTools) {
+    // 原生函数调用模式的 nudge：提示调用函数而非输出 XML
+    return lang === "zh"
+      ? `[错误] 你在上一次响应中没有调用任何工具！请通过函数调用重试。\n\n# 下一步\n- 如果任务已完成，调用 attempt_completion 提交结果\n- 如果需要更多信息，调用相应的工具函数\n- 如果需要用户提供信息，调用 ask_followup_question\n\n（这是自动提示消息，请勿以对话方式回应。）`
+      : `[ERROR] You did not call a tool in your previous response! Please retry with a function call.\n\n# Next Steps\n- If task is complete, call attempt_completion\n- If you need more information, call the appropriate tool function\n- If you need input from the user, call ask_followup_question\n\n(This is an automated message — do not respond conversationally.)`;
+  }
+  return lang === "zh"
+    ? `[错误] 你在上一次响应中没有使用工具！请用工具重试。\n\n# 工具使用格式提醒\n\n使用 XML 风格标签调用工具，工具名直接作为标签：\n\n<web_search>\n<query>关键词</query>\n</web_search>\n\n# 下一步\n- 如果任务已完成，使用 attempt_completion 提交结果\n- 如果需要更多信息，继续使用工具\n- 如果上一步已经完成了所有工作，用 attempt_completion 总结\n\n（这是自动提示消息，请勿以对话方式回应。）`
+    : `[ERROR] You did not use a tool in your previous response! Please retry with a tool use.\n\n# Reminder: Tool Use Format\n\nUse XML-style tags with the tool name as the tag:\n\n<web_search>\n<query>keywords</query>\n</web_search>\n\n# Next Steps\n- If task is complete, use attempt_completion\n- If you need more information, use a tool\n- If all work is done, summarize with attempt_completion\n\n(This is an automated message — do not respond conversationally.)`;
+}
+
 // ─── 指数退避重试 ─────────────────────────────────────────────────────────
 
 /**
@@ -697,44 +1175,78 @@ async function withExponentialBackoff<T>(
  * 6. 缺参数检测：必填参数缺失时不调用工具
  * 7. 指数退避重试：API 失败 2s→4s→8s 最多3次
  * 8. 工具结果格式：[Tool Use Result: xxx] 清晰区分工具结果和用户消息
+ * 9. 原生函数调用：toolCallMode = "native" 时以 tools 定义发送工具 Schema，
+ *    读取结构化 tool_calls 并以 tool 消息回传结果；没有 tool_calls 时回退到 XML 解析
+ * 10. 并行工具调用：一次响应中的多个工具调用并发执行，观察结果一起回传
+ * 11. 上下文摘要：contextStrategy = "summarize" 时被截断的中间消息先由 LLM 压缩为
+ *     结构化摘要再替换，摘要失败时回退到截断说明
+ * 12. 子 Agent 委派：config.delegation 存在时提供 delegate_task 工具，以受限工具列表、
+ *     迭代上限和 token 预算运行嵌套 AgentLoopExecutor，只把最终结果作为观察结果回传
+ * 13. 流式输出：注入 invokeLLMStream 时逐 token 调用 LLM，StreamingResponseParser 增量识别
+ *     思考 / 最终答案 / 工具调用标签并通过 onPartial 推送；完整响应到达后照常解析
+ * 14. 完成前自检：config.verification 存在时 attempt_completion 的答案先由校验模型打分，
+ *     低于 confidenceThreshold 时评语作为 attempt_completion 的结果退回，Agent 继续迭代
  */
 export class AgentLoopExecutor {
   private runId: string;
   private config: AgentLoopConfig;
   private invokeLLM: AgentLLMInvoker;
+  private invokeLLMStream?: AgentLLMStreamInvoker;
+  private invokeVerifier?: AgentLLMInvoker;
   private invokeTool: AgentToolInvoker;
   private onStep: AgentStepCallback;
+  private onPartial?: AgentPartialCallback;
   private onAskFollowup?: AskFollowupCallback;
+  private onToolApproval?: ToolApprovalCallback;
   private lang: "zh" | "en";
   private toolSchemas: ToolSchemaInfo[];
   private userRules?: string;
   private projectRules?: string;
   private signal?: AbortSignal;
+  private model?: string;
+  /** 本轮并行工具调用中子 Agent（delegate_task）的消耗，工具批次结束后计入总量 */
+  private delegatedUsage = { tokens: 0, costUsd: 0 };
 
   constructor(opts: {
     runId: string;
     config: AgentLoopConfig;
     invokeLLM: AgentLLMInvoker;
+    invokeLLMStream?: AgentLLMStreamInvoker;  // 流式调用（注入后主循环的 LLM 调用改为流式）
+    invokeVerifier?: AgentLLMInvoker;  // 完成前自检的校验模型（省略时复用 invokeLLM）
     invokeTool: AgentToolInvoker;
     onStep: AgentStepCallback;
+    onPartial?: AgentPartialCallback;  // 流式增量回调
     onAskFollowup?: AskFollowupCallback;  // AI 提问用户的回调
+    onToolApproval?: ToolApprovalCallback;  // 工具执行前的用户审批回调
     lang?: "zh" | "en";
     toolSchemas?: ToolSchemaInfo[];
     userRules?: string;
     projectRules?: string;
     signal?: AbortSignal;
+    model?: string;  // 模型名，用于选择上下文 token 计数的 Tokenizer
   }) {
     this.runId = opts.runId;
     this.config = opts.config;
     this.invokeLLM = opts.invokeLLM;
     this.invokeTool = opts.invokeTool;
     this.onStep = opts.onStep;
+    if (opts.invokeLLMStream !== undefined) this.invokeLLMStream = opts.invokeLLMStream;
+    if (opts.invokeVerifier !== undefined) this.invokeVerifier = opts.invokeVerifier;
+    if (opts.onPartial !== undefined) this.onPartial = opts.onPartial;
     if (opts.onAskFollowup !== undefined) this.onAskFollowup = opts.onAskFollowup;
+    if (opts.onToolApproval !== undefined) this.onToolApproval = opts.onToolApproval;
     this.lang = opts.lang ?? "zh";
     this.toolSchemas = opts.toolSchemas ?? [];
+    // 开启委派时把 delegate_task 加入可用工具（Schema 用于提示词、原生 tools 定义和缺参检测）
+    const { delegation } = opts.config;
+    if (delegation && !opts.config.availableTools.includes(DELEGATE_TASK_TOOL)) {
+      this.config = { ...opts.config, availableTools: [...opts.config.availableTools, DELEGATE_TASK_TOOL] };
+      this.toolSchemas = [...this.toolSchemas, buildDelegateTaskSchema(this.lang, delegation.maxIterations)];
+    }
     if (opts.userRules !== undefined) this.userRules = opts.userRules;
     if (opts.projectRules !== undefined) this.projectRules = opts.projectRules;
     if (opts.signal !== undefined) this.signal = opts.signal;
+    if (opts.model !== undefined) this.model = opts.model;
   }
 
   /**
@@ -752,6 +1264,47 @@ export class AgentLoopExecutor {
     task: string,
     imageUrls?: string[],
     initialMessages?: ChatMessage[],
+  ): Promise<AgentLoopResult & { finalMessages: ChatMessage[] }> {
+    // ── 初始化对话历史 ────────────────────────────────────────────────────
+    // 若有历史消息（多轮对话），先注入一条上下文说明，告知 LLM 存在历史上下文，
+    // 然后追加本轮用户消息。这样 LLM 能正确理解多轮对话的存在。
+    const messages = buildInitialMessages(this.lang, task, imageUrls, initialMessages);
+
+    log.info(
+      { runId: this.runId, task: task.slice(0, 80), historyCount: initialMessages?.length ?? 0 },
+      "AgentLoop execute() — injecting history messages"
+    );
+
+    return this.runLoop(messages, 0, task);
+  }
+
+  /**
+   * 从重建的对话历史继续执行（AgentLoop fork）
+   *
+   * @param messages 已包含原任务和前 startIteration 轮响应 / 观察结果的对话
+   * @param startIteration 已完成的迭代数，新迭代序号从 startIteration + 1 开始
+   * @param firstResponse 可选：作为下一轮的 LLM 响应直接处理（不调用 LLM），用于编辑某轮响应后重跑
+   * @param task 可选：原任务描述（完成前自检的评分依据，省略时不做自检）
+   */
+  async resume(
+    messages: ChatMessage[],
+    startIteration: number,
+    firstResponse?: string,
+    task?: string,
+  ): Promise<AgentLoopResult & { finalMessages: ChatMessage[] }> {
+    log.info(
+      { runId: this.runId, startIteration, messageCount: messages.length, editedResponse: firstResponse !== undefined },
+      "AgentLoop resume() — continuing from rebuilt history"
+    );
+    return this.runLoop([...messages], startIteration, task, firstResponse);
+  }
+
+  /** ReAct 主循环（execute / resume 共用） */
+  private async runLoop(
+    messages: ChatMessage[],
+    startIteration: number,
+    task: string | undefined,
+    firstResponse?: string,
   ): Promise<AgentLoopResult & { finalMessages: ChatMessage[] }> {
     const { config, runId } = this;
     const systemPrompt = buildAgentSystemPrompt(
@@ -761,58 +1314,29 @@ export class AgentLoopExecutor {
       this.toolSchemas,
       this.userRules,
       this.projectRules,
+      config.toolCallMode,
     );
-
-    // 构建本轮 user 消息（有图片时用多模态格式）
-    const newUserContent: ChatMessage["content"] =
-      imageUrls && imageUrls.length > 0
-        ? [
-            { type: "text", text: task },
-            ...imageUrls.map((url) => ({
-              type: "image_url" as const,
-              image_url: { url, detail: "auto" as const },
-            })),
-          ]
-        : task;
-
-    // ── 初始化对话历史 ────────────────────────────────────────────────────
-    // 若有历史消息（多轮对话），先注入一条 assistant 摘要说明，告知 LLM 存在历史上下文，
-    // 然后追加本轮用户消息。这样 LLM 能正确理解多轮对话的存在。
-    // 历史消息格式：[{role:"user", content: 上一轮任务}, {role:"assistant", content: 上一轮答案}, ...]
-    // 均为干净的"摘要对"，不含工具调用中间步骤，避免格式混乱。
-    const messages: ChatMessage[] = [];
-
-    if (initialMessages && initialMessages.length > 0) {
-      // 注入历史上下文（干净的摘要对：用户任务 + AI答案）
-      messages.push(...initialMessages);
-      // 告知 LLM 历史已注入，现在是新的一轮任务
-      const historyNotice = this.lang === "zh"
-        ? `[上下文说明] 以上是你与用户之前的对话历史（共 ${initialMessages.length} 条消息）。现在用户有了新的任务，请在理解历史上下文的基础上完成它。`
-        : `[Context Note] The above messages are your previous conversation history with the user (${initialMessages.length} messages). The user now has a new task — please complete it with awareness of the prior context.`;
-      messages.push({ role: "user", content: historyNotice });
-      messages.push({ role: "assistant", content: this.lang === "zh" ? "好的，我已了解历史对话内容，请告诉我新的任务。" : "Understood, I have reviewed the conversation history. Please share your new task." });
-    }
-
-    // 追加本轮用户新任务
-    messages.push({ role: "user", content: newUserContent });
-
-    log.info(
-      { runId, task: task.slice(0, 80), historyCount: initialMessages?.length ?? 0 },
-      "AgentLoop execute() — injecting history messages"
-    );
+    // 原生函数调用模式：每次 LLM 调用都携带 tools 定义
+    const nativeTools = config.toolCallMode === "native"
+      ? buildToolDefinitions(config.availableTools, this.toolSchemas, this.lang)
+      : undefined;
+    // 编辑后的响应只替代第一次 LLM 调用
+    let pendingResponse = firstResponse;
 
     const steps: AgentStep[] = [];
     let totalTokens = 0;
     let totalCostUsd = 0;
-    let iteration = 0;
+    let iteration = startIteration;
     let continueLoop = true;
     let finalAnswer = "";
+    let budgetExhausted = false;
 
     // Cline 风格：连续无效响应计数（达到上限触发特殊处理）
     let consecutiveMistakeCount = 0;
-    const MAX_CONSECUTIVE_MISTAKES = 3;
+    // 完成前自检已退回的次数（达到 maxRejections 后直接接受答案）
+    let verificationRejections = 0;
 
-    log.info({ runId, task: task.slice(0, 80), maxIterations: config.maxIterations }, "AgentLoop started");
+    log.info({ runId, startIteration, maxIterations: config.maxIterations }, "AgentLoop started");
 
     while (continueLoop && iteration < config.maxIterations) {
       // ── 取消检查 ───────────────────────────────────────────────────────
@@ -822,6 +1346,13 @@ export class AgentLoopExecutor {
         break;
       }
 
+      // ── token 预算检查（maxTotalTokens，子 Agent 必定设置）──────────────
+      if (config.maxTotalTokens !== undefined && totalTokens >= config.maxTotalTokens) {
+        log.warn({ runId, iteration, totalTokens, maxTotalTokens: config.maxTotalTokens }, "AgentLoop: token budget exhausted");
+        budgetExhausted = true;
+        break;
+      }
+
       iteration++;
       log.debug({ runId, iteration, consecutiveMistakeCount }, "AgentLoop iteration start");
 
@@ -836,13 +1367,16 @@ export class AgentLoopExecutor {
       this.onStep(runId, stepThinking);
 
       let llmResponse: string;
+      let toolCalls: LLMToolCall[] | undefined;
       let tokens = 0;
       let costUsd = 0;
+      let providerMeta: ProviderMeta | undefined;
 
       try {
         // ── Cline 风格上下文截断（getNextTruncationRange）─────────────
         const tokenBudget = Math.floor(config.maxTokens * 0.8);
-        const currentTokens = estimateTokens(messages);
+        // system prompt 同样占用上下文窗口，一并计入
+        const currentTokens = estimateTokens(messages, this.model) + countTextTokens(systemPrompt, this.model);
         log.debug({ runId, iteration, currentTokens, tokenBudget, messageCount: messages.length }, "[Context] Token check");
 
         if (currentTokens > tokenBudget && messages.length > 4) {
@@ -856,12 +1390,21 @@ export class AgentLoopExecutor {
             const removed = messages.splice(startIdx, endIdx - startIdx + 1);
             log.warn({ runId, iteration, removed: removed.length, keep, keep_count: messages.length }, "[Context] Truncated middle messages (Cline style)");
 
-            // 在 index 1（首次 assistant 消息）后注入截断说明
+            // 优先用 LLM 摘要替代被删除的消息；关闭或失败时注入截断说明
+            const summary = config.contextStrategy === "summarize"
+              ? await this.summarizeRemoved(removed, iteration)
+              : undefined;
+            if (summary) {
+              totalTokens += summary.tokens;
+              totalCostUsd += summary.costUsd;
+            }
+
+            // 在 index 1（首次 assistant 消息）后注入摘要 / 截断说明
             const notice: ChatMessage = {
               role: "assistant",
-              content: this.lang === "zh"
+              content: summary?.text ?? (this.lang === "zh"
                 ? "[注意] 为维持最优上下文窗口长度，部分历史对话已被移除。初始用户任务已保留以确保任务连续性，中间的历史操作已删除。"
-                : "[NOTE] Some previous conversation history has been removed to maintain optimal context window length. The initial user task has been retained for continuity, while intermediate history has been removed.",
+                : "[NOTE] Some previous conversation history has been removed to maintain optimal context window length. The initial user task has been retained for continuity, while intermediate history has been removed."),
             };
             // 找到第一条 assistant 消息的位置插入说明（通常在 index 1）
             const firstAssistantIdx = messages.findIndex(m => m.role === "assistant");
@@ -870,6 +1413,7 @@ export class AgentLoopExecutor {
             } else {
               messages.splice(1, 0, notice);
             }
+            repairToolCallPairs(messages);
           }
         }
 
@@ -882,20 +1426,27 @@ export class AgentLoopExecutor {
         }
 
         // ── 指数退避重试 LLM 调用（Cline 风格：2s→4s→8s，最多3次）──
-        const result = await withExponentialBackoff(
-          () => this.invokeLLM(systemPrompt, messages, {
-            temperature: config.temperature,
-            maxTokens: config.maxTokens,
-          }),
-          3,    // 最多3次重试
-          2000  // 初始延迟 2000ms
-        );
+        // fork 时编辑过的响应直接作为本轮输出，不调用 LLM
+        const result = pendingResponse !== undefined
+          ? { text: pendingResponse, tokens: 0, costUsd: 0 }
+          : await withExponentialBackoff(
+            () => this.callLLM(systemPrompt, messages, {
+              temperature: config.temperature,
+              maxTokens: config.maxTokens,
+              ...(nativeTools && { tools: nativeTools }),
+            }, stepIndex),
+            3,    // 最多3次重试
+            2000  // 初始延迟 2000ms
+          );
+        pendingResponse = undefined;
         llmResponse = result.text;
+        toolCalls = "toolCalls" in result ? result.toolCalls : undefined;
         tokens = result.tokens;
         costUsd = result.costUsd;
+        providerMeta = "providerMeta" in result ? result.providerMeta : undefined;
         totalTokens += tokens;
         totalCostUsd += costUsd;
-        log.debug({ runId, iteration, tokens, responseLength: llmResponse.length }, "LLM responded");
+        log.debug({ runId, iteration, tokens, responseLength: llmResponse.length, toolCalls: toolCalls?.length ?? 0 }, "LLM responded");
       } catch (err) {
         log.error({ runId, iteration, err }, "LLM invocation failed after all retries");
         const step: AgentStep = {
@@ -909,15 +1460,68 @@ export class AgentLoopExecutor {
         throw err;
       }
 
-      // 把 LLM 响应追加到对话历史
-      messages.push({ role: "assistant", content: llmResponse });
-
-      // 解析响应（传入 availableTools 以支持直接标签格式检测）
-      const parsed = parseAgentResponse(llmResponse, config.availableTools);
+      // 解析响应：优先读取原生 tool_calls，没有可识别的调用时回退到 XML 解析
+      // （传入 availableTools 以支持直接标签格式检测）
+      const nativeParsed = toolCalls && toolCalls.length > 0
+        ? parseToolCalls(toolCalls, llmResponse, config.availableTools)
+        : undefined;
+      const parsed: ReturnType<typeof parseAgentResponse> = nativeParsed ?? parseAgentResponse(llmResponse, config.availableTools);
+
+      // 把 LLM 响应追加到对话历史（只保留本轮实际处理的调用，保证 tool 结果成对）
+      messages.push({
+        role: "assistant",
+        content: llmResponse,
+        ...(nativeParsed && { toolCalls: nativeParsed.handledCalls }),
+      });
+
+      // 本轮 LLM 响应信息：之后各阶段的步骤都携带（持久化与 fork 依赖完整响应）
+      const responseInfo: AgentResponseInfo = {
+        thought: parsed.thinking,
+        response: llmResponse,
+        tokens,
+        costUsd,
+        ...(nativeParsed && { toolCalls: nativeParsed.handledCalls }),
+        ...(providerMeta && { providerMeta }),
+      };
 
       // ── 情况 1：attempt_completion → 终止循环 ─────────────────────
       // 注意：用 !== undefined 判断，空字符串也是有效的 finalAnswer（Cline 修复）
       if (parsed.finalAnswer !== undefined) {
+        // 完成前自检：得分低于阈值时评语作为 attempt_completion 的结果退回（fork 按工具观察结果重建）
+        const { verification } = config;
+        if (verification && task !== undefined && verificationRejections < verification.maxRejections) {
+          const verdict = await this.verifyCompletion(task, parsed.finalAnswer, messages, iteration);
+          totalTokens += verdict.tokens;
+          totalCostUsd += verdict.costUsd;
+          const threshold = verification.guardrails.confidenceThreshold;
+          if (verdict.score < threshold) {
+            verificationRejections++;
+            consecutiveMistakeCount = 0;
+            const completionCall = nativeParsed?.handledCalls[0];
+            const feedback = buildVerificationFeedback(this.lang, verdict, threshold);
+
+            const rejectedStep: AgentStep = {
+              index: stepIndex,
+              ...responseInfo,
+              toolName: "attempt_completion",
+              toolInput: { result: parsed.finalAnswer, score: verdict.score },
+              observation: feedback,
+              ...(completionCall && { toolCallId: completionCall.id }),
+              status: "observing",
+            };
+            steps.push(rejectedStep);
+            this.onStep(runId, rejectedStep);
+
+            messages.push(...buildToolResultMessages(this.lang, [{
+              toolName: "attempt_completion",
+              observation: feedback,
+              toolCallId: completionCall?.id,
+            }]));
+            log.info({ runId, iteration, score: verdict.score, threshold, rejections: verificationRejections }, "AgentLoop: answer rejected by verifier");
+            continue;
+          }
+        }
+
         finalAnswer = formatOutput(parsed.finalAnswer, {
           fixCodeBlocks: true,
           normalizeWhitespace: true,
@@ -927,10 +1531,9 @@ export class AgentLoopExecutor {
 
         const step: AgentStep = {
           index: stepIndex,
-          thought: parsed.thinking,
+          ...responseInfo,
           finalAnswer: parsed.finalAnswer,
           status: "done",
-          tokens,
         };
         steps.push(step);
         this.onStep(runId, step);
@@ -950,11 +1553,10 @@ export class AgentLoopExecutor {
         // 通知 UI 显示提问气泡
         const askStep: AgentStep = {
           index: stepIndex,
-          thought: parsed.thinking,
+          ...responseInfo,
           toolName: "ask_followup_question",
           toolInput: { question, options },
           status: "acting",
-          tokens,
         };
         steps.push(askStep);
         this.onStep(runId, askStep);
@@ -976,20 +1578,20 @@ export class AgentLoopExecutor {
         log.info({ runId, iteration, answerLength: userAnswer.length }, "AgentLoop: user answered followup question");
 
         // 将用户回答注入到对话历史，继续 loop
-        const answerMsg = this.lang === "zh"
-          ? `[用户回答 ask_followup_question]\n\n问题：${question}\n\n用户的回答：${userAnswer}\n\n请基于用户的回答继续完成任务。`
-          : `[User Answer to ask_followup_question]\n\nQuestion: ${question}\n\nUser's answer: ${userAnswer}\n\nPlease continue completing the task based on the user's answer.`;
-        messages.push({ role: "user", content: answerMsg });
+        messages.push(buildReplyMessage(
+          nativeParsed?.handledCalls[0]?.id,
+          buildFollowupAnswerMessage(this.lang, question, userAnswer),
+        ));
 
         // 更新步骤状态为 observing（显示用户的回答）
         const answerStep: AgentStep = {
           index: stepIndex,
-          thought: parsed.thinking,
+          ...responseInfo,
           toolName: "ask_followup_question",
           toolInput: { question, options },
           observation: userAnswer,
+          ...(nativeParsed?.handledCalls[0] && { toolCallId: nativeParsed.handledCalls[0].id }),
           status: "observing",
-          tokens,
         };
         const askStepIdx = steps.findIndex(s => s.index === stepIndex && s.status === "acting");
         if (askStepIdx >= 0) {
@@ -1002,86 +1604,36 @@ export class AgentLoopExecutor {
         continue; // 继续下一轮循环（携带用户回答）
       }
 
-      // ── 情况 3：工具调用 ────────────────────────────────────────────
-      if (parsed.toolName) {
-        consecutiveMistakeCount = 0; // 有效的工具调用，重置计数
+      // ── 情况 3：工具调用（同一轮的多个调用并行执行）─────────────────
+      if (parsed.toolUses && parsed.toolUses.length > 0) {
+        const toolUses = parsed.toolUses;
 
-        // ── 缺参数检测（Cline 风格）──────────────────────────────────
-        const missingParams = getMissingRequiredParams(
-          parsed.toolName,
-          parsed.toolInput,
-          this.toolSchemas
+        // ── 缺参数检测（Cline 风格）：缺参的调用不执行，以提示代替工具结果 ──
+        const missingByUse = toolUses.map(use =>
+          getMissingRequiredParams(use.toolName, use.toolInput, this.toolSchemas)
         );
-
-        if (missingParams.length > 0) {
-          // 缺少必填参数：注入提示，要求 LLM 提供缺失参数或向用户询问
-          log.warn({ runId, iteration, toolName: parsed.toolName, missingParams }, "Tool called with missing required params");
-
-          const missingParamMsg = this.lang === "zh"
-            ? `工具 "${parsed.toolName}" 被调用时缺少必填参数：${missingParams.join(", ")}。\n请提供这些参数后重新调用，或者使用合理的默认值。如果需要用户提供这些信息，请先向用户提问。`
-            : `Tool "${parsed.toolName}" was called without required parameters: ${missingParams.join(", ")}.\nPlease provide these parameters and retry, or use reasonable defaults. If you need the user to provide this information, ask them first.`;
-          messages.push({ role: "user", content: missingParamMsg });
-
-          const missingStep: AgentStep = {
-            index: stepIndex,
-            thought: parsed.thinking,
-            toolName: parsed.toolName,
-            status: "thinking",
-            tokens,
-          };
-          steps.push(missingStep);
-          this.onStep(runId, missingStep);
-          consecutiveMistakeCount++; // 缺参数算一次错误
-          continue;
+        consecutiveMistakeCount = 0; // 有效的工具调用，重置计数
+        if (missingByUse.every(missing => missing.length > 0)) {
+          consecutiveMistakeCount++; // 全部缺参数算一次错误
         }
 
-        // 通知 UI：正在行动（acting 状态）
-        const stepActing: AgentStep = {
-          index: stepIndex,
-          thought: parsed.thinking,
-          toolName: parsed.toolName,
-          toolInput: parsed.toolInput,
-          status: "acting",
-          tokens,
-        };
-        steps.push(stepActing);
-        this.onStep(runId, stepActing);
-
-        log.info({ runId, iteration, toolName: parsed.toolName }, "AgentLoop: invoking tool");
-
-        let observation: string;
-        try {
-          observation = await this.invokeTool(parsed.toolName, parsed.toolInput);
-          log.debug({ runId, iteration, toolName: parsed.toolName, observationLength: observation.length }, "Tool returned");
-        } catch (err) {
-          observation = `Tool "${parsed.toolName}" failed: ${(err as Error).message}`;
-          log.warn({ runId, iteration, toolName: parsed.toolName, err }, "Tool invocation failed");
-        }
+        log.info({ runId, iteration, tools: toolUses.map(u => u.toolName) }, "AgentLoop: invoking tools");
 
-        // 通知 UI：已观察到结果（observing 状态）
-        const stepObserving: AgentStep = {
-          index: stepIndex,
-          thought: parsed.thinking,
-          toolName: parsed.toolName,
-          toolInput: parsed.toolInput,
-          observation,
-          status: "observing",
-          tokens,
-        };
-        const lastIdx = steps.findIndex(s => s.index === stepIndex && s.status === "acting");
-        if (lastIdx >= 0) {
-          steps[lastIdx] = stepObserving;
-        } else {
-          steps.push(stepObserving);
-        }
-        this.onStep(runId, stepObserving);
+        const observations = await Promise.all(toolUses.map((use, i) =>
+          this.runToolUse(use, i, missingByUse[i]!, stepIndex, responseInfo, steps)
+        ));
+        // 子 Agent 的消耗计入本循环（预算检查包含子 Agent）
+        totalTokens += this.delegatedUsage.tokens;
+        totalCostUsd += this.delegatedUsage.costUsd;
+        this.delegatedUsage = { tokens: 0, costUsd: 0 };
 
         // ── 工具结果注入（Cline 风格：[Tool Use Result: xxx]）─────────
         // 比 "## Tool Use:" 格式更清晰地区分工具结果和用户消息
-        const observationMsg = this.lang === "zh"
-          ? `[工具执行结果: ${parsed.toolName}]\n\n${observation}\n\n基于以上工具执行结果，决定下一步行动。如果任务已完成，使用 attempt_completion 提交最终结果。`
-          : `[Tool Use Result: ${parsed.toolName}]\n\n${observation}\n\nBased on the above result, decide your next action. Use attempt_completion if the task is complete.`;
-        messages.push({ role: "user", content: observationMsg });
+        messages.push(...buildToolResultMessages(this.lang, toolUses.map((use, i) => ({
+          toolName: use.toolName,
+          observation: observations[i]!,
+          toolCallId: use.toolCall?.id,
+        }))));
 
         continue; // 继续下一轮循环
       }
@@ -1093,38 +1645,36 @@ export class AgentLoopExecutor {
         response: llmResponse.slice(0, 150)
       }, "AgentLoop: no structured response, nudging LLM");
 
-      // 连续错误过多：提示卡住
+      // 连续错误过多时提示卡住；原生模式提示调用函数而非输出 XML
       if (consecutiveMistakeCount >= MAX_CONSECUTIVE_MISTAKES) {
         log.error({ runId, iteration, consecutiveMistakeCount }, "AgentLoop: too many consecutive mistakes, forcing completion");
-        const tooManyMistakesMsg = this.lang === "zh"
-          ? `你已经连续 ${consecutiveMistakeCount} 次没有使用工具或 attempt_completion。\n\n请立刻决定：\n1. 如果任务已经完成，使用 attempt_completion 提交结果\n2. 如果还需要工具，使用正确的工具调用格式\n3. 如果需要更多信息，使用 ask_followup_question\n\n不要再输出纯文本——必须使用结构化格式。`
-          : `You have failed to use a tool or attempt_completion for ${consecutiveMistakeCount} consecutive responses.\n\nPlease immediately decide:\n1. If the task is complete, use attempt_completion to submit your result\n2. If you need a tool, use the correct tool call format\n3. If you need more information, use ask_followup_question\n\nDo NOT output plain text — you MUST use a structured format.`;
-        messages.push({ role: "user", content: tooManyMistakesMsg });
-      } else {
-        // 普通 nudge（照搬 Cline 的 noToolsUsed() 消息）
-        const nudge = this.lang === "zh"
-          ? `[错误] 你在上一次响应中没有使用工具！请用工具重试。\n\n# 工具使用格式提醒\n\n使用 XML 风格标签调用工具，工具名直接作为标签：\n\n<web_search>\n<query>关键词</query>\n</web_search>\n\n# 下一步\n- 如果任务已完成，使用 attempt_completion 提交结果\n- 如果需要更多信息，继续使用工具\n- 如果上一步已经完成了所有工作，用 attempt_completion 总结\n\n（这是自动提示消息，请勿以对话方式回应。）`
-          : `[ERROR] You did not use a tool in your previous response! Please retry with a tool use.\n\n# Reminder: Tool Use Format\n\nUse XML-style tags with the tool name as the tag:\n\n<web_search>\n<query>keywords</query>\n</web_search>\n\n# Next Steps\n- If task is complete, use attempt_completion\n- If you need more information, use a tool\n- If all work is done, summarize with attempt_completion\n\n(This is an automated message — do not respond conversationally.)`;
-        messages.push({ role: "user", content: nudge });
       }
+      messages.push({ role: "user", content: buildNudgeMessage(this.lang, nativeTools !== undefined, consecutiveMistakeCount) });
 
       const nudgeStep: AgentStep = {
         index: stepIndex,
+        ...responseInfo,
         thought: parsed.thinking || llmResponse.slice(0, 200),
         status: "thinking",
-        tokens,
       };
       steps.push(nudgeStep);
       this.onStep(runId, nudgeStep);
     }
 
-    // ── 超过最大迭代次数：强制总结 ─────────────────────────────────────
-    if (!finalAnswer && iteration >= config.maxIterations) {
-      log.warn({ runId, iteration, maxIterations: config.maxIterations }, "AgentLoop: max iterations reached, forcing summary");
-
-      const forceMsg = this.lang === "zh"
-        ? "你已达到最大迭代次数。请立刻使用 attempt_completion 给出目前最好的结果，即使不完整也要给出。\n\n<attempt_completion>\n<result>\n你目前完成的内容...\n</result>\n</attempt_completion>"
-        : "Maximum iterations reached. Please immediately use attempt_completion to provide your best result so far, even if incomplete.\n\n<attempt_completion>\n<result>\nYour best result so far...\n</result>\n</attempt_completion>";
+    // ── 超过最大迭代次数 / 用尽 token 预算：强制总结 ───────────────────────
+    if (!finalAnswer && (iteration >= config.maxIterations || budgetExhausted)) {
+      log.warn({ runId, iteration, maxIterations: config.maxIterations, budgetExhausted }, "AgentLoop: limit reached, forcing summary");
+
+      const limitReached = budgetExhausted
+        ? (this.lang === "zh" ? "你已用尽 token 预算" : "Token budget exhausted")
+        : (this.lang === "zh" ? "你已达到最大迭代次数" : "Maximum iterations reached");
+      const forceMsg = nativeTools
+        ? (this.lang === "zh"
+          ? `${limitReached}。请立刻调用 attempt_completion 给出目前最好的结果，即使不完整也要给出。`
+          : `${limitReached}. Please immediately call attempt_completion to provide your best result so far, even if incomplete.`)
+        : this.lang === "zh"
+          ? `${limitReached}。请立刻使用 attempt_completion 给出目前最好的结果，即使不完整也要给出。\n\n<attempt_completion>\n<result>\n你目前完成的内容...\n</result>\n</attempt_completion>`
+          : `${limitReached}. Please immediately use attempt_completion to provide your best result so far, even if incomplete.\n\n<attempt_completion>\n<result>\nYour best result so far...\n</result>\n</attempt_completion>`;
       messages.push({ role: "user", content: forceMsg });
 
       try {
@@ -1132,11 +1682,14 @@ export class AgentLoopExecutor {
           () => this.invokeLLM(systemPrompt, messages, {
             temperature: 0.3,
             maxTokens: 12288,
+            // 强制总结时只允许调用 attempt_completion
+            ...(nativeTools && { tools: [buildCompletionToolDefinition(this.lang)] }),
           }),
           2, // 强制总结时只重试2次
           1000
         );
-        const forcedParsed = parseAgentResponse(result.text, config.availableTools);
+        const forcedParsed = (result.toolCalls && parseToolCalls(result.toolCalls, result.text))
+          ?? parseAgentResponse(result.text, config.availableTools);
         // 用 !== undefined 判断，兼容空字符串（Cline 风格修复）
         finalAnswer = forcedParsed.finalAnswer !== undefined ? forcedParsed.finalAnswer : result.text;
         totalTokens += result.tokens;
@@ -1144,10 +1697,13 @@ export class AgentLoopExecutor {
 
         const forcedStep: AgentStep = {
           index: iteration + 1,
-          thought: this.lang === "zh" ? "达到最大迭代次数，强制输出最终答案" : "Max iterations reached, forcing final answer",
+          thought: this.lang === "zh" ? `${limitReached}，强制输出最终答案` : `${limitReached}, forcing final answer`,
+          response: result.text,
           finalAnswer,
           status: "done",
           tokens: result.tokens,
+          costUsd: result.costUsd,
+          ...(result.toolCalls && { toolCalls: result.toolCalls }),
         };
         steps.push(forcedStep);
         this.onStep(runId, forcedStep);
@@ -1179,6 +1735,291 @@ export class AgentLoopExecutor {
     };
   }
 
+  /**
+   * 执行单个工具调用并推送 acting / observing 步骤，返回回传给 LLM 的观察结果
+   * 缺少必填参数时不调用工具，返回提示消息（要求 LLM 补全参数或向用户询问）
+   * requireApproval 中的工具先经用户审批；被拒绝时不调用工具，拒绝说明作为观察结果
+   */
+  private async runToolUse(
+    use: AgentToolUse,
+    callIndex: number,
+    missingParams: string[],
+    stepIndex: number,
+    responseInfo: AgentResponseInfo,
+    steps: AgentStep[]
+  ): Promise<string> {
+    const { runId } = this;
+    const { toolName } = use;
+    let { toolInput } = use;
+
+    if (missingParams.length > 0) {
+      log.warn({ runId, stepIndex, toolName, missingParams }, "Tool called with missing required params");
+
+      const hint = this.lang === "zh"
+        ? `工具 "${toolName}" 被调用时缺少必填参数：${missingParams.join(", ")}。\n请提供这些参数后重新调用，或者使用合理的默认值。如果需要用户提供这些信息，请先向用户提问。`
+        : `Tool "${toolName}" was called without required parameters: ${missingParams.join(", ")}.\nPlease provide these parameters and retry, or use reasonable defaults. If you need the user to provide this information, ask them first.`;
+      const missingStep: AgentStep = {
+        index: stepIndex,
+        ...responseInfo,
+        toolName,
+        toolInput,
+        observation: hint,
+        ...(use.toolCall && { toolCallId: use.toolCall.id }),
+        toolCallIndex: callIndex,
+        status: "thinking",
+      };
+      steps.push(missingStep);
+      this.onStep(runId, missingStep);
+
+      return hint;
+    }
+
+    // ── 工具审批（没有注入回调时不拦截，与 ask_followup_question 一致）──
+    if (this.onToolApproval && this.config.requireApproval.includes(toolName)) {
+      let decision: ToolApprovalDecision;
+      try {
+        decision = await this.onToolApproval(runId, toolName, toolInput);
+      } catch {
+        // 用户取消或超时：按拒绝处理
+        decision = { action: "reject" };
+      }
+      log.info({ runId, stepIndex, toolName, action: decision.action }, "AgentLoop: tool approval decided");
+
+      if (decision.action === "reject") {
+        const { reason } = decision;
+        const observation = this.lang === "zh"
+          ? `用户拒绝执行工具 "${toolName}"${reason ? `，原因：${reason}` : "。"}\n不要重复相同的调用；请根据用户意见调整方案，或使用 ask_followup_question 询问用户。`
+          : `The user rejected the "${toolName}" tool call${reason ? `: ${reason}` : "."}\nDo not retry the same call; adjust your approach based on the user's feedback, or ask the user with ask_followup_question.`;
+        const rejectedStep: AgentStep = {
+          index: stepIndex,
+          ...responseInfo,
+          toolName,
+          toolInput,
+          observation,
+          ...(use.toolCall && { toolCallId: use.toolCall.id }),
+          toolCallIndex: callIndex,
+          status: "observing",
+        };
+        steps.push(rejectedStep);
+        this.onStep(runId, rejectedStep);
+        return observation;
+      }
+      if (decision.action === "edit") toolInput = decision.toolInput;
+    }
+
+    // 通知 UI：正在行动（acting 状态）
+    const stepActing: AgentStep = {
+      index: stepIndex,
+      ...responseInfo,
+      toolName,
+      toolInput,
+      status: "acting",
+    };
+    steps.push(stepActing);
+    this.onStep(runId, stepActing);
+
+    let observation: string;
+    try {
+      observation = toolName === DELEGATE_TASK_TOOL && this.config.delegation
+        ? await this.delegateTask(toolInput, stepIndex)
+        : await this.invokeTool(toolName, toolInput);
+      log.debug({ runId, stepIndex, toolName, observationLength: observation.length }, "Tool returned");
+    } catch (err) {
+      observation = `Tool "${toolName}" failed: ${(err as Error).message}`;
+      log.warn({ runId, stepIndex, toolName, err }, "Tool invocation failed");
+    }
+
+    // 通知 UI：已观察到结果（observing 状态）
+    // 同一迭代可能有多个并行调用，按对象引用替换本调用的 acting 步骤
+    const stepObserving: AgentStep = {
+      index: stepIndex,
+      ...responseInfo,
+      toolName,
+      toolInput,
+      observation,
+      ...(use.toolCall && { toolCallId: use.toolCall.id }),
+      toolCallIndex: callIndex,
+      status: "observing",
+    };
+    const actingIdx = steps.indexOf(stepActing);
+    if (actingIdx >= 0) {
+      steps[actingIdx] = stepObserving;
+    } else {
+      steps.push(stepObserving);
+    }
+    this.onStep(runId, stepObserving);
+
+    return observation;
+  }
+
+  /**
+   * delegate_task：以受限工具列表、迭代上限和 token 预算运行嵌套 AgentLoopExecutor
+   * 子 Agent 共享 LLM / 工具 / 审批回调和取消信号，步骤带上 parentPath 经父 Agent 的 onStep 推送；
+   * 只有子 Agent 的最终结果作为观察结果返回，中间过程不进入父 Agent 的上下文
+   */
+  private async delegateTask(toolInput: unknown, stepIndex: number): Promise<string> {
+    const delegation = this.config.delegation!;
+    const input = (typeof toolInput === "object" && toolInput !== null)
+      ? toolInput as Record<string, unknown>
+      : {};
+    const task = String(input["task"] ?? "");
+
+    // 工具只能是父 Agent 可用工具的子集；不能委派的层级不提供 delegate_task
+    const parentTools = this.config.availableTools.filter(t => t !== DELEGATE_TASK_TOOL);
+    const requestedTools = parseToolList(input["tools"]);
+    const tools = requestedTools ? parentTools.filter(t => requestedTools.includes(t)) : parentTools;
+    const requestedIterations = Number(input["max_iterations"]);
+    const maxIterations = Number.isInteger(requestedIterations) && requestedIterations > 0
+      ? Math.min(requestedIterations, delegation.maxIterations)
+      : delegation.maxIterations;
+
+    // 子 Agent 的结果由父 Agent 继续使用，不单独做完成前自检
+    const { delegation: _delegation, verification: _verification, ...parentConfig } = this.config;
+    const childConfig: AgentLoopConfig = {
+      ...parentConfig,
+      systemPrompt: `${this.config.systemPrompt}\n\n${this.lang === "zh"
+        ? "你是主 Agent 委派的子 Agent，只负责完成下面的子任务。主 Agent 只能看到你通过 attempt_completion 提交的结果，请让结果完整、简洁、可直接使用。"
+        : "You are a sub-agent delegated by the main agent and are responsible only for the subtask below. The main agent only sees the result you submit with attempt_completion, so make it complete, concise and directly usable."}`,
+      availableTools: tools,
+      maxIterations,
+      maxTotalTokens: delegation.maxTotalTokens,
+      ...(delegation.maxDepth > 1 && { delegation: { ...delegation, maxDepth: delegation.maxDepth - 1 } }),
+    };
+
+    log.info({ runId: this.runId, stepIndex, tools, maxIterations, maxTotalTokens: delegation.maxTotalTokens }, "AgentLoop: delegating task to sub-agent");
+
+    const child = new AgentLoopExecutor({
+      runId: this.runId,
+      config: childConfig,
+      invokeLLM: this.invokeLLM,
+      ...(this.invokeLLMStream && { invokeLLMStream: this.invokeLLMStream }),
+      invokeTool: this.invokeTool,
+      onStep: (rId, step) => this.onStep(rId, { ...step, parentPath: [stepIndex, ...(step.parentPath ?? [])] }),
+      ...(this.onPartial && {
+        onPartial: (rId: string, partial: AgentPartial) =>
+          this.onPartial!(rId, { ...partial, parentPath: [stepIndex, ...(partial.parentPath ?? [])] }),
+      }),
+      ...(this.onAskFollowup && { onAskFollowup: this.onAskFollowup }),
+      ...(this.onToolApproval && { onToolApproval: this.onToolApproval }),
+      lang: this.lang,
+      toolSchemas: this.toolSchemas.filter(s => s.name !== DELEGATE_TASK_TOOL),
+      ...(this.userRules !== undefined && { userRules: this.userRules }),
+      ...(this.projectRules !== undefined && { projectRules: this.projectRules }),
+      ...(this.signal && { signal: this.signal }),
+      ...(this.model !== undefined && { model: this.model }),
+    });
+    const result = await child.execute(task);
+    this.delegatedUsage.tokens += result.totalTokens;
+    this.delegatedUsage.costUsd += result.totalCostUsd;
+
+    return this.lang === "zh"
+      ? `[子 Agent 结果]（${result.iterations} 轮迭代，${result.totalTokens} tokens）\n\n${result.finalAnswer}`
+      : `[Sub-agent result] (${result.iterations} iterations, ${result.totalTokens} tokens)\n\n${result.finalAnswer}`;
+  }
+
+  /**
+   * 主循环的 LLM 调用：注入 invokeLLMStream 时流式调用并推送增量事件，否则一次性调用
+   * 流式调用中途失败时由外层 withExponentialBackoff 整体重试（增量事件的 text 为累计值，重试后 UI 直接覆盖）
+   */
+  private async callLLM(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: { temperature?: number; maxTokens?: number; tools?: LLMToolDefinition[] },
+    stepIndex: number,
+  ): Promise<{ text: string; tokens: number; costUsd: number; toolCalls?: LLMToolCall[]; providerMeta?: ProviderMeta }> {
+    if (!this.invokeLLMStream) {
+      return this.invokeLLM(systemPrompt, messages, options);
+    }
+
+    const parser = new StreamingResponseParser(this.config.availableTools);
+    let tokens = 0;
+    let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
+    let providerMeta: ProviderMeta | undefined;
+    for await (const event of this.invokeLLMStream(systemPrompt, messages, options)) {
+      if (this.signal?.aborted) break;
+      for (const delta of parser.push(event.token)) {
+        this.onPartial?.(this.runId, { ...delta, index: stepIndex });
+      }
+      if (event.done) {
+        tokens = event.usage?.totalTokens ?? tokens;
+        costUsd = event.costUsd ?? costUsd;
+        toolCalls = event.toolCalls;
+        providerMeta = event.providerMeta;
+      }
+    }
+    return { text: parser.text, tokens, costUsd, ...(toolCalls && { toolCalls }), ...(providerMeta && { providerMeta }) };
+  }
+
+  /**
+   * 用 LLM 把截断移出的消息压缩为结构化摘要
+   * 多模态内容只保留文本，原生工具调用展开为 name(arguments)；
+   * 摘要调用失败时返回 undefined，由调用方回退到截断说明
+   */
+  private async summarizeRemoved(
+    removed: ChatMessage[],
+    iteration: number
+  ): Promise<{ text: string; tokens: number; costUsd: number } | undefined> {
+    let tokens = 0;
+    let costUsd = 0;
+    const transcript = removed.map(m => {
+      const text = typeof m.content === "string"
+        ? m.content
+        : m.content.map(p => p.type === "text" ? p.text : "[image]").join("\n");
+      const calls = m.toolCalls?.map(c => `[tool_call] ${c.name}(${JSON.stringify(c.arguments)})`) ?? [];
+      return { role: m.role, content: [text, ...calls].filter(Boolean).join("\n") };
+    });
+
+    try {
+      const text = await summarizeContext(transcript, async (instruction, input) => {
+        const result = await this.invokeLLM(instruction, [{ role: "user", content: input }], {
+          temperature: 0,
+          maxTokens: SUMMARY_MAX_TOKENS,
+        });
+        tokens += result.tokens;
+        costUsd += result.costUsd;
+        return result.text;
+      }, this.lang);
+      log.info({ runId: this.runId, iteration, summarized: removed.length, tokens }, "[Context] Summarized removed messages");
+      return { text, tokens, costUsd };
+    } catch (err) {
+      log.warn({ runId: this.runId, iteration, err }, "[Context] Summarization failed, falling back to truncation notice");
+      return undefined;
+    }
+  }
+
+  /**
+   * 完成前自检：用校验模型对照任务和当前上下文中的观察结果为答案打分
+   * 校验调用失败或输出无法解析时按通过处理（score = 1），已消耗的 token 仍计入
+   */
+  private async verifyCompletion(
+    task: string,
+    answer: string,
+    messages: ChatMessage[],
+    iteration: number
+  ): Promise<VerificationVerdict & { tokens: number; costUsd: number }> {
+    const invoke = this.invokeVerifier ?? this.invokeLLM;
+    let tokens = 0;
+    let costUsd = 0;
+
+    try {
+      const verdict = await verifyAnswer({ task, answer, observations: collectObservations(messages) }, async (instruction, input) => {
+        const result = await invoke(instruction, [{ role: "user", content: input }], {
+          temperature: 0,
+          maxTokens: VERIFY_MAX_TOKENS,
+        });
+        tokens += result.tokens;
+        costUsd += result.costUsd;
+        return result.text;
+      }, this.lang);
+      log.info({ runId: this.runId, iteration, score: verdict.score, tokens }, "[Verify] Final answer graded");
+      return { ...verdict, tokens, costUsd };
+    } catch (err) {
+      log.warn({ runId: this.runId, iteration, err }, "[Verify] Verification failed, accepting answer");
+      return { score: 1, critique: "", tokens, costUsd };
+    }
+  }
+
   /** 生成步骤唯一 ID */
   static genStepId(runId: string, index: number): string {
     return `${runId}_step${index}_${nanoid(6)}`;
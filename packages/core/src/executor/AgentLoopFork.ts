@@ -0,0 +1,215 @@
+﻿import { nanoid } from "nanoid";
+import type { AgentStep, LLMToolCall } from "@omega/shared";
+import type { StepRepository } from "@omega/db";
+import type { EventRepository } from "@omega/db";
+import type { ChatMessage } from "./AgentLoopExecutor.js";
+import {
+  buildInitialMessages,
+  buildReplyMessage,
+  buildToolResultMessages,
+  buildFollowupAnswerMessage,
+  buildNudgeMessage,
+} from "./AgentLoopExecutor.js";
+import { parseAgentLoopEvent } from "./AgentLoopRecorder.js";
+import type { AgentLoopEventRecord } from "./AgentLoopRecorder.js";
+
+/** 顶层迭代的节点 ID（子 Agent 迭代为 agent_step_1_2 形式，不参与重建） */
+const TOP_LEVEL_NODE_ID = /^agent_step_(\d+)$/;
+
+type ObservationRecord = Extract<AgentLoopEventRecord, { kind: "observation" }>;
+
+/** 从 events 表还原的一轮顶层迭代 */
+export interface AgentLoopIteration {
+  /** 迭代序号（从 1 开始） */
+  index: number;
+  stepId: string;
+  /** 本轮完整的 assistant 响应（LLM 调用失败的迭代没有） */
+  response?: { text: string; thought?: string | undefined; toolCalls?: LLMToolCall[] | undefined };
+  /** 工具调用的观察结果（按工具调用在响应中的顺序，与执行时回传的工具结果一致） */
+  observations: ObservationRecord[];
+  /** attempt_completion 的最终答案 */
+  finalAnswer?: string;
+}
+
+/**
+ * Fork 时对第 N 轮的编辑
+ *   - response    — 替换第 N 轮的模型响应（不再调用 LLM，直接按新响应解析执行）
+ *   - observation — 替换第 N 轮第 index 个观察结果，从第 N + 1 轮继续
+ */
+export interface AgentLoopForkEdit {
+  response?: string;
+  observation?: { index: number; text: string };
+}
+
+/** planAgentLoopFork 参数：原 Run 的任务上下文 + 分叉位置 */
+export interface AgentLoopForkOptions {
+  /** 从第几轮分叉（从 1 开始） */
+  iteration: number;
+  edit?: AgentLoopForkEdit;
+  lang: "zh" | "en";
+  /** 原 Run 的完整任务（已合并附件内容） */
+  task: string;
+  imageUrls?: string[];
+  /** 原 Run 注入的多轮历史 */
+  history?: ChatMessage[];
+  /** 原 Run 的工具调用协议（决定 nudge 消息的措辞） */
+  toolCallMode?: "xml" | "native";
+}
+
+/** Fork 计划：传给 AgentLoopExecutor.resume() 的参数 + 需要从父 Run 继承的迭代数 */
+export interface AgentLoopForkPlan {
+  messages: ChatMessage[];
+  startIteration: number;
+  firstResponse?: string;
+  /** 分叉起点 Step（第 N 轮，记录为 runs.forkFromStepId） */
+  fromStepId: string;
+  /** 原样继承的迭代数（第 1..inheritedIterations 轮） */
+  inheritedIterations: number;
+  /** 编辑观察结果时重建的第 N 轮步骤（调用方需经 onStep 通知 UI 并记录） */
+  seededSteps: AgentStep[];
+}
+
+/**
+ * 读取 AgentLoop Run 的顶层迭代（AgentLoopRecorder 写入的 steps / events）
+ * 子 Agent 的迭代只体现为父步骤上 delegate_task 的观察结果，不单独返回
+ */
+export function loadAgentLoopIterations(
+  runId: string,
+  stepRepo: StepRepository,
+  eventRepo: EventRepository,
+): AgentLoopIteration[] {
+  const iterations: AgentLoopIteration[] = [];
+  for (const step of stepRepo.findByRunId(runId)) {
+    const match = TOP_LEVEL_NODE_ID.exec(step.nodeId);
+    if (!match) continue;
+
+    const iteration: AgentLoopIteration = { index: Number(match[1]), stepId: step.stepId, observations: [] };
+    for (const event of eventRepo.findByStepId(step.stepId)) {
+      const record = parseAgentLoopEvent(event);
+      if (record?.kind === "response") {
+        iteration.response = { text: record.text, thought: record.thought, toolCalls: record.toolCalls };
+      } else if (record?.kind === "observation") {
+        iteration.observations.push(record);
+      } else if (record?.kind === "answer") {
+        iteration.finalAnswer = record.finalAnswer;
+      }
+    }
+    // 并行调用按完成顺序记录，按调用位置恢复（旧记录没有 toolCallIndex，稳定排序保持原顺序）
+    iteration.observations.sort((a, b) => (a.toolCallIndex ?? 0) - (b.toolCallIndex ?? 0));
+    iterations.push(iteration);
+  }
+  return iterations.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * 规划 AgentLoop fork：把第 N 轮之前的迭代重建为对话消息，并应用编辑
+ *   - 不编辑          — 重放前 N - 1 轮，从第 N 轮重新调用 LLM
+ *   - 编辑 response    — 重放前 N - 1 轮，第 N 轮直接使用编辑后的响应
+ *   - 编辑 observation — 重放前 N 轮（第 N 轮的观察结果被替换），从第 N + 1 轮继续
+ * 重建的消息与执行时逐条一致（工具结果、用户回答、nudge 使用同一组构建函数）
+ */
+export function planAgentLoopFork(
+  iterations: AgentLoopIteration[],
+  opts: AgentLoopForkOptions,
+): AgentLoopForkPlan {
+  const { iteration: forkAt, edit, lang } = opts;
+  const target = iterations.find(it => it.index === forkAt);
+  if (!target) {
+    throw new Error(`Iteration ${forkAt} not found in agent-loop run`);
+  }
+
+  let replayed = iterations.filter(it => it.index < forkAt);
+  let seededSteps: AgentStep[] = [];
+  if (edit?.observation) {
+    const { index, text } = edit.observation;
+    if (!target.response || index < 0 || index >= target.observations.length) {
+      throw new Error(`Iteration ${forkAt} has no observation #${index}`);
+    }
+    const edited: AgentLoopIteration = {
+      ...target,
+      observations: target.observations.map((o, i) => i === index ? { ...o, observation: text } : o),
+    };
+    replayed = [...replayed, edited];
+    seededSteps = edited.observations.map(o => ({
+      index: forkAt,
+      status: "observing" as const,
+      thought: edited.response!.thought,
+      response: edited.response!.text,
+      tokens: 0,
+      costUsd: 0,
+      ...(edited.response!.toolCalls && { toolCalls: edited.response!.toolCalls }),
+      toolName: o.toolName,
+      toolInput: o.toolInput,
+      observation: o.observation,
+      ...(o.toolCallId && { toolCallId: o.toolCallId }),
+      ...(o.toolCallIndex !== undefined && { toolCallIndex: o.toolCallIndex }),
+    }));
+  }
+
+  const messages = buildInitialMessages(lang, opts.task, opts.imageUrls, opts.history);
+  let consecutiveMistakeCount = 0;
+  for (const it of replayed) {
+    if (!it.response) {
+      throw new Error(`Iteration ${it.index} has no recorded response, cannot fork after it`);
+    }
+    messages.push({
+      role: "assistant",
+      content: it.response.text,
+      ...(it.response.toolCalls && { toolCalls: it.response.toolCalls }),
+    });
+
+    const [first] = it.observations;
+    if (first?.toolName === "ask_followup_question") {
+      consecutiveMistakeCount = 0;
+      const question = (first.toolInput as { question?: string } | undefined)?.question ?? "";
+      messages.push(buildReplyMessage(first.toolCallId, buildFollowupAnswerMessage(lang, question, first.observation)));
+    } else if (first) {
+      consecutiveMistakeCount = 0;
+      messages.push(...buildToolResultMessages(lang, it.observations));
+    } else if (it.finalAnswer === undefined) {
+      // 没有工具调用也没有答案：执行时注入的是 nudge 消息
+      consecutiveMistakeCount++;
+      messages.push({ role: "user", content: buildNudgeMessage(lang, opts.toolCallMode === "native", consecutiveMistakeCount) });
+    }
+  }
+
+  const startIteration = edit?.observation ? forkAt : forkAt - 1;
+  return {
+    messages,
+    startIteration,
+    ...(edit?.response !== undefined && !edit.observation && { firstResponse: edit.response }),
+    fromStepId: target.stepId,
+    inheritedIterations: forkAt - 1,
+    seededSteps,
+  };
+}
+
+/**
+ * 把父 Run 前 throughIteration 轮的 Steps（含子 Agent 迭代）和事件复制到 fork 出的 Run
+ * 复制的 Step 标记为 inherited，stepId 按新 runId 重新生成，因此 fork 出的 Run 可以再次 fork / replay
+ * @returns 继承的 Step 数
+ */
+export function inheritAgentLoopSteps(
+  parentRunId: string,
+  newRunId: string,
+  throughIteration: number,
+  stepRepo: StepRepository,
+  eventRepo: EventRepository,
+): number {
+  const inherited = stepRepo.findByRunId(parentRunId).filter(step => {
+    const topIndex = /^agent_step_(\d+)/.exec(step.nodeId)?.[1];
+    return topIndex !== undefined && Number(topIndex) <= throughIteration;
+  });
+
+  inherited.forEach((step, i) => {
+    const stepId = `${newRunId}_step_${step.nodeId.slice("agent_step_".length)}`;
+    stepRepo.create({ ...step, stepId, runId: newRunId, inherited: true, sequence: i + 1 });
+    eventRepo.appendMany(eventRepo.findByStepId(step.stepId).map(event => ({
+      ...event,
+      eventId: nanoid(),
+      runId: newRunId,
+      stepId,
+    })));
+  });
+  return inherited.length;
+}
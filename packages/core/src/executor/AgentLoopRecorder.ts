@@ -0,0 +1,206 @@
+﻿import { nanoid } from "nanoid";
+import type { AgentStep, LLMToolCall, StepEvent } from "@omega/shared";
+import { NodeState, NodeType, ErrorType } from "@omega/shared";
+import type { StepRepository } from "@omega/db";
+import type { EventRepository } from "@omega/db";
+import { createErrorEnvelope } from "../errors.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("AgentLoopRecorder");
+
+/** AgentLoop Run 在 runs 表中的 graphId 标识 */
+export const AGENT_LOOP_GRAPH_ID = "agent-loop";
+
+/**
+ * AgentLoop 事件记录（序列化在 StepEvent.output 中）
+ *   - response    — 本轮完整的 assistant 响应（含原生 tool_calls）
+ *   - observation — 单个工具调用（含 ask_followup_question）的参数和观察结果；
+ *                   并行调用按完成顺序写入，toolCallIndex 记录其在响应中的位置
+ *   - answer      — attempt_completion 的最终答案
+ */
+export type AgentLoopEventRecord =
+  | { kind: "response"; text: string; thought?: string | undefined; toolCalls?: LLMToolCall[] | undefined }
+  | { kind: "observation"; toolName: string; toolInput?: unknown; observation: string; toolCallId?: string | undefined; toolCallIndex?: number | undefined }
+  | { kind: "answer"; finalAnswer: string };
+
+/** 迭代 Step ID：`${runId}_step_${路径}`，子 Agent 迭代的路径包含父步骤序号 */
+export function agentLoopStepId(runId: string, step: Pick<AgentStep, "index" | "parentPath">): string {
+  return `${runId}_step_${[...(step.parentPath ?? []), step.index].join("_")}`;
+}
+
+/** 解析 AgentLoop 事件记录，非 AgentLoop 事件返回 undefined */
+export function parseAgentLoopEvent(event: StepEvent): AgentLoopEventRecord | undefined {
+  if (!event.output) return undefined;
+  try {
+    const record = JSON.parse(event.output) as AgentLoopEventRecord;
+    return record.kind === "response" || record.kind === "observation" || record.kind === "answer"
+      ? record
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** 正在记录的迭代 */
+interface OpenIteration {
+  stepId: string;
+  nodeId: string;
+  startedAt: string;
+  /** 已记录响应事件（同一迭代的后续阶段不再重复写入） */
+  responseRecorded: boolean;
+}
+
+/**
+ * AgentLoop 持久化 — 把 ReAct 迭代写入 steps / events 表
+ *
+ * 包装 AgentStepCallback 使用：每个迭代（含子 Agent 迭代）对应一个 Step，
+ *   - 首次出现时创建 RUNNING 状态的 Step（nodeType = AGENT_LOOP）
+ *   - 首个携带 response 的阶段追加响应事件（tokens / cost / providerMeta 记在这条事件上）
+ *   - 带 observation 的阶段（每个工具调用一次）追加观察事件
+ *   - done / error 追加最终答案 / 错误事件并结束 Step
+ * 工具迭代在同层下一轮开始时置为 SUCCESS，Run 结束时 finish() 关闭剩余的 Step。
+ * 同一 Step 内事件时间戳严格递增，保证按 timestamp 读取时顺序稳定。
+ * fork 出的 Run 先由 inheritAgentLoopSteps 复制前几轮，之后的迭代照常记录。
+ */
+export class AgentLoopRecorder {
+  private readonly open = new Map<string, OpenIteration>();
+  private sequence = 0;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly runId: string,
+    private readonly stepRepo: StepRepository,
+    private readonly eventRepo: EventRepository,
+    private readonly providerMeta?: StepEvent["providerMeta"],
+  ) {
+    // fork 出的 Run 已有继承的 Step，序号接在其后
+    this.sequence = stepRepo.findByRunId(runId).length;
+  }
+
+  /** 记录一个 AgentStep（在 onStep 回调中调用，DB 异常只记日志不中断循环） */
+  record(step: AgentStep): void {
+    try {
+      const iteration = this.ensureIteration(step);
+
+      if (step.response !== undefined && !iteration.responseRecorded) {
+        iteration.responseRecorded = true;
+        // 故障转移后步骤携带实际响应的 Provider，优先于 Run 级默认值
+        const providerMeta = step.providerMeta ?? this.providerMeta;
+        this.append(iteration, {
+          output: { kind: "response", text: step.response, thought: step.thought, toolCalls: step.toolCalls },
+          tokens: step.tokens,
+          ...(step.costUsd !== undefined && { costUsd: step.costUsd }),
+          ...(providerMeta && { providerMeta }),
+        });
+      }
+
+      if (step.observation !== undefined && step.toolName) {
+        this.append(iteration, {
+          inputSnapshot: JSON.stringify(step.toolInput ?? null),
+          output: {
+            kind: "observation",
+            toolName: step.toolName,
+            toolInput: step.toolInput,
+            observation: step.observation,
+            toolCallId: step.toolCallId,
+            toolCallIndex: step.toolCallIndex,
+          },
+        });
+      }
+
+      if (step.status === "done") {
+        this.append(iteration, { output: { kind: "answer", finalAnswer: step.finalAnswer ?? "" } });
+        this.close(iteration, NodeState.SUCCESS);
+      } else if (step.status === "error") {
+        this.append(iteration, {
+          error: createErrorEnvelope(ErrorType.PROVIDER_ERROR, step.thought ?? "Agent step failed", { retryable: false }),
+        });
+        this.close(iteration, NodeState.ERROR);
+      }
+    } catch (err) {
+      log.warn({ runId: this.runId, index: step.index, err }, "Failed to persist agent step");
+    }
+  }
+
+  /** Run 结束：关闭仍在进行的迭代（失败 / 取消时置为 ERROR） */
+  finish(failed = false): void {
+    for (const iteration of [...this.open.values()]) {
+      try {
+        this.close(iteration, failed ? NodeState.ERROR : NodeState.SUCCESS);
+      } catch (err) {
+        log.warn({ runId: this.runId, stepId: iteration.stepId, err }, "Failed to close agent step");
+      }
+    }
+  }
+
+  private ensureIteration(step: AgentStep): OpenIteration {
+    const stepId = agentLoopStepId(this.runId, step);
+    const existing = this.open.get(stepId);
+    if (existing) return existing;
+
+    // 同层的上一轮已结束（工具迭代没有 done 状态）
+    const parentKey = (step.parentPath ?? []).join("_");
+    for (const iteration of [...this.open.values()]) {
+      if (iteration.stepId !== stepId && siblingKey(this.runId, iteration.stepId) === parentKey) {
+        this.close(iteration, NodeState.SUCCESS);
+      }
+    }
+
+    const startedAt = this.nextTimestamp();
+    const nodeId = `agent_step_${[...(step.parentPath ?? []), step.index].join("_")}`;
+    this.stepRepo.create({
+      stepId,
+      runId: this.runId,
+      nodeId,
+      nodeType: NodeType.AGENT_LOOP,
+      nodeLabel: step.parentPath?.length
+        ? `Sub-agent ${step.parentPath.join(".")} · Iteration ${step.index}`
+        : `Iteration ${step.index}`,
+      state: NodeState.RUNNING,
+      inherited: false,
+      retryCount: 0,
+      startedAt,
+      sequence: ++this.sequence,
+    });
+    const iteration: OpenIteration = { stepId, nodeId, startedAt, responseRecorded: false };
+    this.open.set(stepId, iteration);
+    return iteration;
+  }
+
+  private append(
+    iteration: OpenIteration,
+    event: Omit<StepEvent, "eventId" | "runId" | "stepId" | "nodeId" | "timestamp" | "output"> & { output?: AgentLoopEventRecord },
+  ): void {
+    const { output, ...rest } = event;
+    this.eventRepo.append({
+      eventId: nanoid(),
+      runId: this.runId,
+      stepId: iteration.stepId,
+      nodeId: iteration.nodeId,
+      timestamp: this.nextTimestamp(),
+      ...rest,
+      ...(output && { output: JSON.stringify(output) }),
+    });
+  }
+
+  private close(iteration: OpenIteration, state: NodeState): void {
+    const completedAt = this.nextTimestamp();
+    this.stepRepo.updateState(iteration.stepId, state, {
+      completedAt,
+      durationMs: new Date(completedAt).getTime() - new Date(iteration.startedAt).getTime(),
+    });
+    this.open.delete(iteration.stepId);
+  }
+
+  /** 单调递增的 ISO 时间戳（同一毫秒内的事件顺延 1ms） */
+  private nextTimestamp(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+}
+
+/** 由 stepId 取出父路径（`${runId}_step_1_2` → "1"），用于判断是否同层 */
+function siblingKey(runId: string, stepId: string): string {
+  const path = stepId.slice(`${runId}_step_`.length).split("_");
+  return path.slice(0, -1).join("_");
+}
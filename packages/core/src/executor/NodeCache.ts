@@ -0,0 +1,24 @@
+﻿import { createHash } from "node:crypto";
+import { stableStringify } from "@omega/shared";
+import type { StepEvent } from "@omega/shared";
+
+/**
+ * 计算节点缓存 Key 所需的要素
+ * 由各执行器的 cacheKeyParts() 提供（只有确定性的节点才应该返回）
+ */
+export interface CacheKeyParts {
+  nodeType: string;
+  /** 节点配置 */
+  config?: unknown;
+  /** 渲染后的最终 Prompt（LLM 节点） */
+  renderedPrompt?: string;
+  /** Provider 元数据（provider / model / temperature / topP） */
+  providerMeta?: StepEvent["providerMeta"];
+  /** 节点实际输入 */
+  input?: unknown;
+}
+
+/** 计算缓存 Key：sha256(节点配置 + 渲染后 Prompt + provider meta + 输入) */
+export function computeCacheKey(parts: CacheKeyParts): string {
+  return createHash("sha256").update(stableStringify(parts)).digest("hex");
+}
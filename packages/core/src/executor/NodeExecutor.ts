@@ -3,10 +3,13 @@ import type {
   NodeDefinition, StepEvent, Step, ErrorEnvelope
 } from "@omega/shared";
 import {
-  NodeState, NodeType, ErrorType, BackoffStrategy
+  NodeState, NodeType, ErrorType, BackoffStrategy, CacheStrategy
 } from "@omega/shared";
+import type { NodeCacheRepository } from "@omega/db";
 import { createErrorEnvelope, fromNativeError } from "../errors.js";
 import { createLogger } from "../logger.js";
+import { computeCacheKey } from "./NodeCache.js";
+import type { CacheKeyParts } from "./NodeCache.js";
 
 const log = createLogger("NodeExecutor");
 
@@ -42,6 +45,14 @@ export abstract class BaseNodeExecutor {
   validate(_node: NodeDefinition): void {
     // 默认不做额外校验
   }
+
+  /**
+   * 返回计算缓存 Key 的要素 (子类可覆写)
+   * 默认返回 undefined，表示该节点类型不参与缓存
+   */
+  cacheKeyParts(_node: NodeDefinition, _ctx: NodeContext): CacheKeyParts | undefined {
+    return undefined;
+  }
 }
 
 /**
@@ -113,10 +124,16 @@ async function withRetry<T>(
 }
 
 /**
- * GraphNodeRunner — 负责运行单个节点（含 retry + guardrails）
+ * GraphNodeRunner — 负责运行单个节点（含 retry + guardrails + 结果缓存）
  */
 export class GraphNodeRunner {
-  constructor(private registry: NodeExecutorRegistry) {}
+  /**
+   * @param cache 节点结果缓存；不传时忽略 node.cache 配置
+   */
+  constructor(
+    private registry: NodeExecutorRegistry,
+    private cache?: NodeCacheRepository
+  ) {}
 
   async run(
     node: NodeDefinition,
@@ -135,6 +152,42 @@ export class GraphNodeRunner {
 
     log.info({ nodeId: node.id, nodeType: node.type, runId: ctx.runId }, "Node started");
 
+    // read-through：命中缓存直接返回，不调用执行器
+    const cacheKey = this.resolveCacheKey(executor, node, ctx);
+    if (cacheKey && node.cache === CacheStrategy.READ_THROUGH) {
+      const cached = this.cache!.get(cacheKey);
+      if (cached) {
+        this.cache!.recordHit(cacheKey);
+        const completedAt = new Date().toISOString();
+        const durationMs = new Date(completedAt).getTime() - new Date(startedAt).getTime();
+        onStateChange(NodeState.SUCCESS, { completedAt, durationMs, retryCount: 0 });
+
+        // 命中时不产生新的 token / cost 消耗
+        onEvent({
+          eventId: nanoid(),
+          runId: ctx.runId,
+          stepId: ctx.stepId,
+          nodeId: node.id,
+          timestamp: completedAt,
+          output: JSON.stringify(cached.output),
+          renderedPrompt: cached.renderedPrompt,
+          tokens: 0,
+          costUsd: 0,
+          durationMs,
+          providerMeta: cached.providerMeta,
+          cacheHit: true,
+          cacheKey,
+        });
+
+        log.info({ nodeId: node.id, cacheKey }, "Node result served from cache");
+        return {
+          output: cached.output,
+          ...(cached.renderedPrompt !== undefined && { renderedPrompt: cached.renderedPrompt }),
+          ...(cached.providerMeta !== undefined && { providerMeta: cached.providerMeta }),
+        };
+      }
+    }
+
     const retryConfig = {
       maxRetries: node.retry?.maxRetries ?? 0,
       backoffStrategy: node.retry?.backoffStrategy ?? BackoffStrategy.FIXED,
@@ -161,6 +214,19 @@ export class GraphNodeRunner {
 
       onStateChange(NodeState.SUCCESS, { completedAt, durationMs, retryCount });
 
+      // read-through 未命中 / force-refresh：写入（覆盖）缓存
+      if (cacheKey) {
+        this.cache!.set({
+          cacheKey,
+          nodeType: node.type,
+          output: result.output,
+          renderedPrompt: result.renderedPrompt,
+          providerMeta: result.providerMeta,
+          tokens: result.tokens,
+          costUsd: result.costUsd,
+        });
+      }
+
       // 发出 StepEvent
       onEvent({
         eventId: nanoid(),
@@ -174,6 +240,7 @@ export class GraphNodeRunner {
         costUsd: result.costUsd,
         durationMs,
         providerMeta: result.providerMeta,
+        ...(cacheKey && { cacheHit: false, cacheKey }),
       });
 
       log.info({ nodeId: node.id, durationMs }, "Node completed successfully");
@@ -204,4 +271,21 @@ export class GraphNodeRunner {
       throw err;
     }
   }
+
+  /** 节点启用了缓存且执行器支持时返回缓存 Key，否则返回 undefined */
+  private resolveCacheKey(
+    executor: BaseNodeExecutor,
+    node: NodeDefinition,
+    ctx: NodeContext
+  ): string | undefined {
+    if (!this.cache || node.cache === undefined || node.cache === CacheStrategy.NO_CACHE) {
+      return undefined;
+    }
+    const parts = executor.cacheKeyParts(node, ctx);
+    if (!parts) {
+      log.debug({ nodeId: node.id, nodeType: node.type }, "Node type does not support caching, skipped");
+      return undefined;
+    }
+    return computeCacheKey(parts);
+  }
 }
@@ -0,0 +1,139 @@
+﻿import type { LLMNodeConfig, NodeDefinition, StepEvent } from "@omega/shared";
+import type { NodeResult } from "./NodeExecutor.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("RecordedResponses");
+
+/** 一条录制的节点响应（取自原 Run 成功 Step 的最后一个 StepEvent） */
+export interface RecordedResponse {
+  nodeId: string;
+  nodeType: string;
+  /** 节点输出（已反序列化） */
+  output: unknown;
+  renderedPrompt?: string | undefined;
+  providerMeta?: StepEvent["providerMeta"] | undefined;
+  tokens?: number | undefined;
+  costUsd?: number | undefined;
+}
+
+/** 回放与录制不一致的节点 */
+export interface ReplayDivergence {
+  nodeId: string;
+  /**
+   * prompt       — 渲染后的 Prompt 与录制不同（仍返回该节点的录制输出以继续回放）
+   * providerMeta — Prompt 相同但 provider / model / 采样参数不同
+   * missing      — 该节点没有可用的录制（节点执行失败）
+   */
+  kind: "prompt" | "providerMeta" | "missing";
+  recordedPrompt?: string | undefined;
+  actualPrompt?: string | undefined;
+  recordedMeta?: StepEvent["providerMeta"] | undefined;
+  actualMeta?: Partial<NonNullable<StepEvent["providerMeta"]>> | undefined;
+}
+
+/** 录制响应缺失时抛出（回放不会访问真实 Provider / 工具） */
+export class MissingRecordingError extends Error {
+  constructor(public readonly nodeId: string) {
+    super(`No recorded response for node "${nodeId}"`);
+    this.name = "MissingRecordingError";
+  }
+}
+
+/**
+ * 录制响应 Provider — 确定性回放
+ *
+ * 替代 LLM 类（LLM / PLANNING / MEMORY / REFLECTION）与 TOOL 执行器注入的 provider / tool 函数，
+ * 离线返回原 Run 记录的 StepEvent.output：
+ *   - LLM 类：按 renderedPrompt + providerMeta 匹配（config 中未指定的 provider 字段不参与比较）
+ *   - TOOL：按节点依次返回该节点的录制输出
+ * 同一节点执行多次时（如 fork / 重试后的多条录制）按录制顺序依次消费。
+ */
+export class RecordedResponseProvider {
+  /** nodeId → 尚未消费的录制（按 Step 顺序） */
+  private readonly byNode = new Map<string, RecordedResponse[]>();
+  private readonly divergenceList: ReplayDivergence[] = [];
+
+  constructor(recordings: RecordedResponse[]) {
+    for (const recording of recordings) {
+      const queue = this.byNode.get(recording.nodeId) ?? [];
+      queue.push(recording);
+      this.byNode.set(recording.nodeId, queue);
+    }
+  }
+
+  /** 回放过程中发现的不一致 */
+  get divergences(): readonly ReplayDivergence[] {
+    return this.divergenceList;
+  }
+
+  /** LLM 类节点执行器的 invokeProvider 替身（config.promptTemplate 已是渲染后的 Prompt） */
+  readonly invokeLLM = async (
+    config: LLMNodeConfig,
+    _input: unknown,
+    node: NodeDefinition
+  ): Promise<{ text: string; tokens: number; costUsd: number; providerMeta: NodeResult["providerMeta"] }> => {
+    const actualPrompt = config.promptTemplate ?? "";
+    const actualMeta = {
+      ...(config.provider !== undefined && { provider: config.provider }),
+      ...(config.model !== undefined && { model: config.model }),
+      ...(config.temperature !== undefined && { temperature: config.temperature }),
+      ...(config.topP !== undefined && { topP: config.topP }),
+    };
+
+    const queue = this.byNode.get(node.id) ?? [];
+    let index = queue.findIndex(r => r.renderedPrompt === actualPrompt && metaMatches(actualMeta, r.providerMeta));
+
+    if (index < 0) {
+      index = queue.findIndex(r => r.renderedPrompt === actualPrompt);
+      if (index >= 0) {
+        this.diverge({ nodeId: node.id, kind: "providerMeta", recordedMeta: queue[index]!.providerMeta, actualMeta });
+      } else if (queue.length > 0) {
+        index = 0;
+        this.diverge({ nodeId: node.id, kind: "prompt", recordedPrompt: queue[0]!.renderedPrompt, actualPrompt });
+      }
+    }
+
+    const recording = this.take(node.id, index);
+    return {
+      text: typeof recording.output === "string" ? recording.output : JSON.stringify(recording.output),
+      tokens: recording.tokens ?? 0,
+      costUsd: recording.costUsd ?? 0,
+      providerMeta: recording.providerMeta,
+    };
+  };
+
+  /** ToolNodeExecutor 的 invokeTool 替身 */
+  readonly invokeTool = async (
+    _toolName: string,
+    _toolVersion: string,
+    _input: unknown,
+    _timeoutMs: number,
+    node: NodeDefinition
+  ): Promise<unknown> => {
+    return this.take(node.id, 0).output;
+  };
+
+  /** 取出并消费一条录制；没有时记录 missing 并抛错 */
+  private take(nodeId: string, index: number): RecordedResponse {
+    const queue = this.byNode.get(nodeId);
+    if (!queue || index < 0 || index >= queue.length) {
+      this.diverge({ nodeId, kind: "missing" });
+      throw new MissingRecordingError(nodeId);
+    }
+    return queue.splice(index, 1)[0]!;
+  }
+
+  private diverge(divergence: ReplayDivergence): void {
+    this.divergenceList.push(divergence);
+    log.warn({ nodeId: divergence.nodeId, kind: divergence.kind }, "Replay diverged from recording");
+  }
+}
+
+/** config 中指定的 provider 字段必须与录制一致；未指定的字段（运行时 fallback）不比较 */
+function metaMatches(
+  actual: Partial<NonNullable<StepEvent["providerMeta"]>>,
+  recorded: StepEvent["providerMeta"]
+): boolean {
+  if (!recorded) return Object.keys(actual).length === 0;
+  return (Object.keys(actual) as Array<keyof typeof actual>).every(key => actual[key] === recorded[key]);
+}
@@ -0,0 +1,149 @@
+﻿/**
+ * 流式响应解析器 — 在 LLM 响应逐 token 到达时增量识别 XML 标签
+ *
+ * 与 parseAgentResponse 使用同一套标签约定，但只做"尽早可见"的增量识别：
+ *   - <thinking>/<thought>/<think> 内的文本按增量输出
+ *   - <attempt_completion> 内 <result> 的文本按增量输出
+ *   - 直接标签工具调用在闭合标签到达时立即识别
+ * 完整响应到达后仍以 parseAgentResponse 的结果为准（增量识别只用于 UI 展示）。
+ */
+
+/** 增量解析事件 */
+export type AgentStreamDelta =
+  /** 思考内容增量（text 为目前为止的完整思考内容） */
+  | { kind: "thinking"; delta: string; text: string }
+  /** 最终答案增量（text 为目前为止的完整答案） */
+  | { kind: "answer"; delta: string; text: string }
+  /** 识别到一个完整的工具调用（闭合标签已到达） */
+  | { kind: "tool"; toolName: string; toolInput: unknown };
+
+/** 思考标签变体（与 parseAgentResponse 的优先级一致） */
+const THINKING_TAGS = ["thinking", "thought", "think"];
+
+/** 正在增量输出的标签区段 */
+interface OpenSection {
+  kind: "thinking" | "answer";
+  close: string;
+  /** 内容起始位置 */
+  start: number;
+  /** 已输出的内容长度 */
+  sent: number;
+  done: boolean;
+}
+
+export class StreamingResponseParser {
+  private buffer = "";
+  private thinking: OpenSection | undefined;
+  private answer: OpenSection | undefined;
+  /** 工具标签的扫描起点（之前的工具调用已识别） */
+  private toolScanPos = 0;
+
+  constructor(private readonly availableTools: string[] = []) {}
+
+  /** 目前为止收到的完整文本 */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /** 追加一段 token，返回本次新增的解析事件 */
+  push(chunk: string): AgentStreamDelta[] {
+    if (!chunk) return [];
+    this.buffer += chunk;
+    const deltas: AgentStreamDelta[] = [];
+
+    this.thinking ??= this.openSection("thinking", THINKING_TAGS);
+    if (this.thinking) this.advance(this.thinking, deltas);
+
+    if (!this.answer) {
+      const completion = this.buffer.indexOf("<attempt_completion>");
+      if (completion !== -1) {
+        this.answer = this.openSection("answer", ["result"], completion);
+      }
+    }
+    if (this.answer) this.advance(this.answer, deltas);
+
+    this.scanTools(deltas);
+    return deltas;
+  }
+
+  /** 查找标签开始位置，返回对应的区段（标签尚未出现时返回 undefined） */
+  private openSection(kind: OpenSection["kind"], tags: string[], from = 0): OpenSection | undefined {
+    for (const tag of tags) {
+      const open = `<${tag}>`;
+      const index = this.buffer.indexOf(open, from);
+      if (index !== -1) {
+        const start = index + open.length;
+        return { kind, close: `</${tag}>`, start, sent: 0, done: false };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 输出区段内新到达的文本
+   * 末尾可能是闭合标签的前半部分（如 "</thi"），这部分暂不输出，等下一段 token 确认
+   */
+  private advance(section: OpenSection, deltas: AgentStreamDelta[]): void {
+    if (section.done) return;
+    const closeIndex = this.buffer.indexOf(section.close, section.start);
+    const end = closeIndex !== -1
+      ? closeIndex
+      : this.buffer.length - partialSuffixLength(this.buffer, section.close);
+    if (closeIndex !== -1) section.done = true;
+
+    // 与 parseAgentResponse 一致：前导空白不计入内容
+    const text = this.buffer.slice(section.start, end).trimStart();
+    if (text.length <= section.sent) return;
+    deltas.push({ kind: section.kind, delta: text.slice(section.sent), text });
+    section.sent = text.length;
+  }
+
+  /** 识别闭合标签已到达的直接标签工具调用（思考过程中和 attempt_completion 内的标签不算） */
+  private scanTools(deltas: AgentStreamDelta[]): void {
+    if (this.thinking && !this.thinking.done) return;
+    if (this.thinking) {
+      const thinkingEnd = this.buffer.indexOf(this.thinking.close, this.thinking.start) + this.thinking.close.length;
+      this.toolScanPos = Math.max(this.toolScanPos, thinkingEnd);
+    }
+
+    for (;;) {
+      let next: { toolName: string; index: number } | undefined;
+      for (const toolName of this.availableTools) {
+        const index = this.buffer.indexOf(`<${toolName}>`, this.toolScanPos);
+        if (index !== -1 && (!next || index < next.index)) next = { toolName, index };
+      }
+      if (!next) return;
+      const completion = this.buffer.indexOf("<attempt_completion>", this.toolScanPos);
+      if (completion !== -1 && completion < next.index) return;
+
+      const open = `<${next.toolName}>`;
+      const close = `</${next.toolName}>`;
+      const closeIndex = this.buffer.indexOf(close, next.index + open.length);
+      if (closeIndex === -1) return;
+
+      deltas.push({
+        kind: "tool",
+        toolName: next.toolName,
+        toolInput: parseStreamedParams(this.buffer.slice(next.index + open.length, closeIndex)),
+      });
+      this.toolScanPos = closeIndex + close.length;
+    }
+  }
+}
+
+/** text 末尾与 tag 开头重合的最大长度（可能是尚未到齐的闭合标签） */
+function partialSuffixLength(text: string, tag: string): number {
+  for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+    if (text.endsWith(tag.slice(0, len))) return len;
+  }
+  return 0;
+}
+
+/** 解析工具块内的参数标签（非贪婪，识别结果仅用于展示） */
+function parseStreamedParams(block: string): unknown {
+  const params: Record<string, string> = {};
+  for (const m of block.matchAll(/<(\w+)>([\s\S]*?)<\/\1>/g)) {
+    if (m[1] && !(m[1] in params)) params[m[1]] = (m[2] ?? "").trim();
+  }
+  return Object.keys(params).length > 0 ? params : block.trim();
+}
@@ -2,14 +2,22 @@
 import type { NodeDefinition, LLMNodeConfig } from "@omega/shared";
 import { BaseNodeExecutor } from "../NodeExecutor.js";
 import type { NodeContext, NodeResult } from "../NodeExecutor.js";
+import type { CacheKeyParts } from "../NodeCache.js";
 import { createLogger } from "../../logger.js";
 
 const log = createLogger("LLMNodeExecutor");
 
+/**
+ * 解析节点实际调用的 Provider ID 与模型（config.provider / config.model 为空表示默认值）
+ * 缓存 Key 使用解析结果，切换默认 Provider / 模型后不会命中旧的缓存
+ */
+export type LLMTargetResolver = (config: LLMNodeConfig) => { provider: string; model: string };
+
 /**
  * LLM 节点执行器
  * 通过注入的 provider 函数执行 LLM 调用
  * provider 函数由 packages/providers 提供，通过依赖注入传入
+ * （回放时注入 RecordedResponseProvider.invokeLLM，离线返回录制的输出）
  */
 export class LLMNodeExecutor extends BaseNodeExecutor {
   readonly nodeType = NodeType.LLM;
@@ -17,17 +25,19 @@ export class LLMNodeExecutor extends BaseNodeExecutor {
   constructor(
     private readonly invokeProvider: (
       config: LLMNodeConfig,
-      input: unknown
-    ) => Promise<{ text: string; tokens: number; costUsd: number; providerMeta: NodeResult["providerMeta"] }>
+      input: unknown,
+      node: NodeDefinition
+    ) => Promise<{ text: string; tokens: number; costUsd: number; providerMeta: NodeResult["providerMeta"] }>,
+    /** 未传入时缓存 Key 使用 config 中的原始值 */
+    private readonly resolveTarget?: LLMTargetResolver
   ) { super(); }
 
   async execute(node: NodeDefinition, ctx: NodeContext): Promise<NodeResult> {
     const config = node.config as LLMNodeConfig | undefined;
 
     // config.provider / config.model 允许为空：
-    // 当 graphJson 不携带这两个字段时，由注入的 invokeProvider callback
-    // （main/index.ts 中的 LLMNodeExecutor 构造函数）负责 fallback 到 globalProviderRef
-    // 只有在完全没有 config 对象的情况下才抛出错误
+    // 非空的 provider 由注入的 invokeProvider callback 经 ProviderRegistry 按 ID 路由（未知 ID 在图加载阶段已被拒绝），
+    // 为空时使用默认 Provider；只有在完全没有 config 对象的情况下才抛出错误
     if (!config) {
       throw new Error(`LLM node "${node.id}" missing config entirely`);
     }
@@ -42,12 +52,13 @@ export class LLMNodeExecutor extends BaseNodeExecutor {
     );
     log.debug({ renderedPrompt: renderedPrompt.slice(0, 200) }, "Rendered prompt");
 
-    // provider/model 可能为空，由 invokeProvider callback 决定实际值（从 globalProviderRef fallback）
-    log.debug({ nodeId: node.id, provider: config.provider ?? "(from globalProviderRef)", model: config.model ?? "(from globalProviderRef)" }, "LLM node invoking provider");
+    // provider/model 可能为空，由 invokeProvider callback 决定实际值（使用默认 Provider）
+    log.debug({ nodeId: node.id, provider: config.provider || "(default)", model: config.model || "(default)" }, "LLM node invoking provider");
 
     const result = await this.invokeProvider(
       { ...config, promptTemplate: renderedPrompt },
-      ctx.previousOutput
+      ctx.previousOutput,
+      node
     );
 
     return {
@@ -59,6 +70,30 @@ export class LLMNodeExecutor extends BaseNodeExecutor {
     };
   }
 
+  /** 缓存 Key：节点配置 + 渲染后 Prompt + provider meta（解析后的 Provider / 模型）+ 上游输入 */
+  override cacheKeyParts(node: NodeDefinition, ctx: NodeContext): CacheKeyParts | undefined {
+    const config = node.config as LLMNodeConfig | undefined;
+    if (!config) return undefined;
+    const target = this.resolveTarget?.(config) ?? { provider: config.provider, model: config.model };
+    return {
+      nodeType: node.type,
+      config,
+      renderedPrompt: this.renderTemplate(
+        config.promptTemplate ?? "",
+        ctx.previousOutput,
+        ctx.globalInput,
+        ctx.runMemory
+      ),
+      providerMeta: {
+        provider: target.provider,
+        model: target.model,
+        temperature: config.temperature,
+        topP: config.topP,
+      },
+      input: ctx.previousOutput,
+    };
+  }
+
   /**
    * 渲染 Prompt 模板
    * 支持 {{input.xxx}}、{{memory.xxx}}、{{config.xxx}} 三种占位符
@@ -9,7 +9,8 @@ const log = createLogger("MemoryNodeExecutor");
 /** invokeProvider 函数类型（与 LLMNodeExecutor 共用相同签名） */
 type LLMInvoker = (
   config: LLMNodeConfig,
-  input: unknown
+  input: unknown,
+  node: NodeDefinition
 ) => Promise<{ text: string; tokens: number; costUsd: number; providerMeta: NodeResult["providerMeta"] }>;
 
 /**
@@ -53,7 +54,8 @@ export class MemoryNodeExecutor extends BaseNodeExecutor {
 
     const result = await this.invokeProvider(
       { ...config, promptTemplate: renderedPrompt },
-      ctx.previousOutput
+      ctx.previousOutput,
+      node
     );
 
     log.info({ nodeId: node.id, tokens: result.tokens }, "MemoryNode completed");
@@ -9,7 +9,8 @@ const log = createLogger("ReflectionNodeExecutor");
 /** invokeProvider 函数类型（与 LLMNodeExecutor 共用相同签名） */
 type LLMInvoker = (
   config: LLMNodeConfig,
-  input: unknown
+  input: unknown,
+  node: NodeDefinition
 ) => Promise<{ text: string; tokens: number; costUsd: number; providerMeta: NodeResult["providerMeta"] }>;
 
 /**
@@ -53,7 +54,8 @@ export class ReflectionNodeExecutor extends BaseNodeExecutor {
 
     const result = await this.invokeProvider(
       { ...config, promptTemplate: renderedPrompt },
-      ctx.previousOutput
+      ctx.previousOutput,
+      node
     );
 
     log.info({ nodeId: node.id, tokens: result.tokens }, "ReflectionNode completed");
@@ -2,6 +2,7 @@
 import type { NodeDefinition, ToolNodeConfig } from "@omega/shared";
 import { BaseNodeExecutor } from "../NodeExecutor.js";
 import type { NodeContext, NodeResult } from "../NodeExecutor.js";
+import type { CacheKeyParts } from "../NodeCache.js";
 import { createLogger } from "../../logger.js";
 
 const log = createLogger("ToolNodeExecutor");
@@ -11,7 +12,9 @@ export type ToolInvoker = (
   toolName: string,
   toolVersion: string,
   input: unknown,
-  timeoutMs: number
+  timeoutMs: number,
+  /** 当前执行的节点（回放时用于查找录制的输出） */
+  node: NodeDefinition
 ) => Promise<unknown>;
 
 /** TOOL ??????*/
@@ -35,12 +38,24 @@ export class ToolNodeExecutor extends BaseNodeExecutor {
       config.toolName,
       config.toolVersion ?? "latest",
       toolInput,
-      config.timeoutMs ?? 30000
+      config.timeoutMs ?? 30000,
+      node
     );
 
     return { output: result };
   }
 
+  /** 缓存 Key：工具配置 + 映射后的工具输入 */
+  override cacheKeyParts(node: NodeDefinition, ctx: NodeContext): CacheKeyParts | undefined {
+    const config = node.config as ToolNodeConfig | undefined;
+    if (!config?.toolName) return undefined;
+    return {
+      nodeType: node.type,
+      config,
+      input: this.buildInput(ctx.previousOutput, config.inputMapping),
+    };
+  }
+
   /** ?? inputMapping ??previousOutput ???? */
   private buildInput(
     previousOutput: unknown,
@@ -2,25 +2,68 @@
  * @omega/core — Omega Agent Graph Runtime 核心
  */
 export { GraphRuntime } from "./runtime/GraphRuntime.js";
-export type { RuntimeEventCallback } from "./runtime/GraphRuntime.js";
+export type { RuntimeEventCallback, StartRunOptions } from "./runtime/GraphRuntime.js";
+export { buildGraphTopology, validateGraph, validateProviderRefs, collectDescendants } from "./runtime/GraphTopology.js";
+export type { GraphTopology, TopologyEdge, TopologyBatch, ProviderLookup } from "./runtime/GraphTopology.js";
+export { compileCondition, evaluateCondition, ConditionSyntaxError } from "./runtime/ConditionExpression.js";
+export type { ConditionScope, CompiledCondition } from "./runtime/ConditionExpression.js";
 
 export { GraphNodeRunner, NodeExecutorRegistry } from "./executor/NodeExecutor.js";
 export type { NodeContext, NodeResult, BaseNodeExecutor } from "./executor/NodeExecutor.js";
+export { computeCacheKey } from "./executor/NodeCache.js";
+export type { CacheKeyParts } from "./executor/NodeCache.js";
+export { RecordedResponseProvider, MissingRecordingError } from "./executor/RecordedResponses.js";
+export type { RecordedResponse, ReplayDivergence } from "./executor/RecordedResponses.js";
 
 export { InputNodeExecutor } from "./executor/builtins/InputNodeExecutor.js";
 export { OutputNodeExecutor } from "./executor/builtins/OutputNodeExecutor.js";
 export { LLMNodeExecutor } from "./executor/builtins/LLMNodeExecutor.js";
+export type { LLMTargetResolver } from "./executor/builtins/LLMNodeExecutor.js";
 export { ToolNodeExecutor } from "./executor/builtins/ToolNodeExecutor.js";
 export type { ToolInvoker } from "./executor/builtins/ToolNodeExecutor.js";
 export { ReflectionNodeExecutor } from "./executor/builtins/ReflectionNodeExecutor.js";
 export { MemoryNodeExecutor } from "./executor/builtins/MemoryNodeExecutor.js";
 export { PlanningNodeExecutor } from "./executor/builtins/PlanningNodeExecutor.js";
 
-export { AgentLoopExecutor, buildAgentSystemPrompt } from "./executor/AgentLoopExecutor.js";
-export type { AgentLLMInvoker, AgentToolInvoker, AgentStepCallback, AgentLoopResult, ChatMessage } from "./executor/AgentLoopExecutor.js";
+export {
+  AgentLoopExecutor,
+  buildAgentSystemPrompt,
+  buildToolDefinitions,
+  DELEGATE_TASK_TOOL,
+  buildInitialMessages,
+  buildReplyMessage,
+  buildToolResultMessages,
+  buildFollowupAnswerMessage,
+  buildNudgeMessage,
+} from "./executor/AgentLoopExecutor.js";
+export type {
+  AgentLLMInvoker,
+  AgentLLMStreamInvoker,
+  AgentToolInvoker,
+  AgentStepCallback,
+  AgentPartial,
+  AgentPartialCallback,
+  AgentLoopResult,
+  ChatMessage,
+  ContentPart,
+  ToolApprovalCallback,
+  ToolApprovalDecision,
+  ToolObservation,
+} from "./executor/AgentLoopExecutor.js";
+export { StreamingResponseParser } from "./executor/StreamingResponseParser.js";
+export type { AgentStreamDelta } from "./executor/StreamingResponseParser.js";
+export { AgentLoopRecorder, AGENT_LOOP_GRAPH_ID, agentLoopStepId, parseAgentLoopEvent } from "./executor/AgentLoopRecorder.js";
+export type { AgentLoopEventRecord } from "./executor/AgentLoopRecorder.js";
+export { loadAgentLoopIterations, planAgentLoopFork, inheritAgentLoopSteps } from "./executor/AgentLoopFork.js";
+export type { AgentLoopIteration, AgentLoopForkEdit, AgentLoopForkOptions, AgentLoopForkPlan } from "./executor/AgentLoopFork.js";
 
 export {
   compressContext,
+  summarizeContext,
+  buildContextSummaryInstruction,
+  verifyAnswer,
+  buildVerificationInstruction,
+  parseVerificationVerdict,
   estimateTokens,
   retryWithBackoff,
   formatOutput,
@@ -28,7 +71,17 @@ export {
   quickSearch,
   BUILTIN_SKILL_INFOS,
 } from "./skills/AgentSkills.js";
-export type { SkillInfo, SearchResult, RetryOptions, FormatOptions } from "./skills/AgentSkills.js";
+export type { SkillInfo, SearchResult, RetryOptions, FormatOptions, ContextSummarizer, AnswerGrader, VerificationVerdict } from "./skills/AgentSkills.js";
+
+export {
+  BpeTokenizer,
+  CjkHeuristicTokenizer,
+  registerTokenizer,
+  getTokenizer,
+  countTextTokens,
+  countMessageTokens,
+} from "./tokenizer.js";
+export type { Tokenizer, TokenCountMessage } from "./tokenizer.js";
 
-export { createErrorEnvelope, fromNativeError, OmegaError } from "./errors.js";
+export { createErrorEnvelope, fromNativeError, OmegaError, GraphValidationError, BudgetExceededError, ProviderHttpError, ProviderTimeoutError } from "./errors.js";
 export { logger, createLogger } from "./logger.js";
@@ -0,0 +1,345 @@
+﻿/**
+ * 条件边表达式（EdgeDefinition.condition）
+ *
+ * 自带词法/语法解析器，不使用 eval / new Function，只能读取作用域内的数据：
+ *   - output  上游节点输出（别名 upstream）
+ *   - input   Run 的全局输入（别名 globalInput）
+ *   - memory  runMemory 快照（别名 runMemory）
+ *
+ * 支持的语法：
+ *   字面量      "text" 'text' 42 3.14 true false null
+ *   成员访问    output.verdict  output["score"]  output.items[0]
+ *   比较        == != === !== < <= > >=（== 与 === 等价，均为严格比较）
+ *   包含        output contains "PASS"（字符串子串 / 数组元素）
+ *   逻辑        && || !  以及括号
+ *
+ * 访问不存在的属性返回 undefined（不会抛错），只允许读取自有属性。
+ */
+
+/** 表达式求值作用域 */
+export interface ConditionScope {
+  output?: unknown;
+  input?: Record<string, unknown>;
+  memory?: Map<string, unknown> | Record<string, unknown>;
+}
+
+/** 表达式语法错误 */
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(`${message} in condition "${expression}"`);
+    this.name = "ConditionSyntaxError";
+  }
+}
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+type Expr =
+  | { type: "literal"; value: unknown }
+  | { type: "ident"; name: string }
+  | { type: "member"; object: Expr; property: Expr }
+  | { type: "unary"; op: "!" | "-"; operand: Expr }
+  | { type: "binary"; op: string; left: Expr; right: Expr };
+
+/** 编译后的条件（可重复求值） */
+export type CompiledCondition = (scope: ConditionScope) => boolean;
+
+const OPERATORS = ["===", "!==", "==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "-", "(", ")", "[", "]", "."];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: "num", value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "\"" || ch === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ConditionSyntaxError("Unterminated string literal", source);
+      }
+      tokens.push({ kind: "str", value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: "ident", value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) {
+      throw new ConditionSyntaxError(`Unexpected character "${ch}" at position ${i}`, source);
+    }
+    tokens.push({ kind: "op", value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+/** 递归下降解析：or → and → equality → relational → unary → postfix → primary */
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): Expr {
+    if (this.tokens.length === 0) {
+      throw new ConditionSyntaxError("Empty expression", this.source);
+    }
+    const expr = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new ConditionSyntaxError(`Unexpected token "${String(this.tokens[this.pos]!.value)}"`, this.source);
+    }
+    return expr;
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.matchOp("||")) {
+      left = { type: "binary", op: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseEquality();
+    while (this.matchOp("&&")) {
+      left = { type: "binary", op: "&&", left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): Expr {
+    let left = this.parseRelational();
+    for (;;) {
+      const op = this.matchOp("===", "!==", "==", "!=");
+      if (!op) return left;
+      left = { type: "binary", op, left, right: this.parseRelational() };
+    }
+  }
+
+  private parseRelational(): Expr {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.matchOp("<=", ">=", "<", ">") ?? (this.matchIdent("contains") ? "contains" : undefined);
+      if (!op) return left;
+      left = { type: "binary", op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Expr {
+    const op = this.matchOp("!", "-");
+    if (op === "!" || op === "-") {
+      return { type: "unary", op, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parsePrimary();
+    for (;;) {
+      if (this.matchOp(".")) {
+        const token = this.next();
+        if (token?.kind !== "ident") {
+          throw new ConditionSyntaxError("Expected property name after \".\"", this.source);
+        }
+        expr = { type: "member", object: expr, property: { type: "literal", value: token.value } };
+      } else if (this.matchOp("[")) {
+        const property = this.parseOr();
+        this.expectOp("]");
+        expr = { type: "member", object: expr, property };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+    if (!token) {
+      throw new ConditionSyntaxError("Unexpected end of expression", this.source);
+    }
+    switch (token.kind) {
+      case "num":
+      case "str":
+        return { type: "literal", value: token.value };
+      case "ident":
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        return { type: "ident", name: token.value };
+      case "op":
+        if (token.value === "(") {
+          const expr = this.parseOr();
+          this.expectOp(")");
+          return expr;
+        }
+        throw new ConditionSyntaxError(`Unexpected token "${token.value}"`, this.source);
+    }
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  private matchOp(...ops: string[]): string | undefined {
+    const token = this.tokens[this.pos];
+    if (token?.kind === "op" && ops.includes(token.value)) {
+      this.pos++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private matchIdent(name: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token?.kind === "ident" && token.value === name) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.matchOp(op)) {
+      throw new ConditionSyntaxError(`Expected "${op}"`, this.source);
+    }
+  }
+}
+
+/** 只读取自有属性，避免通过 constructor / __proto__ 逃逸 */
+function readProperty(object: unknown, key: unknown): unknown {
+  if (object === null || object === undefined) return undefined;
+  if (typeof key !== "string" && typeof key !== "number") return undefined;
+  if (object instanceof Map) return object.get(String(key));
+  if (typeof object === "string") {
+    if (key === "length") return object.length;
+    return typeof key === "number" ? object[key] : undefined;
+  }
+  if (Array.isArray(object) && key === "length") return object.length;
+  if (typeof object !== "object") return undefined;
+  return Object.prototype.hasOwnProperty.call(object, key)
+    ? (object as Record<string | number, unknown>)[key]
+    : undefined;
+}
+
+function resolveIdentifier(name: string, scope: ConditionScope): unknown {
+  switch (name) {
+    case "output":
+    case "upstream":
+      return scope.output;
+    case "input":
+    case "globalInput":
+      return scope.input;
+    case "memory":
+    case "runMemory":
+      return scope.memory;
+    default:
+      return undefined;
+  }
+}
+
+function evaluate(expr: Expr, scope: ConditionScope): unknown {
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "ident":
+      return resolveIdentifier(expr.name, scope);
+    case "member":
+      return readProperty(evaluate(expr.object, scope), evaluate(expr.property, scope));
+    case "unary": {
+      const value = evaluate(expr.operand, scope);
+      return expr.op === "!" ? !value : -Number(value);
+    }
+    case "binary": {
+      if (expr.op === "&&") return evaluate(expr.left, scope) && evaluate(expr.right, scope);
+      if (expr.op === "||") return evaluate(expr.left, scope) || evaluate(expr.right, scope);
+
+      const left = evaluate(expr.left, scope);
+      const right = evaluate(expr.right, scope);
+      switch (expr.op) {
+        case "==":
+        case "===":
+          return left === right;
+        case "!=":
+        case "!==":
+          return left !== right;
+        case "<":
+          return compare(left, right, (a, b) => a < b);
+        case "<=":
+          return compare(left, right, (a, b) => a <= b);
+        case ">":
+          return compare(left, right, (a, b) => a > b);
+        case ">=":
+          return compare(left, right, (a, b) => a >= b);
+        case "contains":
+          if (typeof left === "string") return typeof right === "string" && left.includes(right);
+          if (Array.isArray(left)) return left.includes(right);
+          return false;
+        default:
+          return undefined;
+      }
+    }
+  }
+}
+
+/** 仅在两侧同为数字或同为字符串时比较，其余情况为 false */
+function compare(
+  left: unknown,
+  right: unknown,
+  fn: (a: number | string, b: number | string) => boolean
+): boolean {
+  if (typeof left === "number" && typeof right === "number") return fn(left, right);
+  if (typeof left === "string" && typeof right === "string") return fn(left, right);
+  return false;
+}
+
+/**
+ * 编译条件表达式；语法错误时抛出 ConditionSyntaxError
+ */
+export function compileCondition(expression: string): CompiledCondition {
+  const ast = new Parser(tokenize(expression), expression).parse();
+  return (scope) => Boolean(evaluate(ast, scope));
+}
+
+const compiledCache = new Map<string, CompiledCondition>();
+
+/**
+ * 对条件表达式求值（编译结果按表达式文本缓存）
+ */
+export function evaluateCondition(expression: string, scope: ConditionScope): boolean {
+  let compiled = compiledCache.get(expression);
+  if (!compiled) {
+    compiled = compileCondition(expression);
+    compiledCache.set(expression, compiled);
+  }
+  return compiled(scope);
+}
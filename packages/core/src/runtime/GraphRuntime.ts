@@ -1,6 +1,6 @@
 ﻿import { nanoid } from "nanoid";
 import type {
-  GraphDefinition, Run, Step, StepEvent, WsEvent
+  BudgetConfig, GraphDefinition, NodeDefinition, Run, Step, StepEvent, WsEvent
 } from "@omega/shared";
 import {
   RunState, NodeState, ErrorType
@@ -8,9 +8,13 @@ import {
 import type { RunRepository } from "@omega/db";
 import type { StepRepository } from "@omega/db";
 import type { EventRepository } from "@omega/db";
-import { fromNativeError } from "../errors.js";
+import type { CheckpointRepository } from "@omega/db";
+import { BudgetExceededError, createErrorEnvelope, fromNativeError, OmegaError } from "../errors.js";
 import { createLogger } from "../logger.js";
-import type { GraphNodeRunner, NodeContext } from "../executor/NodeExecutor.js";
+import type { GraphNodeRunner, NodeContext, NodeResult } from "../executor/NodeExecutor.js";
+import { buildGraphTopology, collectDescendants, validateProviderRefs } from "./GraphTopology.js";
+import type { GraphTopology, ProviderLookup } from "./GraphTopology.js";
+import { evaluateCondition } from "./ConditionExpression.js";
 
 const log = createLogger("GraphRuntime");
 
@@ -27,6 +31,75 @@ interface RuntimeState {
   startedAt: Date;
   /** 用于 cancel/pause 的中止信号 */
   abortController: AbortController;
+  /** 生效的资源预算（graph.budget 与 budgetOverride 合并后） */
+  budget?: BudgetConfig;
+  /** 已触发的预算超限错误（触发后中止后续节点调度） */
+  budgetError?: BudgetExceededError;
+}
+
+/** 已完成的执行进度（fork 继承 / 恢复 Run 时传入 executeGraph） */
+interface RunProgress {
+  /** nodeId → 已完成节点的输出，这些节点不会重新执行 */
+  outputs: Map<string, unknown>;
+  /** 已记录为 SKIPPED 的节点 */
+  skipped: Set<string>;
+  /** 恢复的 runMemory（崩溃恢复时来自检查点） */
+  runMemory?: Map<string, unknown>;
+}
+
+/** startRun 可选参数 */
+export interface StartRunOptions {
+  /** 覆盖 Graph 的预算设置（只覆盖给出的字段） */
+  budgetOverride?: BudgetConfig;
+  /** 回放时传入原 Run ID，记录到 Run.replayOfRunId 以区分真实执行 */
+  replayOf?: string;
+}
+
+/** 合并 Graph 预算与覆盖值，全部为空时返回 undefined */
+function resolveBudget(base?: BudgetConfig, override?: BudgetConfig): BudgetConfig | undefined {
+  const merged: BudgetConfig = { ...base };
+  if (override?.maxTokens !== undefined) merged.maxTokens = override.maxTokens;
+  if (override?.maxCostUsd !== undefined) merged.maxCostUsd = override.maxCostUsd;
+  if (override?.maxTimeMs !== undefined) merged.maxTimeMs = override.maxTimeMs;
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/** 并行组未配置 maxConcurrency 时的默认并发上限 */
+const DEFAULT_PARALLEL_CONCURRENCY = 4;
+
+/**
+ * 以有限并发执行任务，结果按 items 顺序返回
+ * 任一任务失败后不再启动新任务，等待已启动的任务结束后抛出第一个错误；
+ * signal 中止后同样不再启动新任务（未执行的位置为 undefined）
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  signal: AbortSignal,
+  worker: (item: T) => Promise<R>
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+  let nextIndex = 0;
+  let firstError: unknown;
+  let failed = false;
+
+  const lane = async (): Promise<void> => {
+    while (nextIndex < items.length && !failed && !signal.aborted) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index]!);
+      } catch (err) {
+        if (!failed) {
+          failed = true;
+          firstError = err;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  if (failed) throw firstError;
+  return results;
 }
 
 /**
@@ -42,7 +115,11 @@ export class GraphRuntime {
     private readonly runRepo: RunRepository,
     private readonly stepRepo: StepRepository,
     private readonly eventRepo: EventRepository,
-    private readonly onEvent: RuntimeEventCallback
+    private readonly onEvent: RuntimeEventCallback,
+    /** 可选：传入后每个节点完成时写入检查点，进程中途退出后可恢复 */
+    private readonly checkpointRepo?: CheckpointRepository,
+    /** 可选：传入后加载阶段校验 LLM 节点引用的 Provider ID（未注册时拒绝启动，而不是执行到该节点才失败） */
+    private readonly providers?: ProviderLookup
   ) {}
 
   /**
@@ -50,10 +127,16 @@ export class GraphRuntime {
    */
   async startRun(
     graph: GraphDefinition,
-    input?: Record<string, unknown>
+    input?: Record<string, unknown>,
+    options: StartRunOptions = {}
   ): Promise<string> {
+    // 加载阶段校验图结构（环路 / 悬空边 / 未知 Provider 直接拒绝，不创建 Run 记录）
+    const topology = this.loadTopology(graph);
+
     const runId = nanoid();
     const now = new Date().toISOString();
+    // 生效预算随 Run 持久化，resume / fork 时沿用（budgetOverride 不会丢失）
+    const budget = resolveBudget(graph.budget, options.budgetOverride);
 
     // 创建 Run 记录
     const run: Run = {
@@ -62,12 +145,14 @@ export class GraphRuntime {
       graphVersion: graph.version,
       state: RunState.IDLE,
       input,
+      ...(options.replayOf !== undefined && { replayOfRunId: options.replayOf }),
+      ...(budget !== undefined && { budget }),
       totalTokens: 0,
       totalCostUsd: 0,
       startedAt: now,
       createdAt: now,
     };
-    this.runRepo.create(run);
+    this.runRepo.create(run, graph);
 
     // 初始化运行时状态
     const runtimeState: RuntimeState = {
@@ -77,6 +162,7 @@ export class GraphRuntime {
       totalCostUsd: 0,
       startedAt: new Date(),
       abortController: new AbortController(),
+      ...(budget !== undefined && { budget }),
     };
     this.activeRuns.set(runId, runtimeState);
 
@@ -94,7 +180,7 @@ export class GraphRuntime {
     log.info({ runId, graphId: graph.id }, "Run started");
 
     // 异步执行 (不阻塞启动)
-    this.executeGraph(graph, runId, input, runtimeState).catch(err => {
+    this.executeGraph(topology, runId, input, runtimeState).catch(err => {
       log.error({ runId, err }, "Unhandled error during graph execution");
     });
 
@@ -119,6 +205,131 @@ export class GraphRuntime {
     log.info({ runId }, "Run paused");
   }
 
+  /**
+   * 恢复 PAUSED 状态的 Run，或进程退出后遗留的 RUNNING Run（见 findOrphanedRuns）
+   * - Run 仍在本进程中活跃：解除暂停，调度循环从下一个节点继续
+   * - Run 不在本进程中（如 CLI / 应用重启后）：跳过已完成的节点，从剩余节点继续执行（沿用原 runId）；
+   *   未传入 graph 时使用 Run 创建时保存的图定义
+   */
+  async resumeRun(runId: string, graph?: GraphDefinition): Promise<void> {
+    const active = this.activeRuns.get(runId);
+    if (active) {
+      if (active.state !== RunState.PAUSED) {
+        throw new Error(`Run ${runId} is not in PAUSED state`);
+      }
+      active.state = RunState.RUNNING;
+      this.runRepo.updateState(runId, RunState.RUNNING);
+      this.emitRunResumed(runId);
+      return;
+    }
+
+    const run = this.runRepo.findById(runId);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+    if (run.state !== RunState.PAUSED && run.state !== RunState.RUNNING) {
+      throw new Error(`Run ${runId} cannot be resumed (current state: ${run.state})`);
+    }
+
+    const resumeGraph = graph ?? this.runRepo.findGraphDefinition(runId);
+    if (!resumeGraph) {
+      throw new Error(`Run ${runId} has no stored graph definition; a graph definition is required to resume it`);
+    }
+    if (resumeGraph.id !== run.graphId) {
+      throw new Error(`Graph "${resumeGraph.id}" does not match run ${runId} (graph "${run.graphId}")`);
+    }
+
+    const topology = this.loadTopology(resumeGraph);
+    // 进程退出时正在执行的节点：Step 停留在 PENDING / RUNNING，标记为 ERROR 后重新执行
+    this.failStaleSteps(runId);
+    const progress = this.loadRunProgress(runId, topology);
+    const stats = this.eventRepo.getRunStats(runId);
+    const fromCheckpoint = progress.runMemory !== undefined;
+    // 优先使用 Run 启动时持久化的生效预算（含 budgetOverride），旧 Run 回退到 graph.budget
+    const budget = run.budget ?? resumeGraph.budget;
+
+    const runtimeState: RuntimeState = {
+      runId,
+      state: RunState.IDLE,
+      totalTokens: stats.totalTokens,
+      totalCostUsd: stats.totalCostUsd,
+      startedAt: new Date(run.startedAt),
+      abortController: new AbortController(),
+      ...(budget !== undefined && { budget }),
+    };
+    this.activeRuns.set(runId, runtimeState);
+    this.emitRunResumed(runId);
+
+    log.info(
+      { runId, completedNodes: progress.outputs.size, fromCheckpoint },
+      "Resuming run from persisted progress"
+    );
+
+    this.executeGraph(topology, runId, run.input, runtimeState, progress).catch(err => {
+      log.error({ runId, err }, "Unhandled error during resumed graph execution");
+    });
+  }
+
+  /**
+   * 查找孤儿 Run：DB 中仍为 RUNNING、但不在本进程中执行的 Run
+   * （应用 / CLI 在执行中途退出导致）。启动时调用，由上层决定 resumeRun 或 abandonRun
+   */
+  findOrphanedRuns(): Run[] {
+    return this.runRepo.findByState(RunState.RUNNING).filter(run => !this.activeRuns.has(run.runId));
+  }
+
+  /**
+   * 放弃一个孤儿 Run：标记为 FAILED 并清理检查点
+   */
+  abandonRun(runId: string): void {
+    if (this.activeRuns.has(runId)) {
+      throw new Error(`Run ${runId} is still active in this process`);
+    }
+    const run = this.runRepo.findById(runId);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+
+    this.failStaleSteps(runId);
+    const stats = this.eventRepo.getRunStats(runId);
+    const completedAt = new Date().toISOString();
+    this.runRepo.complete(runId, {
+      state: RunState.FAILED,
+      totalTokens: stats.totalTokens,
+      totalCostUsd: stats.totalCostUsd,
+      durationMs: Date.parse(completedAt) - Date.parse(run.startedAt),
+      error: createErrorEnvelope(ErrorType.SYSTEM_ERROR, "Run was interrupted and abandoned", { runId }),
+      completedAt,
+    });
+    this.checkpointRepo?.delete(runId);
+    log.info({ runId }, "Orphaned run abandoned");
+  }
+
+  /** 加载阶段校验：图结构 + 节点引用的 Provider，非法时抛出 GraphValidationError */
+  private loadTopology(graph: GraphDefinition): GraphTopology {
+    const topology = buildGraphTopology(graph);
+    if (this.providers) validateProviderRefs(graph, this.providers);
+    return topology;
+  }
+
+  /** 将进程退出时未完成的 Steps（PENDING / RUNNING）标记为 ERROR */
+  private failStaleSteps(runId: string): void {
+    const completedAt = new Date().toISOString();
+    for (const step of this.stepRepo.findByRunId(runId)) {
+      if (step.state === NodeState.PENDING || step.state === NodeState.RUNNING) {
+        this.stepRepo.updateState(step.stepId, NodeState.ERROR, { completedAt });
+      }
+    }
+  }
+
+  private emitRunResumed(runId: string): void {
+    this.onEvent({
+      type: "event:run_resumed",
+      payload: { runId, resumedAt: new Date().toISOString() },
+    });
+    log.info({ runId }, "Run resumed");
+  }
+
   /**
    * 取消正在运行的 Run
    */
@@ -167,8 +378,19 @@ export class GraphRuntime {
       throw new Error(`Parent run ${parentRunId} not found`);
     }
 
+    const topology = this.loadTopology(graph);
+
+    // fromStep 对应的节点及其全部下游需要重新执行；其余节点继承父 Run 的结果
+    const parentSteps = this.stepRepo.findByRunId(parentRunId);
+    const fromStep = parentSteps.find(s => s.stepId === fromStepId);
+    const rerunNodeIds = fromStep && topology.nodes.has(fromStep.nodeId)
+      ? collectDescendants(topology, fromStep.nodeId)
+      : new Set(topology.order);
+
     const newRunId = nanoid();
     const now = new Date().toISOString();
+    // Fork 沿用父 Run 的生效预算（含 budgetOverride），旧 Run 回退到 graph.budget
+    const budget = parentRun.budget ?? graph.budget;
 
     // 创建 Fork Run 记录
     const newRun: Run = {
@@ -180,23 +402,29 @@ export class GraphRuntime {
       forkFromStepId: fromStepId,
       parentVersion: parentRun.graphVersion,
       input: inputOverride ?? parentRun.input,
+      ...(budget !== undefined && { budget }),
       totalTokens: 0,
       totalCostUsd: 0,
       startedAt: now,
       createdAt: now,
     };
-    this.runRepo.create(newRun);
-
-    // 复制父 Run 中 fromStep 之前的 Steps，标记为 inherited
-    const parentSteps = this.stepRepo.findByRunId(parentRunId);
-    const forkStepIndex = parentSteps.findIndex(s => s.stepId === fromStepId);
-    const inheritedSteps = forkStepIndex > 0 ? parentSteps.slice(0, forkStepIndex) : [];
+    this.runRepo.create(newRun, graph);
+
+    // 复制父 Run 中不需要重跑的成功 Steps，标记为 inherited，并恢复其输出供下游使用
+    const inheritedSteps = parentSteps.filter(s =>
+      s.state === NodeState.SUCCESS && !rerunNodeIds.has(s.nodeId) && topology.nodes.has(s.nodeId)
+    );
+    const completedOutputs = new Map<string, unknown>();
+    for (const s of inheritedSteps) {
+      completedOutputs.set(s.nodeId, this.loadStepOutput(s));
+    }
 
-    const newInheritedSteps: Step[] = inheritedSteps.map(s => ({
+    const newInheritedSteps: Step[] = inheritedSteps.map((s, index) => ({
       ...s,
       stepId: nanoid(),
       runId: newRunId,
       inherited: true,
+      sequence: index,
     }));
     this.stepRepo.createMany(newInheritedSteps);
 
@@ -210,18 +438,7 @@ export class GraphRuntime {
       },
     });
 
-    log.info({ newRunId, parentRunId, fromStepId }, "Run forked");
-
-    // 从 fromStep 对应的节点开始执行剩余图
-    const fromStep = parentSteps.find(s => s.stepId === fromStepId);
-    const fromNodeIndex = fromStep
-      ? graph.nodes.findIndex(n => n.id === fromStep.nodeId)
-      : 0;
-
-    const partialGraph: GraphDefinition = {
-      ...graph,
-      nodes: graph.nodes.slice(fromNodeIndex),
-    };
+    log.info({ newRunId, parentRunId, fromStepId, rerunNodes: rerunNodeIds.size }, "Run forked");
 
     const runtimeState: RuntimeState = {
       runId: newRunId,
@@ -230,10 +447,17 @@ export class GraphRuntime {
       totalCostUsd: 0,
       startedAt: new Date(),
       abortController: new AbortController(),
+      ...(budget !== undefined && { budget }),
     };
     this.activeRuns.set(newRunId, runtimeState);
 
-    this.executeGraph(partialGraph, newRunId, inputOverride ?? parentRun.input, runtimeState).catch(err => {
+    this.executeGraph(
+      topology,
+      newRunId,
+      inputOverride ?? parentRun.input,
+      runtimeState,
+      { outputs: completedOutputs, skipped: new Set() }
+    ).catch(err => {
       log.error({ newRunId, err }, "Unhandled error during forked graph execution");
     });
 
@@ -241,23 +465,102 @@ export class GraphRuntime {
   }
 
   /**
-   * 核心图执行逻辑 (串行节点调度)
+   * 重建执行进度：优先使用检查点（含 runMemory），
+   * 没有检查点时从已持久化的 Steps 重建（SUCCESS 节点的输出 + SKIPPED 节点）
+   */
+  private loadRunProgress(runId: string, topology: GraphTopology): RunProgress {
+    const checkpoint = this.checkpointRepo?.findByRunId(runId);
+    if (checkpoint) {
+      return {
+        outputs: new Map(Object.entries(checkpoint.nodeOutputs).filter(([id]) => topology.nodes.has(id))),
+        skipped: new Set(checkpoint.skippedNodes.filter(id => topology.nodes.has(id))),
+        runMemory: new Map(Object.entries(checkpoint.runMemory)),
+      };
+    }
+
+    const progress: RunProgress = { outputs: new Map(), skipped: new Set() };
+    for (const step of this.stepRepo.findByRunId(runId)) {
+      if (!topology.nodes.has(step.nodeId)) continue;
+      if (step.state === NodeState.SUCCESS) {
+        progress.outputs.set(step.nodeId, this.loadStepOutput(step));
+      } else if (step.state === NodeState.SKIPPED) {
+        progress.skipped.add(step.nodeId);
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * 读取某个 Step 最后一次成功输出（events.output 为 JSON 序列化）
+   * fork 继承的 Step 没有自己的事件，沿 parentRunId 链找到原 Run 中同一节点的成功 Step 读取
+   */
+  private loadStepOutput(step: Step): unknown {
+    let source: Step | undefined = step;
+    while (source) {
+      const events = this.eventRepo.findByStepId(source.stepId);
+      for (let i = events.length - 1; i >= 0; i--) {
+        const output = events[i]!.output;
+        if (output !== undefined) {
+          try {
+            return JSON.parse(output);
+          } catch {
+            return output;
+          }
+        }
+      }
+      if (!source.inherited) return undefined;
+
+      const parentRunId: string | undefined = this.runRepo.findById(source.runId)?.parentRunId;
+      if (!parentRunId) return undefined;
+      const nodeId: string = source.nodeId;
+      source = this.stepRepo.findByRunId(parentRunId)
+        .filter(s => s.nodeId === nodeId && s.state === NodeState.SUCCESS)
+        .pop();
+    }
+    return undefined;
+  }
+
+  /**
+   * 核心图执行逻辑
+   * 按 edges 推导出的拓扑序调度：节点只会在其全部上游节点完成后执行
+   * 带 condition 的边只有在表达式为真时才会激活；没有任何激活入边的节点记为 SKIPPED
+   * 并行组作为一个批次并发执行（受 maxConcurrency 限制），下游节点收到 { [nodeId]: output }
+   *
+   * 配置了 checkpointRepo 时，每个节点完成（或被跳过）后写入检查点，Run 结束后删除
+   *
+   * @param progress 已完成的进度（fork 继承自父 Run / 恢复 Run 时从 DB 重建），这些节点不会重新执行
    */
   private async executeGraph(
-    graph: GraphDefinition,
+    topology: GraphTopology,
     runId: string,
     input: Record<string, unknown> | undefined,
-    runtimeState: RuntimeState
+    runtimeState: RuntimeState,
+    progress: RunProgress = { outputs: new Map(), skipped: new Set() }
   ): Promise<void> {
     runtimeState.state = RunState.RUNNING;
     this.runRepo.updateState(runId, RunState.RUNNING);
 
-    const runMemory = new Map<string, unknown>();
-    let previousOutput: unknown = undefined;
-    let sequence = 0;
+    const runMemory = new Map<string, unknown>(progress.runMemory);
+    const outputs = new Map<string, unknown>(progress.outputs);
+    const skipped = new Set<string>(progress.skipped);
+    const checkpoint = () => this.saveCheckpoint(runtimeState, outputs, skipped, runMemory);
+    checkpoint();
+    // 继承的 Steps 已占用前面的 sequence
+    let sequence = this.stepRepo.findByRunId(runId).length;
+
+    // maxTimeMs：到时即标记超限并中止调度（正在执行的节点会跑完）
+    const maxTimeMs = runtimeState.budget?.maxTimeMs;
+    const budgetTimer = maxTimeMs !== undefined
+      ? setTimeout(() => this.enforceBudget(runtimeState), maxTimeMs)
+      : undefined;
 
     try {
-      for (const node of graph.nodes) {
+      for (const batch of topology.batches) {
+        const pending = batch.nodeIds.filter(id => !outputs.has(id) && !skipped.has(id));
+        if (pending.length === 0) continue;
+
+        if (runtimeState.budgetError) throw runtimeState.budgetError;
+
         // 检查是否被取消/暂停
         if (runtimeState.abortController.signal.aborted) {
           break;
@@ -272,96 +575,54 @@ export class GraphRuntime {
 
         if (runtimeState.abortController.signal.aborted) break;
 
-        // 创建 Step 记录
-        const stepId = nanoid();
-        const step: Step = {
-          stepId,
-          runId,
-          nodeId: node.id,
-          nodeType: node.type,
-          nodeLabel: node.label,
-          state: NodeState.PENDING,
-          inherited: false,
-          retryCount: 0,
-          sequence: sequence++,
-        };
-        this.stepRepo.create(step);
-
-        // 广播 step_started
-        const stepStartedAt = new Date().toISOString();
-        this.onEvent({
-          type: "event:step_started",
-          payload: {
-            runId,
-            stepId,
-            nodeId: node.id,
-            nodeType: node.type,
-            nodeLabel: node.label,
-            sequence: step.sequence,
-            startedAt: stepStartedAt,
-          },
-        });
-
-        runtimeState.currentNodeId = node.id;
-
-        // 构建执行上下文
-        // exactOptionalPropertyTypes: 只有有值时才设置可选字段
-        const ctx: NodeContext = {
-          runId,
-          stepId,
-          runMemory,
-          ...(previousOutput !== undefined && { previousOutput }),
-          ...(input !== undefined && { globalInput: input }),
-        };
-
-        // 执行节点
-        let nodeResult: { output: unknown; tokens?: number; costUsd?: number } | undefined;
-
-        await this.nodeRunner.run(
-          node,
-          ctx,
-          // onEvent 回调: 追加事件到 DB
-          (eventPartial) => {
-            const fullEvent: StepEvent = {
-              eventId: eventPartial.eventId ?? nanoid(),
-              runId,
-              stepId,
-              nodeId: node.id,
-              timestamp: eventPartial.timestamp ?? new Date().toISOString(),
-              ...eventPartial,
-            };
-            this.eventRepo.append(fullEvent);
-
-            // 广播 step_completed
-            this.onEvent({
-              type: "event:step_completed",
-              payload: { runId, stepId, nodeId: node.id, event: fullEvent },
-            });
-
-            // 累计 token 和 cost
-            if (fullEvent.tokens) runtimeState.totalTokens += fullEvent.tokens;
-            if (fullEvent.costUsd) runtimeState.totalCostUsd += fullEvent.costUsd;
-          },
-          // onStateChange 回调: 更新 Step 状态
-          // 只传 updateState 期望的字段，避免 Partial<Step> 与窄类型不兼容
-          (state, data) => {
-            this.stepRepo.updateState(stepId, state, data ? {
-              ...(data.startedAt !== undefined && { startedAt: data.startedAt }),
-              ...(data.completedAt !== undefined && { completedAt: data.completedAt }),
-              ...(data.durationMs !== undefined && { durationMs: data.durationMs }),
-              ...(data.retryCount !== undefined && { retryCount: data.retryCount }),
-            } : undefined);
+        // 执行前按节点数组顺序解析路由并分配 sequence，并发完成顺序不影响编号
+        const runnable: Array<{ node: NodeDefinition; sequence: number; previousOutput: unknown }> = [];
+        for (const nodeId of pending) {
+          const node = topology.nodes.get(nodeId)!;
+          const activeSources = this.resolveActiveSources(topology, nodeId, outputs, runMemory, input);
+          if (activeSources === null) {
+            this.recordSkippedStep(node, runId, sequence++, "No active incoming edge");
+            skipped.add(nodeId);
+            checkpoint();
+            continue;
           }
-        ).then(result => {
-          nodeResult = result;
-        });
+          runnable.push({
+            node,
+            sequence: sequence++,
+            previousOutput: this.collectUpstreamOutput(activeSources, outputs),
+          });
+        }
 
-        // 将此节点输出作为下一个节点的输入
-        if (nodeResult) {
-          previousOutput = nodeResult.output;
+        const concurrency = batch.group?.maxConcurrency ?? DEFAULT_PARALLEL_CONCURRENCY;
+        if (batch.group && runnable.length > 1) {
+          log.info(
+            { runId, groupId: batch.group.id, nodeIds: runnable.map(r => r.node.id), concurrency },
+            "Running parallel group"
+          );
         }
+
+        // 每个节点完成后立即记录输出并写入检查点（并行组中先完成的节点不必等待整批结束）
+        await runWithConcurrency(
+          runnable,
+          concurrency,
+          runtimeState.abortController.signal,
+          async item => {
+            const result = await this.runNode(
+              item.node, runId, item.sequence, runMemory, item.previousOutput, input, runtimeState
+            );
+            outputs.set(item.node.id, result.output);
+            checkpoint();
+            return result;
+          }
+        );
       }
 
+      if (runtimeState.budgetError) throw runtimeState.budgetError;
+
+      // Run 输出取自汇点（无下游的节点）
+      const sinkIds = topology.order.filter(id => topology.downstream.get(id)!.length === 0);
+      const finalOutput = this.collectUpstreamOutput(sinkIds, outputs);
+
       // Run 成功完成
       const completedAt = new Date().toISOString();
       const durationMs = Date.now() - runtimeState.startedAt.getTime();
@@ -369,9 +630,9 @@ export class GraphRuntime {
       runtimeState.state = RunState.COMPLETED;
       this.runRepo.complete(runId, {
         state: RunState.COMPLETED,
-        output: typeof previousOutput === "object" && previousOutput !== null
-          ? previousOutput as Record<string, unknown>
-          : { result: previousOutput },
+        output: typeof finalOutput === "object" && finalOutput !== null
+          ? finalOutput as Record<string, unknown>
+          : { result: finalOutput },
         totalTokens: runtimeState.totalTokens,
         totalCostUsd: runtimeState.totalCostUsd,
         durationMs,
@@ -383,7 +644,7 @@ export class GraphRuntime {
         payload: {
           runId,
           state: "COMPLETED",
-          output: typeof previousOutput === "object" ? previousOutput as Record<string, unknown> : undefined,
+          output: typeof finalOutput === "object" ? finalOutput as Record<string, unknown> : undefined,
           totalTokens: runtimeState.totalTokens,
           totalCostUsd: runtimeState.totalCostUsd,
           durationMs,
@@ -396,11 +657,21 @@ export class GraphRuntime {
     } catch (err) {
       const completedAt = new Date().toISOString();
       const durationMs = Date.now() - runtimeState.startedAt.getTime();
-      const errorEnvelope = fromNativeError(err, ErrorType.SYSTEM_ERROR, { runId });
-
-      runtimeState.state = RunState.FAILED;
+      const errorEnvelope = err instanceof OmegaError
+        ? { ...err.envelope, runId }
+        : fromNativeError(err, ErrorType.SYSTEM_ERROR, { runId });
+
+      // 预算超限属于受控停止：保留已完成节点的输出
+      const budgetExceeded = err instanceof BudgetExceededError;
+      const finalState = budgetExceeded ? RunState.BUDGET_EXCEEDED : RunState.FAILED;
+      const partialOutput = budgetExceeded && outputs.size > 0
+        ? Object.fromEntries(outputs)
+        : undefined;
+
+      runtimeState.state = finalState;
       this.runRepo.complete(runId, {
-        state: RunState.FAILED,
+        state: finalState,
+        ...(partialOutput !== undefined && { output: partialOutput }),
         totalTokens: runtimeState.totalTokens,
         totalCostUsd: runtimeState.totalCostUsd,
         durationMs,
@@ -417,7 +688,9 @@ export class GraphRuntime {
         type: "event:run_completed",
         payload: {
           runId,
-          state: "FAILED",
+          state: budgetExceeded ? "BUDGET_EXCEEDED" : "FAILED",
+          reason: errorEnvelope.message,
+          ...(partialOutput !== undefined && { output: partialOutput }),
           totalTokens: runtimeState.totalTokens,
           totalCostUsd: runtimeState.totalCostUsd,
           durationMs,
@@ -425,13 +698,237 @@ export class GraphRuntime {
         },
       });
 
-      log.error({ runId, error: errorEnvelope }, "Run failed");
+      if (budgetExceeded) {
+        log.warn({ runId, error: errorEnvelope }, "Run stopped: budget exceeded");
+      } else {
+        log.error({ runId, error: errorEnvelope }, "Run failed");
+      }
 
     } finally {
+      if (budgetTimer) clearTimeout(budgetTimer);
+      this.checkpointRepo?.delete(runId);
       this.activeRuns.delete(runId);
     }
   }
 
+  /** 写入检查点（覆盖上一次）；写入失败只记录日志，不影响 Run 执行 */
+  private saveCheckpoint(
+    runtimeState: RuntimeState,
+    outputs: Map<string, unknown>,
+    skipped: Set<string>,
+    runMemory: Map<string, unknown>
+  ): void {
+    if (!this.checkpointRepo) return;
+    try {
+      this.checkpointRepo.save({
+        runId: runtimeState.runId,
+        nodeOutputs: Object.fromEntries(outputs),
+        skippedNodes: [...skipped],
+        runMemory: Object.fromEntries(runMemory),
+        totalTokens: runtimeState.totalTokens,
+        totalCostUsd: runtimeState.totalCostUsd,
+      });
+    } catch (err) {
+      log.warn({ runId: runtimeState.runId, err }, "Failed to save run checkpoint");
+    }
+  }
+
+  /**
+   * 检查 Run 是否超出预算；超限时记录错误并中止后续调度
+   * 在每个 StepEvent 累计 token/cost 之后以及 maxTimeMs 到期时调用
+   */
+  private enforceBudget(runtimeState: RuntimeState): void {
+    const budget = runtimeState.budget;
+    if (!budget || runtimeState.budgetError) return;
+
+    const elapsedMs = Date.now() - runtimeState.startedAt.getTime();
+    let error: BudgetExceededError | undefined;
+    if (budget.maxTokens !== undefined && runtimeState.totalTokens > budget.maxTokens) {
+      error = new BudgetExceededError("maxTokens", budget.maxTokens, runtimeState.totalTokens, runtimeState.runId);
+    } else if (budget.maxCostUsd !== undefined && runtimeState.totalCostUsd > budget.maxCostUsd) {
+      error = new BudgetExceededError("maxCostUsd", budget.maxCostUsd, runtimeState.totalCostUsd, runtimeState.runId);
+    } else if (budget.maxTimeMs !== undefined && elapsedMs >= budget.maxTimeMs) {
+      error = new BudgetExceededError("maxTimeMs", budget.maxTimeMs, elapsedMs, runtimeState.runId);
+    }
+    if (!error) return;
+
+    runtimeState.budgetError = error;
+    runtimeState.abortController.abort();
+    log.warn({ runId: runtimeState.runId, limit: error.limit, limitValue: error.limitValue, actual: error.actual }, "Budget exceeded");
+  }
+
+  /**
+   * 计算节点的激活上游：源节点已产出输出，且边上的条件（若有）为真
+   * 根节点返回空数组；有入边但没有任何一条激活时返回 null（节点应被跳过）
+   */
+  private resolveActiveSources(
+    topology: GraphTopology,
+    nodeId: string,
+    outputs: Map<string, unknown>,
+    runMemory: Map<string, unknown>,
+    input: Record<string, unknown> | undefined
+  ): string[] | null {
+    const edges = topology.inEdges.get(nodeId)!;
+    if (edges.length === 0) return [];
+
+    const active: string[] = [];
+    for (const edge of edges) {
+      // 源节点被跳过（没有输出）时，这条边不可能激活
+      if (!outputs.has(edge.source) || active.includes(edge.source)) continue;
+      if (edge.condition !== undefined) {
+        const taken = evaluateCondition(edge.condition, {
+          output: outputs.get(edge.source),
+          memory: runMemory,
+          ...(input !== undefined && { input }),
+        });
+        log.debug({ edgeId: edge.id, condition: edge.condition, taken }, "Edge condition evaluated");
+        if (!taken) continue;
+      }
+      active.push(edge.source);
+    }
+    return active.length > 0 ? active : null;
+  }
+
+  /** 记录一个被跳过的节点（未命中的条件分支），保证 trace 完整 */
+  private recordSkippedStep(node: NodeDefinition, runId: string, sequence: number, reason: string): void {
+    const stepId = nanoid();
+    const skippedAt = new Date().toISOString();
+    this.stepRepo.create({
+      stepId,
+      runId,
+      nodeId: node.id,
+      nodeType: node.type,
+      nodeLabel: node.label,
+      state: NodeState.SKIPPED,
+      inherited: false,
+      retryCount: 0,
+      startedAt: skippedAt,
+      completedAt: skippedAt,
+      durationMs: 0,
+      sequence,
+    });
+
+    this.onEvent({
+      type: "event:step_skipped",
+      payload: {
+        runId,
+        stepId,
+        nodeId: node.id,
+        nodeType: node.type,
+        nodeLabel: node.label,
+        sequence,
+        reason,
+        skippedAt,
+      },
+    });
+
+    log.info({ runId, nodeId: node.id, reason }, "Step skipped");
+  }
+
+  /**
+   * 汇总上游节点输出：单个上游直接透传，多个上游合并为 { [nodeId]: output }
+   * 没有上游（根节点）时返回 undefined
+   */
+  private collectUpstreamOutput(nodeIds: string[], outputs: Map<string, unknown>): unknown {
+    const available = nodeIds.filter(id => outputs.has(id));
+    if (available.length === 0) return undefined;
+    if (available.length === 1) return outputs.get(available[0]!);
+    return Object.fromEntries(available.map(id => [id, outputs.get(id)]));
+  }
+
+  /**
+   * 执行单个节点：创建 Step、广播事件、持久化 StepEvent 并累计 token/cost
+   */
+  private async runNode(
+    node: NodeDefinition,
+    runId: string,
+    sequence: number,
+    runMemory: Map<string, unknown>,
+    previousOutput: unknown,
+    input: Record<string, unknown> | undefined,
+    runtimeState: RuntimeState
+  ): Promise<NodeResult> {
+    // 创建 Step 记录
+    const stepId = nanoid();
+    const step: Step = {
+      stepId,
+      runId,
+      nodeId: node.id,
+      nodeType: node.type,
+      nodeLabel: node.label,
+      state: NodeState.PENDING,
+      inherited: false,
+      retryCount: 0,
+      sequence,
+    };
+    this.stepRepo.create(step);
+
+    // 广播 step_started
+    const stepStartedAt = new Date().toISOString();
+    this.onEvent({
+      type: "event:step_started",
+      payload: {
+        runId,
+        stepId,
+        nodeId: node.id,
+        nodeType: node.type,
+        nodeLabel: node.label,
+        sequence: step.sequence,
+        startedAt: stepStartedAt,
+      },
+    });
+
+    runtimeState.currentNodeId = node.id;
+
+    // 构建执行上下文
+    // exactOptionalPropertyTypes: 只有有值时才设置可选字段
+    const ctx: NodeContext = {
+      runId,
+      stepId,
+      runMemory,
+      ...(previousOutput !== undefined && { previousOutput }),
+      ...(input !== undefined && { globalInput: input }),
+    };
+
+    return this.nodeRunner.run(
+      node,
+      ctx,
+      // onEvent 回调: 追加事件到 DB
+      (eventPartial) => {
+        const fullEvent: StepEvent = {
+          eventId: eventPartial.eventId ?? nanoid(),
+          runId,
+          stepId,
+          nodeId: node.id,
+          timestamp: eventPartial.timestamp ?? new Date().toISOString(),
+          ...eventPartial,
+        };
+        this.eventRepo.append(fullEvent);
+
+        // 广播 step_completed
+        this.onEvent({
+          type: "event:step_completed",
+          payload: { runId, stepId, nodeId: node.id, event: fullEvent },
+        });
+
+        // 累计 token 和 cost
+        if (fullEvent.tokens) runtimeState.totalTokens += fullEvent.tokens;
+        if (fullEvent.costUsd) runtimeState.totalCostUsd += fullEvent.costUsd;
+        this.enforceBudget(runtimeState);
+      },
+      // onStateChange 回调: 更新 Step 状态
+      // 只传 updateState 期望的字段，避免 Partial<Step> 与窄类型不兼容
+      (state, data) => {
+        this.stepRepo.updateState(stepId, state, data ? {
+          ...(data.startedAt !== undefined && { startedAt: data.startedAt }),
+          ...(data.completedAt !== undefined && { completedAt: data.completedAt }),
+          ...(data.durationMs !== undefined && { durationMs: data.durationMs }),
+          ...(data.retryCount !== undefined && { retryCount: data.retryCount }),
+        } : undefined);
+      }
+    );
+  }
+
   /** 获取活跃 Run 的实时状态 */
   getActiveRunState(runId: string): RuntimeState | undefined {
     return this.activeRuns.get(runId);
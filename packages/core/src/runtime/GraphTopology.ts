@@ -0,0 +1,279 @@
+﻿import type { EdgeDefinition, GraphDefinition, LLMNodeConfig, NodeDefinition, ParallelGroup } from "@omega/shared";
+import { NodeType } from "@omega/shared";
+import { GraphValidationError } from "../errors.js";
+import { compileCondition } from "./ConditionExpression.js";
+
+/**
+ * 图拓扑信息（由 edges 推导，供 GraphRuntime 调度使用）
+ */
+export interface GraphTopology {
+  /** nodeId → 节点定义 */
+  nodes: Map<string, NodeDefinition>;
+  /** nodeId → 上游节点 ID 列表（按 nodes 数组顺序） */
+  upstream: Map<string, string[]>;
+  /** nodeId → 下游节点 ID 列表（按 nodes 数组顺序） */
+  downstream: Map<string, string[]>;
+  /** nodeId → 指向该节点的边（含条件表达式，按源节点数组顺序） */
+  inEdges: Map<string, TopologyEdge[]>;
+  /** 拓扑序：同一批可执行节点按 nodes 数组顺序排列，保证调度结果确定 */
+  order: string[];
+  /** 调度批次：并行组整体作为一个批次，其余节点各自成批（批次顺序与 order 一致） */
+  batches: TopologyBatch[];
+}
+
+/** 调度批次 */
+export interface TopologyBatch {
+  /** 批次内节点（按 nodes 数组顺序） */
+  nodeIds: string[];
+  /** 所属并行组（单节点批次没有） */
+  group?: ParallelGroup;
+}
+
+/** 拓扑中的边（edges 为空时自动生成的隐式边没有 condition） */
+export type TopologyEdge = Pick<EdgeDefinition, "id" | "source" | "target" | "condition">;
+
+/**
+ * 由 GraphDefinition 构建拓扑并校验
+ *
+ * 加载时即拒绝以下非法图（而不是执行到一半才失败）：
+ * - 重复的节点 ID
+ * - 引用不存在节点的边（dangling edge）
+ * - 自环 / 环路
+ * - 无法解析的条件表达式
+ * - 并行组引用不存在的节点、节点重复归组、组内节点之间存在依赖
+ *
+ * 兼容说明：edges 为空且节点数 > 1 时，按 nodes 数组顺序视为隐式链路，
+ * 保持旧版 graph.json（只靠数组顺序串行执行）的行为不变。
+ */
+export function buildGraphTopology(graph: GraphDefinition): GraphTopology {
+  const nodes = new Map<string, NodeDefinition>();
+  const position = new Map<string, number>();
+
+  graph.nodes.forEach((node, index) => {
+    if (nodes.has(node.id)) {
+      throw new GraphValidationError(`Duplicate node id "${node.id}" in graph "${graph.id}"`, {
+        graphId: graph.id,
+        nodeId: node.id,
+      });
+    }
+    nodes.set(node.id, node);
+    position.set(node.id, index);
+  });
+
+  const edges: TopologyEdge[] = graph.edges.length === 0
+    ? graph.nodes.slice(1).map((node, i) => {
+      const source = graph.nodes[i]!.id;
+      return { id: `${source}->${node.id}`, source, target: node.id };
+    })
+    : graph.edges;
+
+  const upstream = new Map<string, string[]>();
+  const downstream = new Map<string, string[]>();
+  const inEdges = new Map<string, TopologyEdge[]>();
+  for (const id of nodes.keys()) {
+    upstream.set(id, []);
+    downstream.set(id, []);
+    inEdges.set(id, []);
+  }
+
+  for (const edge of edges) {
+    const edgeId = edge.id;
+    if (!nodes.has(edge.source) || !nodes.has(edge.target)) {
+      const missing = !nodes.has(edge.source) ? edge.source : edge.target;
+      throw new GraphValidationError(
+        `Edge "${edgeId}" references unknown node "${missing}"`,
+        { graphId: graph.id, edgeId, nodeId: missing }
+      );
+    }
+    if (edge.source === edge.target) {
+      throw new GraphValidationError(
+        `Edge "${edgeId}" forms a self-loop on node "${edge.source}"`,
+        { graphId: graph.id, edgeId, nodeId: edge.source }
+      );
+    }
+    if (edge.condition !== undefined) {
+      try {
+        compileCondition(edge.condition);
+      } catch (err) {
+        throw new GraphValidationError(
+          `Edge "${edgeId}" has an invalid condition: ${(err as Error).message}`,
+          { graphId: graph.id, edgeId, condition: edge.condition }
+        );
+      }
+    }
+    inEdges.get(edge.target)!.push(edge);
+    const ups = upstream.get(edge.target)!;
+    if (!ups.includes(edge.source)) ups.push(edge.source);
+    const downs = downstream.get(edge.source)!;
+    if (!downs.includes(edge.target)) downs.push(edge.target);
+  }
+
+  const byPosition = (a: string, b: string) => position.get(a)! - position.get(b)!;
+  for (const list of upstream.values()) list.sort(byPosition);
+  for (const list of downstream.values()) list.sort(byPosition);
+  for (const list of inEdges.values()) list.sort((a, b) => byPosition(a.source, b.source));
+
+  // Kahn 算法：每轮取入度为 0 的节点中数组位置最靠前的一个
+  const inDegree = new Map<string, number>();
+  for (const [id, ups] of upstream) inDegree.set(id, ups.length);
+
+  const ready = graph.nodes.map(n => n.id).filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(byPosition);
+    const id = ready.shift()!;
+    order.push(id);
+    for (const next of downstream.get(id)!) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) ready.push(next);
+    }
+  }
+
+  if (order.length !== nodes.size) {
+    const cyclic = graph.nodes.map(n => n.id).filter(id => !order.includes(id));
+    throw new GraphValidationError(
+      `Graph "${graph.id}" contains a cycle involving nodes: ${cyclic.join(", ")}`,
+      { graphId: graph.id, nodeIds: cyclic }
+    );
+  }
+
+  const batches = buildBatches(graph, nodes, downstream, position);
+  return { nodes, upstream, downstream, inEdges, order: batches.flatMap(b => b.nodeIds), batches };
+}
+
+/**
+ * 将并行组收缩为单个调度单元后再做一次拓扑排序，得到批次序列
+ * 组内节点之间的直接边、以及经由组外节点的间接依赖（收缩后成环）都会被拒绝
+ */
+function buildBatches(
+  graph: GraphDefinition,
+  nodes: Map<string, NodeDefinition>,
+  downstream: Map<string, string[]>,
+  position: Map<string, number>
+): TopologyBatch[] {
+  const groupOf = new Map<string, ParallelGroup>();
+  for (const group of graph.parallelGroups ?? []) {
+    for (const nodeId of group.nodeIds) {
+      if (!nodes.has(nodeId)) {
+        throw new GraphValidationError(
+          `Parallel group "${group.id}" references unknown node "${nodeId}"`,
+          { graphId: graph.id, groupId: group.id, nodeId }
+        );
+      }
+      const existing = groupOf.get(nodeId);
+      if (existing) {
+        throw new GraphValidationError(
+          `Node "${nodeId}" belongs to multiple parallel groups ("${existing.id}", "${group.id}")`,
+          { graphId: graph.id, groupId: group.id, nodeId }
+        );
+      }
+      groupOf.set(nodeId, group);
+    }
+  }
+
+  // 按节点数组顺序生成调度单元，单元序号即其排序优先级
+  const units: TopologyBatch[] = [];
+  const unitOf = new Map<string, number>();
+  for (const node of graph.nodes) {
+    if (unitOf.has(node.id)) continue;
+    const group = groupOf.get(node.id);
+    if (group) {
+      const members = [...new Set(group.nodeIds)].sort((a, b) => position.get(a)! - position.get(b)!);
+      for (const id of members) unitOf.set(id, units.length);
+      units.push({ nodeIds: members, group });
+    } else {
+      unitOf.set(node.id, units.length);
+      units.push({ nodeIds: [node.id] });
+    }
+  }
+
+  const unitDownstream = units.map(() => new Set<number>());
+  const unitInDegree = units.map(() => 0);
+  units.forEach((unit, index) => {
+    for (const id of unit.nodeIds) {
+      for (const next of downstream.get(id)!) {
+        const target = unitOf.get(next)!;
+        if (target === index && unit.group) {
+          throw new GraphValidationError(
+            `Parallel group "${unit.group.id}" contains dependent nodes "${id}" -> "${next}"`,
+            { graphId: graph.id, groupId: unit.group.id, nodeIds: [id, next] }
+          );
+        }
+        if (target !== index && !unitDownstream[index]!.has(target)) {
+          unitDownstream[index]!.add(target);
+          unitInDegree[target]!++;
+        }
+      }
+    }
+  });
+
+  const ready = units.map((_, index) => index).filter(index => unitInDegree[index] === 0);
+  const batches: TopologyBatch[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => a - b);
+    const index = ready.shift()!;
+    batches.push(units[index]!);
+    for (const next of unitDownstream[index]!) {
+      if (--unitInDegree[next]! === 0) ready.push(next);
+    }
+  }
+
+  if (batches.length !== units.length) {
+    const blocked = units.filter(u => !batches.includes(u) && u.group).map(u => u.group!.id);
+    throw new GraphValidationError(
+      `Parallel group(s) ${blocked.join(", ")} contain nodes that depend on each other`,
+      { graphId: graph.id, groupIds: blocked }
+    );
+  }
+
+  return batches;
+}
+
+/** 按 ID 查询 Provider 是否可用（@omega/providers 的 ProviderRegistry 满足此接口） */
+export interface ProviderLookup {
+  has(id: string): boolean;
+}
+
+/** 以 LLMNodeConfig 调用 LLM 的节点类型 */
+const LLM_NODE_TYPES = new Set<string>([NodeType.LLM, NodeType.PLANNING, NodeType.MEMORY, NodeType.REFLECTION]);
+
+/**
+ * 校验 LLM 型节点引用的 Provider 均已注册
+ * config.provider 为空时使用默认 Provider，不参与校验；存在未知 ID 时一次列出全部并抛出 GraphValidationError
+ */
+export function validateProviderRefs(graph: GraphDefinition, providers: ProviderLookup): void {
+  const missing = graph.nodes
+    .filter(node => LLM_NODE_TYPES.has(node.type))
+    .map(node => ({ nodeId: node.id, provider: (node.config as Partial<LLMNodeConfig> | undefined)?.provider }))
+    .filter((ref): ref is { nodeId: string; provider: string } => !!ref.provider && !providers.has(ref.provider));
+  if (missing.length > 0) {
+    throw new GraphValidationError(
+      `Unknown provider(s): ${missing.map(ref => `"${ref.provider}" (node "${ref.nodeId}")`).join(", ")}`,
+      { graphId: graph.id, missing }
+    );
+  }
+}
+
+/**
+ * 校验图结构（只关心是否合法，不需要拓扑结果时使用）
+ * 传入 providers 时同时校验节点引用的 Provider ID；非法时抛出 GraphValidationError
+ */
+export function validateGraph(graph: GraphDefinition, providers?: ProviderLookup): void {
+  buildGraphTopology(graph);
+  if (providers) validateProviderRefs(graph, providers);
+}
+
+/** 收集某节点及其全部下游节点（用于 fork：这些节点需要重新执行） */
+export function collectDescendants(topology: GraphTopology, nodeId: string): Set<string> {
+  const result = new Set<string>();
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (result.has(id)) continue;
+    result.add(id);
+    stack.push(...(topology.downstream.get(id) ?? []));
+  }
+  return result;
+}
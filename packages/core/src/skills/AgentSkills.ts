@@ -4,12 +4,16 @@
  * 这些 Skills 是不依赖外部 MCP 的纯逻辑能力，由 AgentLoopExecutor 在执行时自动调用。
  *
  * 包含：
- *   - ContextCompressor: 上下文压缩（超出 token 限制时自动摘要历史消息）
+ *   - ContextCompressor: 上下文压缩（超出 token 限制时自动摘要历史消息，支持 LLM 结构化摘要）
+ *   - AnswerVerifier: 完成前自检（校验模型对照任务和观察结果给最终答案打分）
  *   - RetryWithBackoff: 带退避的自动重试（LLM/Tool 调用失败时）
  *   - OutputFormatter: 格式化最终输出（Markdown 清理、代码块检测）
  *   - WebSearchSkill: 纯 JS 的搜索技能包装（与 web_search MCP 配合）
  */
 
+import { countMessageTokens } from "../tokenizer.js";
+import type { TokenCountMessage } from "../tokenizer.js";
+
 // ─────────────────────────────────────────────────────────────
 // ContextCompressor — 上下文压缩技能
 // ─────────────────────────────────────────────────────────────
@@ -20,14 +24,13 @@ export interface ChatMessage {
 }
 
 /**
- * 估算消息列表的 token 数（粗略估算：4 字符 ≈ 1 token）
+ * 估算消息列表的 token 数
+ * 按模型选择 Tokenizer（BPE / CJK 启发式），图片和工具调用参数一并计入
+ *
+ * @param model 模型名（决定 Tokenizer；省略时使用 CJK 启发式）
  */
-export function estimateTokens(messages: ChatMessage[]): number {
-  const totalChars = messages.reduce(
-    (sum, m) => sum + m.content.length,
-    0
-  );
-  return Math.ceil(totalChars / 4);
+export function estimateTokens(messages: readonly TokenCountMessage[], model?: string): number {
+  return countMessageTokens(messages, model);
 }
 
 /**
@@ -39,14 +42,16 @@ export function estimateTokens(messages: ChatMessage[]): number {
  * @param messages 当前消息列表
  * @param maxTokens 最大 token 上限（超过时触发压缩）
  * @param keepRecentRounds 保留最近几轮（每轮 = user+assistant，默认 3）
+ * @param model 模型名（决定 token 计数使用的 Tokenizer）
  * @returns 压缩后的消息列表（包含 wasCompressed 标记）
  */
 export function compressContext(
   messages: ChatMessage[],
   maxTokens: number = 6000,
-  keepRecentRounds: number = 3
+  keepRecentRounds: number = 3,
+  model?: string
 ): { messages: ChatMessage[]; wasCompressed: boolean; savedTokens: number } {
-  const currentTokens = estimateTokens(messages);
+  const currentTokens = estimateTokens(messages, model);
 
   // 未超过上限，不压缩
   if (currentTokens <= maxTokens) {
@@ -71,7 +76,7 @@ export function compressContext(
     return {
       messages: truncated,
       wasCompressed: true,
-      savedTokens: currentTokens - estimateTokens(truncated),
+      savedTokens: currentTokens - estimateTokens(truncated, model),
     };
   }
 
@@ -86,11 +91,11 @@ export function compressContext(
 
   const summaryMessage: ChatMessage = {
     role: "system",
-    content: `[Context Summary - Earlier conversation compressed]\n${summaryLines}\n[End of Summary]`,
+    content: wrapContextSummary(summaryLines),
   };
 
   const compressed = [...systemMessages, summaryMessage, ...recentMessages];
-  const newTokens = estimateTokens(compressed);
+  const newTokens = estimateTokens(compressed, model);
 
   console.log(
     `[ContextCompressor] Compressed: ${currentTokens} → ~${newTokens} tokens (saved ~${currentTokens - newTokens})`
@@ -103,6 +108,172 @@ export function compressContext(
   };
 }
 
+/** 摘要块标记（compressContext 与 summarizeContext 共用，便于模型识别） */
+function wrapContextSummary(summary: string): string {
+  return `[Context Summary - Earlier conversation compressed]\n${summary}\n[End of Summary]`;
+}
+
+/**
+ * LLM 摘要函数：instruction 为摘要指令（作为 system prompt），transcript 为待压缩的对话记录
+ * 由调用方注入（AgentLoopExecutor 复用自身的 AgentLLMInvoker）
+ */
+export type ContextSummarizer = (instruction: string, transcript: string) => Promise<string>;
+
+/** 单条消息写入摘要记录时保留的最大字符数（避免摘要请求本身超出上下文） */
+const SUMMARY_MESSAGE_CHAR_LIMIT = 2000;
+
+/**
+ * 构建结构化摘要指令：要求按固定小节输出，保证文件路径、结论等关键事实不丢失
+ */
+export function buildContextSummaryInstruction(lang: "zh" | "en" = "zh"): string {
+  return lang === "zh"
+    ? `你负责压缩 AI Agent 的对话历史。下面是即将移出上下文窗口的一段对话（包含工具调用与结果）。
+请输出简洁的结构化摘要，只保留后续步骤需要的事实，严格使用以下小节（没有内容写"无"）：
+
+## 涉及的文件
+- 读取、创建或修改过的文件路径及改动要点
+
+## 关键发现
+- 工具结果中得到的事实、数据、结论和已完成的操作
+
+## 待解决问题
+- 尚未完成的子任务、出现过的错误、需要确认的事项
+
+不要编造对话中没有的信息，不要输出小节以外的内容。`
+    : `You compress the conversation history of an AI agent. Below is a span of conversation (including tool calls and results) that is about to leave the context window.
+Write a concise structured summary that keeps only the facts later steps will need, using exactly these sections (write "None" if empty):
+
+## Files touched
+- Paths read, created or modified, with the key changes
+
+## Findings
+- Facts, data, conclusions and completed actions obtained from tool results
+
+## Open questions
+- Unfinished subtasks, errors encountered, things that still need confirmation
+
+Do not invent information that is not in the conversation, and output nothing outside these sections.`;
+}
+
+/**
+ * 用 LLM 把一段对话压缩为结构化摘要（compressContext 的 LLM 版本）
+ * 每条消息截取前 SUMMARY_MESSAGE_CHAR_LIMIT 个字符后交给 summarize，
+ * 返回带 [Context Summary] 标记的摘要文本；summarize 抛出的错误原样传给调用方
+ *
+ * @param messages 要压缩的消息（role 可为 user / assistant / tool 等任意标签）
+ * @param summarize LLM 摘要函数
+ * @param lang 摘要指令语言
+ */
+export async function summarizeContext(
+  messages: Array<{ role: string; content: string }>,
+  summarize: ContextSummarizer,
+  lang: "zh" | "en" = "zh"
+): Promise<string> {
+  const transcript = messages
+    .map((m) => {
+      const text = m.content.length > SUMMARY_MESSAGE_CHAR_LIMIT
+        ? `${m.content.slice(0, SUMMARY_MESSAGE_CHAR_LIMIT)}...`
+        : m.content;
+      return `[${m.role}]: ${text}`;
+    })
+    .join("\n\n");
+
+  const summary = await summarize(buildContextSummaryInstruction(lang), transcript);
+  return wrapContextSummary(summary.trim());
+}
+
+// ─────────────────────────────────────────────────────────────
+// AnswerVerifier — 完成前自检技能
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * LLM 校验函数：instruction 为评分指令（作为 system prompt），input 为任务、观察结果和待评答案
+ * 由调用方注入（AgentLoopExecutor 使用 invokeVerifier，未注入时复用自身的 AgentLLMInvoker）
+ */
+export type AnswerGrader = (instruction: string, input: string) => Promise<string>;
+
+/** 校验结论：score 为 0-1 的置信度，critique 为退回时给 Agent 的修改意见 */
+export interface VerificationVerdict {
+  score: number;
+  critique: string;
+}
+
+/** 写入校验输入的观察结果总字符数上限（保留最近的观察，避免校验请求超出上下文） */
+const VERIFY_OBSERVATION_CHAR_LIMIT = 8000;
+
+/**
+ * 构建评分指令：要求只输出 JSON（score + critique），便于 parseVerificationVerdict 解析
+ */
+export function buildVerificationInstruction(lang: "zh" | "en" = "zh"): string {
+  return lang === "zh"
+    ? `你负责审核 AI Agent 提交的最终答案。请对照用户的原始任务和 Agent 执行过程中得到的工具观察结果，判断答案是否完整、正确地完成了任务：
+- 答案是否回应了任务的全部要求
+- 答案中的事实是否有观察结果支撑，是否与观察结果矛盾
+- 是否遗漏了必要的步骤或产出
+
+只输出一个 JSON 对象，不要输出其他内容：
+{"score": 0 到 1 之间的数字（1 表示完全可信地完成了任务）, "critique": "具体指出问题和需要补充的内容；答案没有问题时写「无」"}`
+    : `You review the final answer submitted by an AI agent. Compare it with the user's original task and the tool observations the agent collected, and judge whether the answer completes the task fully and correctly:
+- Does the answer address every requirement of the task?
+- Are its facts supported by the observations, and does anything contradict them?
+- Are any necessary steps or deliverables missing?
+
+Output a single JSON object and nothing else:
+{"score": a number between 0 and 1 (1 means the task is completed with full confidence), "critique": "concrete problems and what is missing; write \"None\" if the answer is fine"}`;
+}
+
+/**
+ * 解析校验模型的输出：优先读取 JSON 对象，失败时回退到 "score: 0.x" 形式
+ * 找不到分数时抛出错误（由调用方决定是否直接接受答案）
+ */
+export function parseVerificationVerdict(text: string): VerificationVerdict {
+  const jsonStart = text.indexOf("{");
+  const jsonEnd = text.lastIndexOf("}");
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    try {
+      const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as { score?: unknown; critique?: unknown };
+      const score = Number(parsed.score);
+      if (Number.isFinite(score)) {
+        return { score: Math.min(1, Math.max(0, score)), critique: String(parsed.critique ?? "").trim() };
+      }
+    } catch { /* 回退到正则 */ }
+  }
+
+  const match = /score["']?\s*[:=]\s*([01](?:\.\d+)?)/i.exec(text);
+  if (match?.[1]) {
+    return { score: Math.min(1, Number(match[1])), critique: text.trim() };
+  }
+  throw new Error(`Verifier returned no score: ${text.slice(0, 120)}`);
+}
+
+/**
+ * 对照任务和观察结果为最终答案打分
+ * 观察结果按时间顺序拼接，超出 VERIFY_OBSERVATION_CHAR_LIMIT 时只保留最近的部分；
+ * grade 抛出的错误和无法解析的输出原样抛给调用方
+ *
+ * @param input.task 用户原始任务
+ * @param input.answer attempt_completion 提交的答案
+ * @param input.observations 执行过程中的工具观察结果 / 用户回答
+ * @param grade LLM 校验函数
+ * @param lang 评分指令语言
+ */
+export async function verifyAnswer(
+  input: { task: string; answer: string; observations: string[] },
+  grade: AnswerGrader,
+  lang: "zh" | "en" = "zh"
+): Promise<VerificationVerdict> {
+  let observations = input.observations.join("\n\n");
+  if (observations.length > VERIFY_OBSERVATION_CHAR_LIMIT) {
+    observations = `...${observations.slice(-VERIFY_OBSERVATION_CHAR_LIMIT)}`;
+  }
+  const none = lang === "zh" ? "（无）" : "(none)";
+  const text = lang === "zh"
+    ? `# 原始任务\n${input.task}\n\n# 工具观察结果\n${observations || none}\n\n# 待审核的最终答案\n${input.answer}`
+    : `# Original task\n${input.task}\n\n# Tool observations\n${observations || none}\n\n# Final answer to review\n${input.answer}`;
+
+  return parseVerificationVerdict(await grade(buildVerificationInstruction(lang), text));
+}
+
 // ─────────────────────────────────────────────────────────────
 // RetryWithBackoff — 带退避的自动重试技能
 // ─────────────────────────────────────────────────────────────
@@ -320,6 +491,13 @@ export const BUILTIN_SKILL_INFOS: SkillInfo[] = [
       "Automatically compresses conversation history when context exceeds token limits, keeping recent rounds while summarizing older ones.",
     category: "context",
   },
+  {
+    id: "AnswerVerifier",
+    name: "AnswerVerifier",
+    description:
+      "Optionally grades the agent's final answer against the task and collected observations, sending it back with a critique when the score is below the confidence threshold.",
+    category: "reliability",
+  },
   {
     id: "RetryWithBackoff",
     name: "RetryWithBackoff",
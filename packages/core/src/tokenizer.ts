@@ -0,0 +1,141 @@
+﻿/**
+ * Omega Tokenizer — 可插拔的 token 计数
+ *
+ * 上下文截断、预算统计和成本计算共用同一套计数：
+ *   - BPE：OpenAI 系模型（o200k_base / cl100k_base），基于 js-tiktoken 精确计数；
+ *     Llama 3 / Qwen 的词表由 cl100k 扩展而来，用 cl100k_base 近似
+ *   - CJK 回退：其他模型（Ollama 本地模型等）按字符类别估算，中文按 1 字 ≈ 1 token
+ *   - registerTokenizer 可按模型名注册自定义实现（后注册优先）
+ */
+import { getEncoding } from "js-tiktoken";
+import type { Tiktoken, TiktokenEncoding } from "js-tiktoken";
+
+/** Tokenizer 接口 */
+export interface Tokenizer {
+  /** 编码名称（如 o200k_base / cl100k_base / cjk-heuristic） */
+  readonly name: string;
+  /** 计算文本的 token 数 */
+  count(text: string): number;
+}
+
+/** 参与计数的消息结构（兼容 AgentLoop ChatMessage 与 LLMRequest 消息） */
+export interface TokenCountMessage {
+  content: string | ReadonlyArray<
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string; detail?: "auto" | "low" | "high" } }
+  >;
+  toolCalls?: ReadonlyArray<{ name: string; arguments: unknown }> | undefined;
+}
+
+/** 每条消息的格式开销（role、分隔符等，参考 OpenAI chat 格式） */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** detail = "low" 的图片固定 token 数 */
+const IMAGE_LOW_DETAIL_TOKENS = 85;
+/** 其余图片按 1024×1024 高清图估算（85 + 170 × 4 tiles） */
+const IMAGE_DEFAULT_TOKENS = 765;
+
+/**
+ * BPE Tokenizer（js-tiktoken）
+ * 词表在首次计数时才加载，避免未使用的编码拖慢启动
+ */
+export class BpeTokenizer implements Tokenizer {
+  private encoder?: Tiktoken;
+
+  constructor(readonly name: TiktokenEncoding) {}
+
+  count(text: string): number {
+    if (!text) return 0;
+    this.encoder ??= getEncoding(this.name);
+    // allowedSpecial = "all"：文本中出现的 <|endoftext|> 等按特殊 token 计数而不是抛错
+    return this.encoder.encode(text, "all").length;
+  }
+}
+
+/**
+ * CJK 感知的启发式 Tokenizer（没有对应 BPE 词表时使用）
+ * - 汉字 / 假名 / 韩文：1 字 ≈ 1 token
+ * - ASCII：4 字符 ≈ 1 token
+ * - 其他非 ASCII 字符（西里尔、阿拉伯字母等）：2 字符 ≈ 1 token
+ */
+export class CjkHeuristicTokenizer implements Tokenizer {
+  readonly name = "cjk-heuristic";
+
+  count(text: string): number {
+    let cjk = 0;
+    let ascii = 0;
+    let other = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code < 0x80) ascii++;
+      else if (isCjk(code)) cjk++;
+      else other++;
+    }
+    return cjk + Math.ceil(ascii / 4) + Math.ceil(other / 2);
+  }
+}
+
+/** 是否为 CJK 字符（汉字、假名、韩文、全角标点） */
+function isCjk(code: number): boolean {
+  return (code >= 0x3000 && code <= 0x30ff)     // CJK 标点、平假名、片假名
+    || (code >= 0x3400 && code <= 0x4dbf)       // 扩展 A
+    || (code >= 0x4e00 && code <= 0x9fff)       // 基本汉字
+    || (code >= 0xac00 && code <= 0xd7af)       // 韩文音节
+    || (code >= 0xf900 && code <= 0xfaff)       // 兼容汉字
+    || (code >= 0xff00 && code <= 0xffef)       // 全角字符
+    || (code >= 0x20000 && code <= 0x2ffff);    // 扩展 B 及以后
+}
+
+const o200k = new BpeTokenizer("o200k_base");
+const cl100k = new BpeTokenizer("cl100k_base");
+const fallback = new CjkHeuristicTokenizer();
+
+/** 模型名 → Tokenizer（按顺序匹配，registerTokenizer 注册的规则插在最前） */
+const registry: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [
+  { pattern: /(^|\/)(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/i, tokenizer: o200k },
+  { pattern: /(^|\/)(gpt-4|gpt-3\.5|text-embedding)/i, tokenizer: cl100k },
+  { pattern: /llama-?3|qwen/i, tokenizer: cl100k },
+];
+
+/**
+ * 注册自定义 Tokenizer（优先于内置规则）
+ * @param pattern 匹配模型名（如 /^claude/）
+ */
+export function registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+  registry.unshift({ pattern, tokenizer });
+}
+
+/** 按模型名选择 Tokenizer，未知模型使用 CJK 启发式 */
+export function getTokenizer(model?: string): Tokenizer {
+  if (!model) return fallback;
+  return registry.find(entry => entry.pattern.test(model))?.tokenizer ?? fallback;
+}
+
+/** 计算文本 token 数 */
+export function countTextTokens(text: string, model?: string): number {
+  return getTokenizer(model).count(text);
+}
+
+/**
+ * 计算消息列表的 token 数
+ * 包含每条消息的格式开销、多模态图片（按 detail 估算）和原生工具调用参数
+ */
+export function countMessageTokens(messages: readonly TokenCountMessage[], model?: string): number {
+  const tokenizer = getTokenizer(model);
+  let total = 0;
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS;
+    if (typeof message.content === "string") {
+      total += tokenizer.count(message.content);
+    } else {
+      for (const part of message.content) {
+        total += part.type === "text"
+          ? tokenizer.count(part.text)
+          : part.image_url.detail === "low" ? IMAGE_LOW_DETAIL_TOKENS : IMAGE_DEFAULT_TOKENS;
+      }
+    }
+    for (const call of message.toolCalls ?? []) {
+      total += tokenizer.count(call.name) + tokenizer.count(JSON.stringify(call.arguments));
+    }
+  }
+  return total;
+}
@@ -53,6 +53,7 @@ export class OmegaDatabase {
 
     // 迁移：为已有数据库补充 providers 表缺少的列（ALTER TABLE 在列已存在时会抛错，静默忽略即可）
     this.migrateProviders();
+    this.migrateRuns();
 
     console.log("[OmegaDatabase] Database initialized successfully");
   }
@@ -84,6 +85,31 @@ export class OmegaDatabase {
     }
   }
 
+  /**
+   * runs 表列迁移
+   *   - v0.1.2 graph_hash：关联 graphs 表中的图定义快照（omega fork / replay 无需原始 graph 文件）
+   *   - v0.1.3 replay_of_run_id：标记 omega replay 产生的 Run
+   *   - v0.1.3 budget：生效的资源预算（resume / fork 时沿用 budgetOverride）
+   */
+  private migrateRuns(): void {
+    const migrations = [
+      { col: "graph_hash",       sql: "ALTER TABLE runs ADD COLUMN graph_hash TEXT REFERENCES graphs(graph_hash)" },
+      { col: "replay_of_run_id", sql: "ALTER TABLE runs ADD COLUMN replay_of_run_id TEXT" },
+      { col: "budget",           sql: "ALTER TABLE runs ADD COLUMN budget TEXT" },
+    ];
+    for (const m of migrations) {
+      try {
+        this.db.exec(m.sql);
+        console.log(`[OmegaDatabase] Migration applied: runs.${m.col} column added`);
+      } catch (e) {
+        const msg = (e as Error).message ?? "";
+        if (!msg.includes("duplicate column")) {
+          console.error(`[OmegaDatabase] Migration FAILED for runs.${m.col}:`, e);
+        }
+      }
+    }
+  }
+
   /** 获取原始 db 实例 (供 Repository 使用) */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   get instance(): any {
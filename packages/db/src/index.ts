@@ -5,4 +5,12 @@ export { OmegaDatabase, getDatabase, closeDatabase } from "./database.js";
 export { RunRepository } from "./repositories/RunRepository.js";
 export { StepRepository } from "./repositories/StepRepository.js";
 export { EventRepository } from "./repositories/EventRepository.js";
+export { NodeCacheRepository } from "./repositories/NodeCacheRepository.js";
+export type { NodeCacheEntry } from "./repositories/NodeCacheRepository.js";
+export { GraphRepository, computeGraphHash } from "./repositories/GraphRepository.js";
+export type { GraphSnapshot } from "./repositories/GraphRepository.js";
+export { CheckpointRepository } from "./repositories/CheckpointRepository.js";
+export type { RunCheckpoint } from "./repositories/CheckpointRepository.js";
+export { ModelPricingRepository } from "./repositories/ModelPricingRepository.js";
+export type { ModelPricingRecord } from "./repositories/ModelPricingRepository.js";
 export * from "./schema.js";
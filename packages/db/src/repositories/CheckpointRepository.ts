@@ -0,0 +1,79 @@
+﻿/** Run 执行检查点（每个节点完成后覆盖写入） */
+export interface RunCheckpoint {
+  runId: string;
+  /** nodeId → 已完成节点的输出 */
+  nodeOutputs: Record<string, unknown>;
+  /** 已跳过（未命中条件分支）的节点 ID */
+  skippedNodes: string[];
+  /** runMemory 快照 */
+  runMemory: Record<string, unknown>;
+  totalTokens: number;
+  totalCostUsd: number;
+  updatedAt: string;
+}
+
+/**
+ * Checkpoint Repository — 负责 run_checkpoints 表的操作
+ * 进程在 Run 中途退出后，GraphRuntime 依靠检查点从最后完成的节点继续执行
+ * 使用 Node.js 24 内置 SQLite (node:sqlite)
+ */
+export class CheckpointRepository {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(private db: any) {}
+
+  /** 写入（或覆盖）某个 Run 的检查点 */
+  save(checkpoint: Omit<RunCheckpoint, "updatedAt">): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO run_checkpoints (
+        run_id, node_outputs, skipped_nodes, run_memory,
+        total_tokens, total_cost_usd, updated_at
+      ) VALUES (
+        @runId, @nodeOutputs, @skippedNodes, @runMemory,
+        @totalTokens, @totalCostUsd, @updatedAt
+      )
+    `).run({
+      runId: checkpoint.runId,
+      nodeOutputs: JSON.stringify(checkpoint.nodeOutputs),
+      skippedNodes: JSON.stringify(checkpoint.skippedNodes),
+      runMemory: JSON.stringify(checkpoint.runMemory),
+      totalTokens: checkpoint.totalTokens,
+      totalCostUsd: checkpoint.totalCostUsd,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /** 读取某个 Run 的检查点 */
+  findByRunId(runId: string): RunCheckpoint | null {
+    const row = this.db.prepare(
+      "SELECT * FROM run_checkpoints WHERE run_id = ?"
+    ).get(runId) as RawCheckpoint | undefined;
+    return row ? this.deserialize(row) : null;
+  }
+
+  /** 删除某个 Run 的检查点（Run 结束后不再需要） */
+  delete(runId: string): void {
+    this.db.prepare("DELETE FROM run_checkpoints WHERE run_id = ?").run(runId);
+  }
+
+  private deserialize(row: RawCheckpoint): RunCheckpoint {
+    return {
+      runId: row.run_id,
+      nodeOutputs: JSON.parse(row.node_outputs) as Record<string, unknown>,
+      skippedNodes: JSON.parse(row.skipped_nodes) as string[],
+      runMemory: JSON.parse(row.run_memory) as Record<string, unknown>,
+      totalTokens: row.total_tokens,
+      totalCostUsd: row.total_cost_usd,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+interface RawCheckpoint {
+  run_id: string;
+  node_outputs: string;
+  skipped_nodes: string;
+  run_memory: string;
+  total_tokens: number;
+  total_cost_usd: number;
+  updated_at: string;
+}
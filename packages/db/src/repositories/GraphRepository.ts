@@ -0,0 +1,85 @@
+﻿import { createHash } from "node:crypto";
+import { stableStringify } from "@omega/shared";
+import type { GraphDefinition } from "@omega/shared";
+
+/** 图定义快照（内容寻址，相同内容只存一份） */
+export interface GraphSnapshot {
+  /** sha256(键排序后的 GraphDefinition JSON) */
+  graphHash: string;
+  graphId: string;
+  graphVersion: string;
+  name: string;
+  definition: GraphDefinition;
+  createdAt: string;
+}
+
+/** 计算图定义的内容 hash */
+export function computeGraphHash(graph: GraphDefinition): string {
+  return createHash("sha256").update(stableStringify(graph)).digest("hex");
+}
+
+/**
+ * Graph Repository — 负责 graphs 表的操作
+ * 每个 Run 通过 runs.graph_hash 关联其执行时的图定义快照（replay / fork / 历史展示使用）
+ * 使用 Node.js 24 内置 SQLite (node:sqlite)
+ */
+export class GraphRepository {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(private db: any) {}
+
+  /** 保存图定义快照（已存在时不重复写入），返回 graphHash */
+  save(graph: GraphDefinition): string {
+    const graphHash = computeGraphHash(graph);
+    this.db.prepare(`
+      INSERT OR IGNORE INTO graphs (
+        graph_hash, graph_id, graph_version, name, definition, created_at
+      ) VALUES (
+        @graphHash, @graphId, @graphVersion, @name, @definition, @createdAt
+      )
+    `).run({
+      graphHash,
+      graphId: graph.id,
+      graphVersion: graph.version,
+      name: graph.name,
+      definition: JSON.stringify(graph),
+      createdAt: new Date().toISOString(),
+    });
+    return graphHash;
+  }
+
+  /** 根据 hash 读取快照 */
+  findByHash(graphHash: string): GraphSnapshot | null {
+    const row = this.db.prepare(
+      "SELECT * FROM graphs WHERE graph_hash = ?"
+    ).get(graphHash) as RawGraph | undefined;
+    return row ? this.deserialize(row) : null;
+  }
+
+  /** 某个 graphId 的全部快照（按创建时间倒序） */
+  findByGraphId(graphId: string): GraphSnapshot[] {
+    const rows = this.db.prepare(
+      "SELECT * FROM graphs WHERE graph_id = ? ORDER BY created_at DESC"
+    ).all(graphId) as RawGraph[];
+    return rows.map(this.deserialize);
+  }
+
+  private deserialize(row: RawGraph): GraphSnapshot {
+    return {
+      graphHash: row.graph_hash,
+      graphId: row.graph_id,
+      graphVersion: row.graph_version,
+      name: row.name,
+      definition: JSON.parse(row.definition) as GraphDefinition,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+interface RawGraph {
+  graph_hash: string;
+  graph_id: string;
+  graph_version: string;
+  name: string;
+  definition: string;
+  created_at: string;
+}
@@ -0,0 +1,101 @@
+﻿import type { ModelPricing } from "@omega/shared";
+
+/** model_pricing 表的一条价格 */
+export interface ModelPricingRecord extends ModelPricing {
+  /** 用户覆盖的条目（内置价目更新时保留用户的值） */
+  isCustom: boolean;
+  updatedAt: string;
+}
+
+/**
+ * ModelPricing Repository — 负责 model_pricing 表的操作
+ * 内置价目通过 seedDefaults 写入并随版本更新，用户编辑过的条目标记为 isCustom 后不再被覆盖
+ * 使用 Node.js 24 内置 SQLite (node:sqlite)
+ */
+export class ModelPricingRepository {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(private db: any) {}
+
+  /** 按模型名升序列出全部价格 */
+  list(): ModelPricingRecord[] {
+    const rows = this.db.prepare(
+      "SELECT * FROM model_pricing ORDER BY model ASC"
+    ).all() as RawModelPricing[];
+    return rows.map(row => this.deserialize(row));
+  }
+
+  /** 写入内置价目：新模型直接插入，已存在且未被用户覆盖的条目更新为最新价格 */
+  seedDefaults(entries: readonly ModelPricing[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO model_pricing (
+        model, input_per_1k, output_per_1k, cached_input_per_1k, cache_write_per_1k, image_usd, is_custom, updated_at
+      ) VALUES (
+        @model, @input, @output, @cachedInput, @cacheWrite, @image, 0, @updatedAt
+      )
+      ON CONFLICT (model) DO UPDATE SET
+        input_per_1k = excluded.input_per_1k,
+        output_per_1k = excluded.output_per_1k,
+        cached_input_per_1k = excluded.cached_input_per_1k,
+        cache_write_per_1k = excluded.cache_write_per_1k,
+        image_usd = excluded.image_usd,
+        updated_at = excluded.updated_at
+      WHERE model_pricing.is_custom = 0
+    `);
+    const updatedAt = new Date().toISOString();
+    for (const entry of entries) {
+      stmt.run({ ...this.serialize(entry), updatedAt });
+    }
+  }
+
+  /** 写入（或覆盖）用户定价，标记为 isCustom */
+  save(entry: ModelPricing): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO model_pricing (
+        model, input_per_1k, output_per_1k, cached_input_per_1k, cache_write_per_1k, image_usd, is_custom, updated_at
+      ) VALUES (
+        @model, @input, @output, @cachedInput, @cacheWrite, @image, 1, @updatedAt
+      )
+    `).run({ ...this.serialize(entry), updatedAt: new Date().toISOString() });
+  }
+
+  /** 删除一条价格（内置模型在下次 seedDefaults 时恢复为内置价格），返回是否存在 */
+  delete(model: string): boolean {
+    const result = this.db.prepare("DELETE FROM model_pricing WHERE model = ?").run(model) as { changes: number };
+    return result.changes > 0;
+  }
+
+  private serialize(entry: ModelPricing): Record<string, string | number | null> {
+    return {
+      model: entry.model,
+      input: entry.input,
+      output: entry.output,
+      cachedInput: entry.cachedInput ?? null,
+      cacheWrite: entry.cacheWrite ?? null,
+      image: entry.image ?? null,
+    };
+  }
+
+  private deserialize(row: RawModelPricing): ModelPricingRecord {
+    return {
+      model: row.model,
+      input: row.input_per_1k,
+      output: row.output_per_1k,
+      ...(row.cached_input_per_1k !== null && { cachedInput: row.cached_input_per_1k }),
+      ...(row.cache_write_per_1k !== null && { cacheWrite: row.cache_write_per_1k }),
+      ...(row.image_usd !== null && { image: row.image_usd }),
+      isCustom: row.is_custom === 1,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+interface RawModelPricing {
+  model: string;
+  input_per_1k: number;
+  output_per_1k: number;
+  cached_input_per_1k: number | null;
+  cache_write_per_1k: number | null;
+  image_usd: number | null;
+  is_custom: number;
+  updated_at: string;
+}
@@ -0,0 +1,104 @@
+﻿import type { StepEvent } from "@omega/shared";
+
+/** 节点结果缓存条目 */
+export interface NodeCacheEntry {
+  cacheKey: string;
+  nodeType: string;
+  /** 节点输出（原始值，读写时做 JSON 序列化） */
+  output: unknown;
+  renderedPrompt?: string | undefined;
+  providerMeta?: StepEvent["providerMeta"] | undefined;
+  /** 首次执行时的 token 消耗 */
+  tokens?: number | undefined;
+  /** 首次执行时的花费 (USD) */
+  costUsd?: number | undefined;
+  hitCount: number;
+  createdAt: string;
+  lastHitAt?: string | undefined;
+}
+
+/**
+ * NodeCache Repository — 负责 node_cache 表的操作
+ * 为 CacheStrategy.READ_THROUGH / FORCE_REFRESH 提供持久化的节点结果缓存
+ * 使用 Node.js 24 内置 SQLite (node:sqlite)
+ */
+export class NodeCacheRepository {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(private db: any) {}
+
+  /** 根据 cacheKey 读取缓存条目 */
+  get(cacheKey: string): NodeCacheEntry | null {
+    const row = this.db.prepare(
+      "SELECT * FROM node_cache WHERE cache_key = ?"
+    ).get(cacheKey) as RawNodeCache | undefined;
+    return row ? this.deserialize(row) : null;
+  }
+
+  /** 写入（或覆盖）缓存条目，覆盖时重置命中计数 */
+  set(entry: Omit<NodeCacheEntry, "hitCount" | "createdAt" | "lastHitAt">): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO node_cache (
+        cache_key, node_type, output, rendered_prompt, provider_meta,
+        tokens, cost_usd, hit_count, created_at, last_hit_at
+      ) VALUES (
+        @cacheKey, @nodeType, @output, @renderedPrompt, @providerMeta,
+        @tokens, @costUsd, 0, @createdAt, NULL
+      )
+    `).run({
+      cacheKey: entry.cacheKey,
+      nodeType: entry.nodeType,
+      output: entry.output !== undefined ? JSON.stringify(entry.output) : null,
+      renderedPrompt: entry.renderedPrompt ?? null,
+      providerMeta: entry.providerMeta ? JSON.stringify(entry.providerMeta) : null,
+      tokens: entry.tokens ?? null,
+      costUsd: entry.costUsd ?? null,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /** 记录一次命中 */
+  recordHit(cacheKey: string): void {
+    this.db.prepare(`
+      UPDATE node_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?
+    `).run(new Date().toISOString(), cacheKey);
+  }
+
+  /** 删除单条缓存 */
+  delete(cacheKey: string): void {
+    this.db.prepare("DELETE FROM node_cache WHERE cache_key = ?").run(cacheKey);
+  }
+
+  /** 清空缓存，返回删除条数 */
+  clear(): number {
+    const result = this.db.prepare("DELETE FROM node_cache").run() as { changes: number };
+    return result.changes;
+  }
+
+  private deserialize(row: RawNodeCache): NodeCacheEntry {
+    return {
+      cacheKey: row.cache_key,
+      nodeType: row.node_type,
+      output: row.output !== null ? JSON.parse(row.output) : undefined,
+      renderedPrompt: row.rendered_prompt ?? undefined,
+      providerMeta: row.provider_meta ? JSON.parse(row.provider_meta) as StepEvent["providerMeta"] : undefined,
+      tokens: row.tokens ?? undefined,
+      costUsd: row.cost_usd ?? undefined,
+      hitCount: row.hit_count,
+      createdAt: row.created_at,
+      lastHitAt: row.last_hit_at ?? undefined,
+    };
+  }
+}
+
+interface RawNodeCache {
+  cache_key: string;
+  node_type: string;
+  output: string | null;
+  rendered_prompt: string | null;
+  provider_meta: string | null;
+  tokens: number | null;
+  cost_usd: number | null;
+  hit_count: number;
+  created_at: string;
+  last_hit_at: string | null;
+}
@@ -1,5 +1,7 @@
-﻿import type { Run } from "@omega/shared";
+﻿import type { GraphDefinition, Run } from "@omega/shared";
 import { RunState } from "@omega/shared";
+import { GraphRepository } from "./GraphRepository.js";
+import type { GraphSnapshot } from "./GraphRepository.js";
 
 /**
  * Run Repository — 负责 runs 表的所有 CRUD 操作
@@ -9,18 +11,22 @@ export class RunRepository {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   constructor(private db: any) {}
 
-  /** 创建新 Run 记录 */
-  create(run: Run): void {
+  /**
+   * 创建新 Run 记录
+   * @param graph 执行时的图定义（保存为 graphs 快照并通过 graph_hash 关联，供 fork / 恢复 / replay 重建）
+   */
+  create(run: Run, graph?: GraphDefinition): void {
+    const graphHash = graph ? new GraphRepository(this.db).save(graph) : run.graphHash;
     this.db.prepare(`
       INSERT INTO runs (
         run_id, graph_id, graph_version, state,
         parent_run_id, fork_from_step, parent_version,
-        input, output, total_tokens, total_cost_usd,
+        input, output, graph_hash, replay_of_run_id, budget, total_tokens, total_cost_usd,
         duration_ms, error, started_at, completed_at, created_at
       ) VALUES (
         @runId, @graphId, @graphVersion, @state,
         @parentRunId, @forkFromStepId, @parentVersion,
-        @input, @output, @totalTokens, @totalCostUsd,
+        @input, @output, @graphHash, @replayOfRunId, @budget, @totalTokens, @totalCostUsd,
         @durationMs, @error, @startedAt, @completedAt, @createdAt
       )
     `).run({
@@ -33,6 +39,9 @@ export class RunRepository {
       parentVersion: run.parentVersion ?? null,
       input: run.input ? JSON.stringify(run.input) : null,
       output: run.output ? JSON.stringify(run.output) : null,
+      graphHash: graphHash ?? null,
+      replayOfRunId: run.replayOfRunId ?? null,
+      budget: run.budget ? JSON.stringify(run.budget) : null,
       totalTokens: run.totalTokens,
       totalCostUsd: run.totalCostUsd,
       durationMs: run.durationMs ?? null,
@@ -49,6 +58,27 @@ export class RunRepository {
     return row ? this.deserialize(row) : null;
   }
 
+  /** 获取 Run 执行时的图定义快照（旧版本创建的 Run 没有） */
+  findGraphSnapshot(runId: string): GraphSnapshot | null {
+    const row = this.db.prepare(
+      "SELECT graph_hash FROM runs WHERE run_id = ?"
+    ).get(runId) as { graph_hash: string | null } | undefined;
+    return row?.graph_hash ? new GraphRepository(this.db).findByHash(row.graph_hash) : null;
+  }
+
+  /** 获取 Run 执行时的图定义（旧版本创建的 Run 没有） */
+  findGraphDefinition(runId: string): GraphDefinition | null {
+    return this.findGraphSnapshot(runId)?.definition ?? null;
+  }
+
+  /** 查询使用同一图定义快照执行的 Runs */
+  findByGraphHash(graphHash: string): Run[] {
+    const rows = this.db.prepare(
+      "SELECT * FROM runs WHERE graph_hash = ? ORDER BY created_at DESC"
+    ).all(graphHash) as RawRun[];
+    return rows.map(this.deserialize);
+  }
+
   /** 获取所有 Runs (分页) */
   findAll(limit = 50, offset = 0): Run[] {
     const rows = this.db.prepare(
@@ -106,6 +136,7 @@ export class RunRepository {
     try {
       this.db.prepare("DELETE FROM events WHERE run_id = ?").run(runId);
       this.db.prepare("DELETE FROM steps WHERE run_id = ?").run(runId);
+      this.db.prepare("DELETE FROM run_checkpoints WHERE run_id = ?").run(runId);
       this.db.prepare("DELETE FROM runs WHERE run_id = ?").run(runId);
       this.db.exec("COMMIT");
     } catch (err) {
@@ -126,6 +157,9 @@ export class RunRepository {
       parentVersion: row.parent_version ?? undefined,
       input: row.input ? JSON.parse(row.input) as Record<string, unknown> : undefined,
       output: row.output ? JSON.parse(row.output) as Record<string, unknown> : undefined,
+      graphHash: row.graph_hash ?? undefined,
+      replayOfRunId: row.replay_of_run_id ?? undefined,
+      budget: row.budget ? JSON.parse(row.budget) as Run["budget"] : undefined,
       totalTokens: row.total_tokens,
       totalCostUsd: row.total_cost_usd,
       durationMs: row.duration_ms ?? undefined,
@@ -148,6 +182,9 @@ interface RawRun {
   parent_version: string | null;
   input: string | null;
   output: string | null;
+  graph_hash: string | null;
+  replay_of_run_id: string | null;
+  budget: string | null;
   total_tokens: number;
   total_cost_usd: number;
   duration_ms: number | null;
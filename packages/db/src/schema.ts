@@ -5,12 +5,16 @@
  * 表清单:
  *   1. schema_versions  — Schema 版本管理
  *   2. migrations       — 迁移执行记录
- *   3. runs             — Run 执行实例记录
- *   4. steps            — Step 节点执行记录
- *   5. events           — StepEvent Trace 事件 (append-only)
- *   6. providers        — LLM Provider 配置
- *   7. plugins          — 已安装插件记录
- *   8. memories         — 持久记忆存储
+ *   3. graphs           — GraphDefinition 快照 (内容寻址)
+ *   4. runs             — Run 执行实例记录
+ *   5. steps            — Step 节点执行记录
+ *   6. events           — StepEvent Trace 事件 (append-only)
+ *   7. providers        — LLM Provider 配置
+ *   8. plugins          — 已安装插件记录
+ *   9. memories         — 持久记忆存储
+ *  10. node_cache       — 节点结果缓存 (CacheStrategy read-through)
+ *  11. run_checkpoints  — Run 执行检查点 (崩溃后恢复)
+ *  12. model_pricing    — 模型价格表 (内置价目 + 用户覆盖)
  */
 
 export const CREATE_SCHEMA_VERSIONS = `
@@ -31,6 +35,17 @@ export const CREATE_MIGRATIONS = `
   );
 `;
 
+export const CREATE_GRAPHS = `
+  CREATE TABLE IF NOT EXISTS graphs (
+    graph_hash      TEXT    PRIMARY KEY,  -- sha256(键排序后的 GraphDefinition JSON)
+    graph_id        TEXT    NOT NULL,
+    graph_version   TEXT    NOT NULL,
+    name            TEXT    NOT NULL,
+    definition      TEXT    NOT NULL,     -- GraphDefinition JSON
+    created_at      TEXT    NOT NULL
+  );
+`;
+
 export const CREATE_RUNS = `
   CREATE TABLE IF NOT EXISTS runs (
     run_id          TEXT    PRIMARY KEY,
@@ -42,6 +57,9 @@ export const CREATE_RUNS = `
     parent_version  TEXT,                             -- fork 时父 run 的 graph 版本
     input           TEXT,                             -- JSON 序列化
     output          TEXT,                             -- JSON 序列化
+    graph_hash      TEXT,                             -- 执行时的图定义快照 (graphs.graph_hash)
+    replay_of_run_id TEXT,                            -- omega replay 时填充：被回放的原 run_id
+    budget          TEXT,                             -- 生效的 BudgetConfig JSON (含 budgetOverride)
     total_tokens    INTEGER NOT NULL DEFAULT 0,
     total_cost_usd  REAL    NOT NULL DEFAULT 0.0,
     duration_ms     INTEGER,
@@ -49,7 +67,8 @@ export const CREATE_RUNS = `
     started_at      TEXT    NOT NULL,
     completed_at    TEXT,
     created_at      TEXT    NOT NULL,
-    FOREIGN KEY (parent_run_id) REFERENCES runs(run_id)
+    FOREIGN KEY (parent_run_id) REFERENCES runs(run_id),
+    FOREIGN KEY (graph_hash)    REFERENCES graphs(graph_hash)
   );
 `;
 
@@ -97,7 +116,7 @@ export const CREATE_PROVIDERS = `
   CREATE TABLE IF NOT EXISTS providers (
     id              TEXT    PRIMARY KEY,
     name            TEXT    NOT NULL,
-    type            TEXT    NOT NULL,   -- openai-compatible | ollama | lm-studio | custom
+    type            TEXT    NOT NULL,   -- openai-compatible | ollama | lm-studio | custom | anthropic | gemini
     base_url        TEXT    NOT NULL,
     api_key         TEXT,               -- API Key 明文（本地应用可接受）
     model           TEXT,               -- 默认使用的模型名
@@ -150,16 +169,61 @@ export const CREATE_MEMORIES = `
   );
 `;
 
+export const CREATE_NODE_CACHE = `
+  CREATE TABLE IF NOT EXISTS node_cache (
+    cache_key       TEXT    PRIMARY KEY,  -- sha256(节点配置 + 渲染后 Prompt + provider meta + 输入)
+    node_type       TEXT    NOT NULL,
+    output          TEXT,                 -- JSON
+    rendered_prompt TEXT,
+    provider_meta   TEXT,                 -- JSON
+    tokens          INTEGER,              -- 首次执行时的消耗（命中时不再计费）
+    cost_usd        REAL,
+    hit_count       INTEGER NOT NULL DEFAULT 0,
+    created_at      TEXT    NOT NULL,
+    last_hit_at     TEXT
+  );
+`;
+
+export const CREATE_RUN_CHECKPOINTS = `
+  CREATE TABLE IF NOT EXISTS run_checkpoints (
+    run_id          TEXT    PRIMARY KEY,
+    node_outputs    TEXT    NOT NULL DEFAULT '{}',  -- JSON: { [nodeId]: output }，已完成节点的输出
+    skipped_nodes   TEXT    NOT NULL DEFAULT '[]',  -- JSON 数组: 已跳过的节点 ID
+    run_memory      TEXT    NOT NULL DEFAULT '{}',  -- JSON: runMemory 快照
+    total_tokens    INTEGER NOT NULL DEFAULT 0,
+    total_cost_usd  REAL    NOT NULL DEFAULT 0.0,
+    updated_at      TEXT    NOT NULL,
+    FOREIGN KEY (run_id) REFERENCES runs(run_id)
+  );
+`;
+
+export const CREATE_MODEL_PRICING = `
+  CREATE TABLE IF NOT EXISTS model_pricing (
+    model               TEXT    PRIMARY KEY,  -- 模型名（查价时也匹配日期后缀 / 厂商前缀变体）
+    input_per_1k        REAL    NOT NULL,     -- 以下 token 单价均为每 1000 token 的 USD
+    output_per_1k       REAL    NOT NULL,
+    cached_input_per_1k REAL,                 -- 命中提示缓存的输入，NULL 时按 input 计
+    cache_write_per_1k  REAL,                 -- 写入提示缓存的输入，NULL 时按 input 计
+    image_usd           REAL,                 -- 每张输入图片的附加费用
+    is_custom           INTEGER NOT NULL DEFAULT 0,  -- 布尔值: 1=用户覆盖（不再随内置价目更新）
+    updated_at          TEXT    NOT NULL
+  );
+`;
+
 /** 建表顺序（考虑外键依赖）*/
 export const ALL_CREATE_STATEMENTS = [
   CREATE_SCHEMA_VERSIONS,
   CREATE_MIGRATIONS,
+  CREATE_GRAPHS,
   CREATE_RUNS,
   CREATE_STEPS,
   CREATE_EVENTS,
   CREATE_PROVIDERS,
   CREATE_PLUGINS,
   CREATE_MEMORIES,
+  CREATE_NODE_CACHE,
+  CREATE_RUN_CHECKPOINTS,
+  CREATE_MODEL_PRICING,
 ] as const;
 
 /** 核心索引，提升查询性能 */
@@ -171,5 +235,6 @@ export const CREATE_INDEXES = `
   CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp);
   CREATE INDEX IF NOT EXISTS idx_runs_state      ON runs(state);
   CREATE INDEX IF NOT EXISTS idx_runs_graph_id   ON runs(graph_id);
+  CREATE INDEX IF NOT EXISTS idx_graphs_graph_id ON graphs(graph_id);
   CREATE INDEX IF NOT EXISTS idx_memories_agent  ON memories(agent_id, key);
 `;
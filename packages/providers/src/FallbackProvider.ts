@@ -0,0 +1,162 @@
+﻿import type { LLMRequest, LLMToolCall, TokenEvent, ProviderInfo, ProviderMeta } from "@omega/shared";
+import type { LLMProvider } from "./LLMProvider.js";
+import { createLogger, ProviderHttpError, ProviderTimeoutError } from "@omega/core";
+
+const log = createLogger("FallbackProvider");
+
+/** 默认首个响应超时：本地大模型加载 + 长 Prompt 预填充通常在此之内 */
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** 故障转移链中的一环 */
+export interface FallbackTarget {
+  provider: LLMProvider;
+  /** 覆盖请求中的模型（省略时沿用 request.model） */
+  model?: string | undefined;
+}
+
+export interface FallbackOptions {
+  /** 等待首个 TokenEvent 的超时 (ms)，超时后切换到下一个 Provider；0 表示不限时 */
+  timeoutMs?: number;
+}
+
+type Failure = NonNullable<ProviderMeta["fallbackFrom"]>[number];
+
+/**
+ * 判断错误是否应切换到下一个 Provider，返回切换原因；不应切换时返回 undefined
+ * 429 / 5xx、首个响应超时、网络层失败（fetch 抛出的 TypeError）会切换，其余错误（4xx、解析错误等）直接抛出
+ */
+function failoverReason(err: unknown): string | undefined {
+  if (err instanceof ProviderHttpError) {
+    return err.envelope.retryable ? `HTTP ${err.status}` : undefined;
+  }
+  if (err instanceof ProviderTimeoutError) return "timeout";
+  if (err instanceof TypeError) return err.message;
+  return undefined;
+}
+
+/**
+ * 带故障转移的组合 Provider
+ * 按顺序尝试 targets：当前 Provider 在产出首个事件前失败（429 / 5xx / 超时 / 网络错误）时透明地改用下一个，
+ * 已开始输出的流不会中途切换（已产出的 token 无法撤回）。
+ * 实际响应的 Provider / 模型以及之前失败的尝试写入 done 事件与 generateComplete 结果的 providerMeta。
+ */
+export class FallbackProvider implements LLMProvider {
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly targets: FallbackTarget[],
+    options: FallbackOptions = {}
+  ) {
+    if (targets.length === 0) {
+      throw new Error("FallbackProvider requires at least one target");
+    }
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /** 元数据取链首 Provider（UI 展示与 replay 以主 Provider 为准） */
+  metadata(): ProviderInfo {
+    return this.targets[0]!.provider.metadata();
+  }
+
+  async *generate(request: LLMRequest): AsyncIterable<TokenEvent> {
+    const failures: Failure[] = [];
+
+    for (let i = 0; i < this.targets.length; i++) {
+      const target = this.targets[i]!;
+      const providerId = target.provider.metadata().id;
+      const model = target.model ?? request.model;
+      const iterator = target.provider.generate({ ...request, model })[Symbol.asyncIterator]();
+
+      let first: IteratorResult<TokenEvent>;
+      try {
+        first = await this.withTimeout(iterator.next(), providerId);
+      } catch (err) {
+        const reason = failoverReason(err);
+        if (reason === undefined || i === this.targets.length - 1) throw err;
+        // 超时时底层请求仍在进行，通知生成器结束（不等待）
+        iterator.return?.().catch(() => { /* ignore */ });
+        failures.push({ provider: providerId, model, reason });
+        log.warn({ provider: providerId, model, reason, next: this.targets[i + 1]!.provider.metadata().id }, "Provider failed, falling back");
+        continue;
+      }
+
+      const providerMeta: ProviderMeta = {
+        provider: providerId,
+        model,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.topP !== undefined && { topP: request.topP }),
+        ...(failures.length > 0 && { fallbackFrom: failures }),
+      };
+
+      let result = first;
+      while (!result.done) {
+        const event = result.value;
+        yield event.done ? { ...event, providerMeta } : event;
+        result = await iterator.next();
+      }
+      return;
+    }
+  }
+
+  async generateComplete(request: LLMRequest): Promise<{
+    text: string;
+    tokens: number;
+    costUsd: number;
+    toolCalls?: LLMToolCall[];
+    providerMeta: ProviderMeta;
+  }> {
+    let fullText = "";
+    let totalTokens = 0;
+    let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
+    let providerMeta: ProviderMeta | undefined;
+
+    for await (const event of this.generate(request)) {
+      if (!event.done) {
+        fullText += event.token;
+      } else {
+        totalTokens = event.usage?.totalTokens ?? 0;
+        costUsd = event.costUsd ?? 0;
+        toolCalls = event.toolCalls;
+        providerMeta = event.providerMeta;
+      }
+    }
+
+    return {
+      text: fullText,
+      tokens: totalTokens,
+      costUsd,
+      ...(toolCalls !== undefined && { toolCalls }),
+      providerMeta: providerMeta ?? {
+        provider: this.metadata().id,
+        model: this.targets[0]!.model ?? request.model,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.topP !== undefined && { topP: request.topP }),
+      },
+    };
+  }
+
+  /** 模型列表取链首 Provider */
+  async listModels(): Promise<string[]> {
+    return this.targets[0]!.provider.listModels();
+  }
+
+  /** 链中任一 Provider 可用即视为健康 */
+  async healthCheck(): Promise<boolean> {
+    for (const target of this.targets) {
+      if (await target.provider.healthCheck()) return true;
+    }
+    return false;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, providerId: string): Promise<T> {
+    if (this.timeoutMs <= 0) return promise;
+    // 超时后原请求的失败不再有人等待，避免 unhandled rejection
+    promise.catch(() => { /* ignore */ });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ProviderTimeoutError(providerId, this.timeoutMs)), this.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
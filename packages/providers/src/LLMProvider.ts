@@ -1,4 +1,7 @@
-﻿import type { LLMRequest, TokenEvent, ProviderInfo } from "@omega/shared";
+﻿import type { LLMRequest, LLMToolCall, TokenEvent, ProviderInfo, ProviderMeta } from "@omega/shared";
+import { createProvider } from "./createProvider.js";
+import type { ProviderConnection } from "./createProvider.js";
+import type { PricingCatalog } from "./pricing.js";
 
 /**
  * LLM Provider 统一接口
@@ -23,12 +26,10 @@ export interface LLMProvider {
     text: string;
     tokens: number;
     costUsd: number;
-    providerMeta: {
-      provider: string;
-      model: string;
-      temperature?: number;
-      topP?: number;
-    };
+    /** 模型发起的工具调用（请求携带 tools 且模型选择调用时） */
+    toolCalls?: LLMToolCall[];
+    /** 实际响应的 Provider（FallbackProvider 切换后含 fallbackFrom） */
+    providerMeta: ProviderMeta;
   }>;
 
   /** 获取可用模型列表 */
@@ -38,11 +39,14 @@ export interface LLMProvider {
   healthCheck(): Promise<boolean>;
 }
 
-/** Provider 注册表 */
+/** Provider 注册表（满足 @omega/core 的 ProviderLookup，可直接传给 GraphRuntime 做加载阶段校验） */
 export class ProviderRegistry {
   private providers = new Map<string, LLMProvider>();
   private defaultProviderId?: string;
 
+  /** @param pricing registerConnection 创建的适配器共用的价格表 */
+  constructor(private readonly pricing?: PricingCatalog) {}
+
   register(id: string, provider: LLMProvider, isDefault = false): void {
     this.providers.set(id, provider);
     if (isDefault || !this.defaultProviderId) {
@@ -50,14 +54,42 @@ export class ProviderRegistry {
     }
   }
 
+  /** 按连接信息创建适配器并注册（id 取 connection.id） */
+  registerConnection(connection: ProviderConnection, isDefault = false): LLMProvider {
+    const provider = createProvider(connection, { pricing: this.pricing });
+    this.register(connection.id, provider, isDefault);
+    return provider;
+  }
+
   get(id: string): LLMProvider | undefined {
     return this.providers.get(id);
   }
 
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * 按节点 config.provider 取 Provider：空值使用默认 Provider
+   * 未注册的 ID 应在图加载阶段由 validateProviderRefs 拒绝，此处兜底抛出
+   */
+  resolve(id?: string): LLMProvider {
+    const provider = id ? this.providers.get(id) : this.getDefault();
+    if (!provider) {
+      throw new Error(id ? `Provider "${id}" is not registered` : "No default provider registered");
+    }
+    return provider;
+  }
+
   getDefault(): LLMProvider | undefined {
     return this.defaultProviderId ? this.providers.get(this.defaultProviderId) : undefined;
   }
 
+  /** 默认 Provider 的注册 ID（config.provider 为空的节点实际路由到的 ID） */
+  getDefaultId(): string | undefined {
+    return this.defaultProviderId;
+  }
+
   list(): string[] {
     return Array.from(this.providers.keys());
   }
@@ -0,0 +1,371 @@
+﻿import type { LLMRequest, LLMToolCall, TokenEvent, ProviderInfo } from "@omega/shared";
+import type { ContentPart } from "@omega/core";
+import type { LLMProvider } from "../LLMProvider.js";
+import { createLogger, ProviderHttpError } from "@omega/core";
+import { countImages, defaultPricingCatalog } from "../pricing.js";
+import type { PricingCatalog } from "../pricing.js";
+
+// 使用 @omega/core 的零依赖自定义 logger，避免 pino-pretty 在打包环境崩溃
+const log = createLogger("AnthropicProvider");
+
+/** Messages API 版本（anthropic-version 请求头） */
+const DEFAULT_API_VERSION = "2023-06-01";
+
+/** Messages API 要求 max_tokens 必填，请求未指定时使用 */
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface AnthropicConfig {
+  id: string;
+  name: string;
+  /** 默认 https://api.anthropic.com（可指向代理或本地 mock 服务） */
+  baseUrl?: string;
+  apiKey?: string;
+  apiVersion?: string;
+  /** 价格表 (用于 cost reporting，省略时使用内置价格表) */
+  pricing?: PricingCatalog;
+  /** 是否为 system prompt 和工具定义添加 cache_control 断点（默认开启） */
+  promptCaching?: boolean;
+}
+
+type AnthropicBlock = Record<string, unknown>;
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+/** Messages API 的 usage 字段（message_start 携带输入侧，message_delta 携带累计输出） */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/** 流式事件（只声明用到的字段） */
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: AnthropicUsage };
+  content_block?: { type: string; id?: string; name?: string; text?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * 图片块：data URL 转为 base64 source，其余按 URL source 传递
+ */
+function toImageBlock(url: string): AnthropicBlock {
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+/** 消息内容转为内容块（多模态消息为 OpenAI vision 格式的 ContentPart[]，空文本块会被 API 拒绝） */
+function toContentBlocks(content: LLMRequest["messages"][number]["content"] | ContentPart[]): AnthropicBlock[] {
+  if (typeof content === "string") {
+    return content ? [{ type: "text", text: content }] : [];
+  }
+  return content.flatMap((part): AnthropicBlock[] => {
+    if (part.type === "text") return part.text ? [{ type: "text", text: part.text }] : [];
+    return [toImageBlock(part.image_url.url)];
+  });
+}
+
+/**
+ * 转换为 Messages API 请求格式
+ *   - system 消息合并为顶层 system 字段
+ *   - assistant 的 toolCalls 转为 tool_use 块，tool 消息转为 user 角色的 tool_result 块
+ *   - 相邻的同角色消息合并（API 要求 user / assistant 交替出现）
+ */
+function toAnthropicMessages(messages: LLMRequest["messages"]): { system: string[]; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      if (message.content) system.push(message.content);
+      continue;
+    }
+
+    let role: AnthropicMessage["role"];
+    let blocks: AnthropicBlock[];
+    if (message.role === "tool") {
+      role = "user";
+      blocks = [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }];
+    } else if (message.role === "assistant") {
+      role = "assistant";
+      blocks = [
+        ...toContentBlocks(message.content),
+        ...(message.toolCalls ?? []).map(call => ({ type: "tool_use", id: call.id, name: call.name, input: call.arguments })),
+      ];
+    } else {
+      role = "user";
+      blocks = toContentBlocks(message.content);
+    }
+    if (blocks.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+  return { system, messages: result };
+}
+
+/** 解析 tool_use 的 input（input_json_delta 拼接的 JSON）；解析失败时返回空对象，由调用方的必填参数检测兜底 */
+function parseToolInput(raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch {
+    log.warn({ raw: raw.slice(0, 200) }, "Failed to parse tool_use input");
+    return {};
+  }
+}
+
+/**
+ * Anthropic Messages API Provider 适配器
+ * 直接调用 /v1/messages（SSE 流式），支持原生工具调用、图片输入和 prompt caching
+ */
+export class AnthropicProvider implements LLMProvider {
+  constructor(private readonly config: AnthropicConfig) {}
+
+  metadata(): ProviderInfo {
+    return {
+      id: this.config.id,
+      name: this.config.name,
+      type: "anthropic",
+      baseUrl: this.config.baseUrl ?? "https://api.anthropic.com",
+      supportsStreaming: true,
+      supportsCostReporting: true,
+    };
+  }
+
+  async *generate(request: LLMRequest): AsyncIterable<TokenEvent> {
+    const caching = this.config.promptCaching ?? true;
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    // cache_control 断点：工具定义和 system prompt 在多轮调用间保持不变，缓存后只计 cacheRead 价格
+    const systemBlocks: AnthropicBlock[] = system.map((text, i) => ({
+      type: "text",
+      text,
+      ...(caching && i === system.length - 1 && { cache_control: { type: "ephemeral" } }),
+    }));
+    const tools = request.tools?.map((tool, i, all) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+      ...(caching && i === all.length - 1 && { cache_control: { type: "ephemeral" } }),
+    }));
+
+    const body = JSON.stringify({
+      model: request.model,
+      messages,
+      ...(systemBlocks.length > 0 && { system: systemBlocks }),
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      top_p: request.topP,
+      ...(tools && tools.length > 0 && { tools }),
+      stream: true,
+    });
+
+    log.debug({ model: request.model, baseUrl: this.normalizedBaseUrl, messages: messages.length }, "Sending request to Anthropic Messages API");
+
+    const response = await fetch(`${this.normalizedBaseUrl}/messages`, {
+      method: "POST",
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderHttpError("Anthropic", response.status, errorText);
+    }
+
+    if (!response.body) {
+      throw new Error("Response body is null");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const usage: AnthropicUsage = {};
+    let stopReason: string | undefined;
+    // content block index → 拼接中的工具调用
+    const toolUseParts = new Map<number, { id: string; name: string; input: string }>();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          // 只处理 data 行（event 行的类型与 data.type 相同）
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(trimmed.slice(5).trim()) as AnthropicStreamEvent;
+          } catch {
+            continue; // 忽略解析失败的行
+          }
+
+          switch (event.type) {
+            case "message_start":
+              Object.assign(usage, event.message?.usage);
+              break;
+            case "content_block_start":
+              if (event.content_block?.type === "tool_use" && event.index !== undefined) {
+                toolUseParts.set(event.index, {
+                  id: event.content_block.id ?? `toolu_${event.index}`,
+                  name: event.content_block.name ?? "",
+                  input: "",
+                });
+              } else if (event.content_block?.type === "text" && event.content_block.text) {
+                yield { token: event.content_block.text, done: false };
+              }
+              break;
+            case "content_block_delta":
+              if (event.delta?.type === "text_delta" && event.delta.text) {
+                yield { token: event.delta.text, done: false };
+              } else if (event.delta?.type === "input_json_delta" && event.index !== undefined) {
+                const part = toolUseParts.get(event.index);
+                if (part) part.input += event.delta.partial_json ?? "";
+              }
+              break;
+            case "message_delta":
+              // message_delta 的 output_tokens 为累计值
+              Object.assign(usage, event.usage);
+              stopReason = event.delta?.stop_reason ?? stopReason;
+              break;
+            case "error":
+              throw new Error(`Anthropic stream error: ${event.error?.type ?? "unknown"} — ${event.error?.message ?? ""}`);
+          }
+        }
+      }
+
+      const toolCalls: LLMToolCall[] = [...toolUseParts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, part]) => ({ id: part.id, name: part.name, arguments: parseToolInput(part.input) }));
+
+      // input_tokens 不含缓存部分，promptTokens 为三者之和
+      const cacheCreationTokens = usage.cache_creation_input_tokens ?? 0;
+      const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+      const inputTokens = usage.input_tokens ?? 0;
+      const completionTokens = usage.output_tokens ?? 0;
+      const promptTokens = inputTokens + cacheCreationTokens + cacheReadTokens;
+      const costUsd = this.pricing.cost(request.model, {
+        promptTokens,
+        completionTokens,
+        cacheCreationTokens,
+        cacheReadTokens,
+        images: countImages(request.messages),
+      });
+
+      log.debug({ model: request.model, promptTokens, completionTokens, cacheReadTokens, cacheCreationTokens, costUsd, stopReason, toolCalls: toolCalls.length }, "Request completed");
+
+      yield {
+        token: "",
+        done: true,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          ...(cacheCreationTokens > 0 && { cacheCreationTokens }),
+          ...(cacheReadTokens > 0 && { cacheReadTokens }),
+        },
+        costUsd,
+        ...(toolCalls.length > 0 && { toolCalls }),
+      };
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async generateComplete(request: LLMRequest): Promise<{
+    text: string;
+    tokens: number;
+    costUsd: number;
+    toolCalls?: LLMToolCall[];
+    providerMeta: { provider: string; model: string; temperature?: number; topP?: number };
+  }> {
+    let fullText = "";
+    let totalTokens = 0;
+    let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
+
+    for await (const event of this.generate(request)) {
+      if (!event.done) {
+        fullText += event.token;
+      } else {
+        totalTokens = event.usage?.totalTokens ?? 0;
+        costUsd = event.costUsd ?? 0;
+        toolCalls = event.toolCalls;
+      }
+    }
+
+    return {
+      text: fullText,
+      tokens: totalTokens,
+      costUsd,
+      ...(toolCalls !== undefined && { toolCalls }),
+      providerMeta: {
+        provider: this.config.id,
+        model: request.model,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.topP !== undefined && { topP: request.topP }),
+      },
+    };
+  }
+
+  /** 获取标准化后的 base URL（末尾含 /v1） */
+  private get normalizedBaseUrl(): string {
+    return (this.config.baseUrl ?? "https://api.anthropic.com").replace(/\/+$/, "").replace(/\/v1$/, "") + "/v1";
+  }
+
+  /** 认证与版本请求头 */
+  private get headers(): Record<string, string> {
+    return {
+      "anthropic-version": this.config.apiVersion ?? DEFAULT_API_VERSION,
+      ...(this.config.apiKey && { "x-api-key": this.config.apiKey }),
+    };
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.normalizedBaseUrl}/models`, { headers: this.headers });
+      if (!response.ok) return [];
+      const json = await response.json() as { data?: Array<{ id: string }> };
+      return json.data?.map(m => m.id) ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const models = await this.listModels();
+      return models.length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private get pricing(): PricingCatalog {
+    return this.config.pricing ?? defaultPricingCatalog;
+  }
+}
@@ -0,0 +1,363 @@
+﻿import type { LLMRequest, LLMToolCall, LLMToolDefinition, TokenEvent, ProviderInfo } from "@omega/shared";
+import type { ContentPart } from "@omega/core";
+import type { LLMProvider } from "../LLMProvider.js";
+import { createLogger, ProviderHttpError } from "@omega/core";
+import { countImages, defaultPricingCatalog } from "../pricing.js";
+import type { PricingCatalog } from "../pricing.js";
+
+// 使用 @omega/core 的零依赖自定义 logger，避免 pino-pretty 在打包环境崩溃
+const log = createLogger("GeminiProvider");
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com";
+
+interface GeminiConfig {
+  id: string;
+  name: string;
+  /** 默认 https://generativelanguage.googleapis.com（可指向代理或本地 mock 服务） */
+  baseUrl?: string;
+  apiKey?: string;
+  /** 价格表 (用于 cost reporting，省略时使用内置价格表) */
+  pricing?: PricingCatalog;
+}
+
+/** Gemini 内容部件（只声明用到的字段） */
+type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { id?: string; name: string; args?: Record<string, unknown> } }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+/** streamGenerateContent 的单个 SSE 数据块 */
+interface GeminiStreamChunk {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+    cachedContentTokenCount?: number;
+    /** 2.5 系列思考模型的思考 token（不含在 candidatesTokenCount 中，按输出计费） */
+    thoughtsTokenCount?: number;
+  };
+  error?: { code?: number; message?: string };
+}
+
+/** Gemini 函数声明不接受的 JSON Schema 关键字 */
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "additionalProperties"]);
+
+/** 去掉 Gemini 不支持的 JSON Schema 关键字（递归处理 properties / items） */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (typeof schema !== "object" || schema === null) return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => !UNSUPPORTED_SCHEMA_KEYS.has(key))
+      .map(([key, value]) => [key, toGeminiSchema(value)]),
+  );
+}
+
+function toFunctionDeclaration(tool: LLMToolDefinition): Record<string, unknown> {
+  return { name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) };
+}
+
+/**
+ * 图片转为 inlineData 部件：data URL 直接拆出 base64，http(s) URL 先下载再编码
+ * （Gemini 的 fileData 只接受 Files API / GCS URI，普通 URL 必须内联）
+ */
+async function toInlineDataPart(url: string): Promise<GeminiPart> {
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return { inlineData: { mimeType: dataUrl[1]!, data: dataUrl[2]! } };
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image ${url}: ${response.status}`);
+  }
+  const mimeType = response.headers.get("content-type")?.split(";")[0]?.trim() || "image/png";
+  const data = Buffer.from(await response.arrayBuffer()).toString("base64");
+  return { inlineData: { mimeType, data } };
+}
+
+/** 消息内容转为部件（多模态消息为 OpenAI vision 格式的 ContentPart[]） */
+async function toParts(content: LLMRequest["messages"][number]["content"] | ContentPart[]): Promise<GeminiPart[]> {
+  if (typeof content === "string") {
+    return content ? [{ text: content }] : [];
+  }
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    if (part.type === "text") {
+      if (part.text) parts.push({ text: part.text });
+    } else {
+      parts.push(await toInlineDataPart(part.image_url.url));
+    }
+  }
+  return parts;
+}
+
+/**
+ * 转换为 generateContent 请求格式
+ *   - system 消息合并为 systemInstruction
+ *   - assistant 角色改为 model，toolCalls 转为 functionCall 部件
+ *   - tool 消息转为 user 角色的 functionResponse 部件（函数名从之前的 toolCalls 按 ID 查找）
+ *   - 相邻的同角色消息合并
+ */
+async function toGeminiContents(messages: LLMRequest["messages"]): Promise<{ system: string[]; contents: GeminiContent[] }> {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  const callNames = new Map<string, string>();
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      if (message.content) system.push(message.content);
+      continue;
+    }
+
+    let role: GeminiContent["role"];
+    let parts: GeminiPart[];
+    if (message.role === "tool") {
+      role = "user";
+      const id = message.toolCallId;
+      parts = [{
+        functionResponse: {
+          ...(id && { id }),
+          name: (id && callNames.get(id)) || "tool",
+          response: { result: message.content },
+        },
+      }];
+    } else if (message.role === "assistant") {
+      role = "model";
+      for (const call of message.toolCalls ?? []) callNames.set(call.id, call.name);
+      parts = [
+        ...await toParts(message.content),
+        ...(message.toolCalls ?? []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } })),
+      ];
+    } else {
+      role = "user";
+      parts = await toParts(message.content);
+    }
+    if (parts.length === 0) continue;
+
+    const last = contents[contents.length - 1];
+    if (last?.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+  return { system, contents };
+}
+
+/**
+ * Google Gemini Provider 适配器
+ * 调用 Gemini REST API 的 streamGenerateContent（alt=sse），支持函数调用和图片输入
+ */
+export class GeminiProvider implements LLMProvider {
+  constructor(private readonly config: GeminiConfig) {}
+
+  metadata(): ProviderInfo {
+    return {
+      id: this.config.id,
+      name: this.config.name,
+      type: "gemini",
+      baseUrl: this.config.baseUrl ?? DEFAULT_BASE_URL,
+      supportsStreaming: true,
+      supportsCostReporting: true,
+    };
+  }
+
+  async *generate(request: LLMRequest): AsyncIterable<TokenEvent> {
+    const { system, contents } = await toGeminiContents(request.messages);
+
+    const body = JSON.stringify({
+      contents,
+      ...(system.length > 0 && { systemInstruction: { parts: system.map(text => ({ text })) } }),
+      generationConfig: {
+        temperature: request.temperature,
+        topP: request.topP,
+        maxOutputTokens: request.maxTokens,
+      },
+      ...(request.tools && request.tools.length > 0 && {
+        tools: [{ functionDeclarations: request.tools.map(toFunctionDeclaration) }],
+      }),
+    });
+
+    // 模型名兼容 "models/gemini-..." 形式
+    const model = request.model.replace(/^models\//, "");
+    log.debug({ model, baseUrl: this.normalizedBaseUrl, contents: contents.length }, "Sending request to Gemini API");
+
+    const response = await fetch(`${this.normalizedBaseUrl}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`, {
+      method: "POST",
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderHttpError("Gemini", response.status, errorText);
+    }
+
+    if (!response.body) {
+      throw new Error("Response body is null");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let usage: GeminiStreamChunk["usageMetadata"];
+    let finishReason: string | undefined;
+    const toolCalls: LLMToolCall[] = [];
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          let chunk: GeminiStreamChunk;
+          try {
+            chunk = JSON.parse(trimmed.slice(5).trim()) as GeminiStreamChunk;
+          } catch {
+            continue; // 忽略解析失败的行
+          }
+
+          if (chunk.error) {
+            throw new Error(`Gemini stream error ${chunk.error.code ?? ""}: ${chunk.error.message ?? ""}`);
+          }
+
+          const candidate = chunk.candidates?.[0];
+          for (const part of candidate?.content?.parts ?? []) {
+            if ("text" in part) {
+              // 思考摘要（thought = true）不计入回答正文
+              if (part.text && !part.thought) yield { token: part.text, done: false };
+            } else if ("functionCall" in part) {
+              // 函数调用整块到达；旧版 API 不返回 ID，按序号生成
+              toolCalls.push({
+                id: part.functionCall.id ?? `call_${toolCalls.length}`,
+                name: part.functionCall.name,
+                arguments: part.functionCall.args ?? {},
+              });
+            }
+          }
+          finishReason = candidate?.finishReason ?? finishReason;
+          // usageMetadata 为累计值，以最后一块为准
+          if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        }
+      }
+
+      const promptTokens = usage?.promptTokenCount ?? 0;
+      const completionTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+      const totalTokens = usage?.totalTokenCount ?? promptTokens + completionTokens;
+      const cacheReadTokens = usage?.cachedContentTokenCount ?? 0;
+      // 图片已按 token 计入 promptTokenCount，仍传入张数以支持按张计价的自定义条目
+      const costUsd = this.pricing.cost(model, {
+        promptTokens,
+        completionTokens,
+        cacheReadTokens,
+        images: countImages(request.messages),
+      });
+
+      log.debug({ model, totalTokens, costUsd, finishReason, toolCalls: toolCalls.length }, "Request completed");
+
+      yield {
+        token: "",
+        done: true,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens,
+          ...(cacheReadTokens > 0 && { cacheReadTokens }),
+        },
+        costUsd,
+        ...(toolCalls.length > 0 && { toolCalls }),
+      };
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async generateComplete(request: LLMRequest): Promise<{
+    text: string;
+    tokens: number;
+    costUsd: number;
+    toolCalls?: LLMToolCall[];
+    providerMeta: { provider: string; model: string; temperature?: number; topP?: number };
+  }> {
+    let fullText = "";
+    let totalTokens = 0;
+    let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
+
+    for await (const event of this.generate(request)) {
+      if (!event.done) {
+        fullText += event.token;
+      } else {
+        totalTokens = event.usage?.totalTokens ?? 0;
+        costUsd = event.costUsd ?? 0;
+        toolCalls = event.toolCalls;
+      }
+    }
+
+    return {
+      text: fullText,
+      tokens: totalTokens,
+      costUsd,
+      ...(toolCalls !== undefined && { toolCalls }),
+      providerMeta: {
+        provider: this.config.id,
+        model: request.model,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.topP !== undefined && { topP: request.topP }),
+      },
+    };
+  }
+
+  /** 获取标准化后的 base URL（末尾含 /v1beta） */
+  private get normalizedBaseUrl(): string {
+    return (this.config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "").replace(/\/v1beta$/, "") + "/v1beta";
+  }
+
+  /** 认证请求头 */
+  private get headers(): Record<string, string> {
+    return this.config.apiKey ? { "x-goog-api-key": this.config.apiKey } : {};
+  }
+
+  /** 支持 generateContent 的模型（去掉 "models/" 前缀） */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.normalizedBaseUrl}/models?pageSize=1000`, { headers: this.headers });
+      if (!response.ok) return [];
+      const json = await response.json() as {
+        models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
+      };
+      return (json.models ?? [])
+        .filter(m => !m.supportedGenerationMethods || m.supportedGenerationMethods.includes("generateContent"))
+        .map(m => m.name.replace(/^models\//, ""));
+    } catch {
+      return [];
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const models = await this.listModels();
+      return models.length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private get pricing(): PricingCatalog {
+    return this.config.pricing ?? defaultPricingCatalog;
+  }
+}
@@ -1,12 +1,29 @@
-﻿import type { LLMRequest, TokenEvent, ProviderInfo } from "@omega/shared";
+﻿import type { LLMRequest, LLMToolCall, TokenEvent, ProviderInfo } from "@omega/shared";
 import type { LLMProvider } from "../LLMProvider.js";
-import { createLogger } from "@omega/core";
+import { createLogger, countMessageTokens, countTextTokens, ProviderHttpError } from "@omega/core";
+import type { PricingCatalog } from "../pricing.js";
 
 // 使用 @omega/core 的零依赖自定义 logger，避免 pino-pretty 在打包环境崩溃
 const log = createLogger("OllamaProvider");
 
 interface OllamaConfig {
   baseUrl: string;  // 默认 http://localhost:11434
+  /** 价格表（本地模型通常不在表中，计 0；用户为模型定价后按表计费） */
+  pricing?: PricingCatalog;
+}
+
+/** 转换为 Ollama /api/chat 消息格式（tool_calls.arguments 为对象，tool 消息不携带调用 ID） */
+function toOllamaMessage(message: LLMRequest["messages"][number]): Record<string, unknown> {
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
 }
 
 /**
@@ -23,7 +40,7 @@ export class OllamaProvider implements LLMProvider {
       type: "ollama",
       baseUrl: this.config.baseUrl,
       supportsStreaming: true,
-      supportsCostReporting: false,  // 本地运行无成本
+      supportsCostReporting: !!this.config.pricing,
     };
   }
 
@@ -31,7 +48,13 @@ export class OllamaProvider implements LLMProvider {
     // Ollama 使用 /api/chat 端点，格式略不同于 OpenAI
     const body = JSON.stringify({
       model: request.model,
-      messages: request.messages,
+      messages: request.messages.map(toOllamaMessage),
+      ...(request.tools && request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({
+          type: "function",
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
       options: {
         temperature: request.temperature,
         top_p: request.topP,
@@ -50,7 +73,7 @@ export class OllamaProvider implements LLMProvider {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Ollama API error ${response.status}: ${errorText}`);
+      throw new ProviderHttpError("Ollama", response.status, errorText);
     }
 
     if (!response.body) {
@@ -62,6 +85,9 @@ export class OllamaProvider implements LLMProvider {
     let buffer = "";
     let promptTokens = 0;
     let completionTokens = 0;
+    let fullText = "";
+    // Ollama 不分片返回工具调用，但可能分布在多个 chunk 中
+    const toolCalls: LLMToolCall[] = [];
 
     try {
       while (true) {
@@ -78,7 +104,10 @@ export class OllamaProvider implements LLMProvider {
 
           try {
             const json = JSON.parse(trimmed) as {
-              message?: { content?: string };
+              message?: {
+                content?: string;
+                tool_calls?: Array<{ function?: { name?: string; arguments?: Record<string, unknown> } }>;
+              };
               done?: boolean;
               prompt_eval_count?: number;
               eval_count?: number;
@@ -86,14 +115,26 @@ export class OllamaProvider implements LLMProvider {
 
             const content = json.message?.content ?? "";
             if (content) {
-              completionTokens++;
+              fullText += content;
               yield { token: content, done: false };
             }
 
+            // Ollama 不返回调用 ID，按出现顺序生成
+            for (const call of json.message?.tool_calls ?? []) {
+              if (!call.function?.name) continue;
+              toolCalls.push({
+                id: `call_${toolCalls.length}`,
+                name: call.function.name,
+                arguments: call.function.arguments ?? {},
+              });
+            }
+
             // Ollama 的 done=true 时包含统计信息
             if (json.done) {
-              promptTokens = json.prompt_eval_count ?? 0;
-              completionTokens = json.eval_count ?? completionTokens;
+              // 命中 KV 缓存时 Ollama 省略 prompt_eval_count，此时按模型的 Tokenizer 计数
+              promptTokens = json.prompt_eval_count ?? countMessageTokens(request.messages, request.model);
+              completionTokens = json.eval_count ?? countTextTokens(fullText, request.model);
+              const costUsd = this.config.pricing?.cost(request.model, { promptTokens, completionTokens }) ?? 0;
 
               yield {
                 token: "",
@@ -103,7 +144,8 @@ export class OllamaProvider implements LLMProvider {
                   completionTokens,
                   totalTokens: promptTokens + completionTokens,
                 },
-                costUsd: 0,  // 本地运行无成本
+                costUsd,
+                ...(toolCalls.length > 0 && { toolCalls }),
               };
             }
 
@@ -121,23 +163,29 @@ export class OllamaProvider implements LLMProvider {
     text: string;
     tokens: number;
     costUsd: number;
+    toolCalls?: LLMToolCall[];
     providerMeta: { provider: string; model: string; temperature?: number; topP?: number };
   }> {
     let fullText = "";
     let totalTokens = 0;
+    let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
 
     for await (const event of this.generate(request)) {
       if (!event.done) {
         fullText += event.token;
       } else {
         totalTokens = event.usage?.totalTokens ?? 0;
+        costUsd = event.costUsd ?? 0;
+        toolCalls = event.toolCalls;
       }
     }
 
     return {
       text: fullText,
       tokens: totalTokens,
-      costUsd: 0,
+      costUsd,
+      ...(toolCalls !== undefined && { toolCalls }),
       providerMeta: {
         provider: "ollama",
         model: request.model,
@@ -1,6 +1,8 @@
-﻿import type { LLMRequest, TokenEvent, ProviderInfo } from "@omega/shared";
+﻿import type { LLMRequest, LLMToolCall, TokenEvent, ProviderInfo } from "@omega/shared";
 import type { LLMProvider } from "../LLMProvider.js";
-import { createLogger } from "@omega/core";
+import { createLogger, countMessageTokens, countTextTokens, ProviderHttpError } from "@omega/core";
+import { countImages, defaultPricingCatalog } from "../pricing.js";
+import type { PricingCatalog } from "../pricing.js";
 
 // 使用 @omega/core 的零依赖自定义 logger，避免 pino-pretty 在打包环境崩溃
 const log = createLogger("OpenAICompatibleProvider");
@@ -10,8 +12,48 @@ interface OpenAICompatibleConfig {
   name: string;
   baseUrl: string;
   apiKey?: string;
-  /** 价格表 (每 1000 token 的 USD 成本，用于 cost reporting) */
-  pricing?: Record<string, { input: number; output: number }>;
+  /** 价格表 (用于 cost reporting，省略时使用内置价格表) */
+  pricing?: PricingCatalog;
+}
+
+/** 流式 tool_calls 分片（按 index 拼接） */
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/** 转换为 OpenAI chat 消息格式（工具调用字段改为 snake_case，arguments 序列化为 JSON 字符串） */
+function toOpenAIMessage(message: LLMRequest["messages"][number]): Record<string, unknown> {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/** 解析 tool_calls 的 arguments（JSON 字符串）；解析失败时返回空对象，由调用方的必填参数检测兜底 */
+function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch {
+    log.warn({ raw: raw.slice(0, 200) }, "Failed to parse tool call arguments");
+    return {};
+  }
 }
 
 /**
@@ -28,7 +70,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
       type: "openai-compatible",
       baseUrl: this.config.baseUrl,
       supportsStreaming: true,
-      supportsCostReporting: !!this.config.pricing,
+      supportsCostReporting: true,
     };
   }
 
@@ -42,11 +84,19 @@ export class OpenAICompatibleProvider implements LLMProvider {
 
     const body = JSON.stringify({
       model: request.model,
-      messages: request.messages,
+      messages: request.messages.map(toOpenAIMessage),
       temperature: request.temperature,
       top_p: request.topP,
       max_tokens: request.maxTokens,
+      ...(request.tools && request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({
+          type: "function",
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
       stream: true,
+      // 流式响应默认不带 usage：要求在最后一个 chunk 返回（含 cached_tokens），否则只能按 Tokenizer 估算
+      stream_options: { include_usage: true },
     });
 
     log.debug({ model: request.model, baseUrl: this.normalizedBaseUrl }, "Sending request to OpenAI-compatible API");
@@ -59,7 +109,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenAI API error ${response.status}: ${errorText}`);
+      throw new ProviderHttpError("OpenAI", response.status, errorText);
     }
 
     if (!response.body) {
@@ -69,9 +119,11 @@ export class OpenAICompatibleProvider implements LLMProvider {
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = "";
-    let promptTokens = 0;
-    let completionTokens = 0;
+    // 服务端未返回 usage 时为 undefined，结束后用 Tokenizer 计数
+    let usage: { promptTokens: number; completionTokens: number; cacheReadTokens: number } | undefined;
     let fullText = "";
+    // index → 拼接中的工具调用
+    const toolCallParts = new Map<number, { id: string; name: string; arguments: string }>();
 
     try {
       while (true) {
@@ -89,22 +141,39 @@ export class OpenAICompatibleProvider implements LLMProvider {
 
           try {
             const json = JSON.parse(trimmed.slice(6)) as {
-              choices?: Array<{ delta?: { content?: string }; finish_reason?: string }>;
-              usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+              choices?: Array<{ delta?: { content?: string; tool_calls?: ToolCallDelta[] }; finish_reason?: string }>;
+              usage?: {
+                prompt_tokens: number;
+                completion_tokens: number;
+                total_tokens: number;
+                /** 命中提示缓存的部分（OpenAI 自动缓存，已计入 prompt_tokens） */
+                prompt_tokens_details?: { cached_tokens?: number };
+              };
             };
 
             // 处理 token
             const content = json.choices?.[0]?.delta?.content ?? "";
             if (content) {
               fullText += content;
-              completionTokens++;
               yield { token: content, done: false };
             }
 
+            // 处理工具调用分片（id / name 在首个分片，arguments 分多次到达）
+            for (const delta of json.choices?.[0]?.delta?.tool_calls ?? []) {
+              const part = toolCallParts.get(delta.index) ?? { id: "", name: "", arguments: "" };
+              if (delta.id) part.id = delta.id;
+              if (delta.function?.name) part.name += delta.function.name;
+              if (delta.function?.arguments) part.arguments += delta.function.arguments;
+              toolCallParts.set(delta.index, part);
+            }
+
             // 处理 usage (通常在最后一个 chunk)
             if (json.usage) {
-              promptTokens = json.usage.prompt_tokens;
-              completionTokens = json.usage.completion_tokens;
+              usage = {
+                promptTokens: json.usage.prompt_tokens,
+                completionTokens: json.usage.completion_tokens,
+                cacheReadTokens: json.usage.prompt_tokens_details?.cached_tokens ?? 0,
+              };
             }
 
           } catch {
@@ -113,11 +182,33 @@ export class OpenAICompatibleProvider implements LLMProvider {
         }
       }
 
-      // 计算成本
+      const toolCalls: LLMToolCall[] = [...toolCallParts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, part]) => ({
+          id: part.id || `call_${index}`,
+          name: part.name,
+          arguments: parseToolArguments(part.arguments),
+        }));
+
+      // 计算成本（不少兼容服务的流式响应不带 usage，此时按模型的 Tokenizer 计数）
+      const { promptTokens, completionTokens, cacheReadTokens } = usage ?? {
+        promptTokens: countMessageTokens(request.messages, request.model)
+          + (request.tools ? countTextTokens(JSON.stringify(request.tools), request.model) : 0),
+        completionTokens: countTextTokens(
+          fullText + [...toolCallParts.values()].map(part => part.name + part.arguments).join(""),
+          request.model
+        ),
+        cacheReadTokens: 0,
+      };
       const totalTokens = promptTokens + completionTokens;
-      const costUsd = this.calculateCost(request.model, promptTokens, completionTokens);
+      const costUsd = this.pricing.cost(request.model, {
+        promptTokens,
+        completionTokens,
+        cacheReadTokens,
+        images: countImages(request.messages),
+      });
 
-      log.debug({ model: request.model, totalTokens, costUsd }, "Request completed");
+      log.debug({ model: request.model, totalTokens, costUsd, toolCalls: toolCalls.length, usageReported: !!usage }, "Request completed");
 
       // 最终 done=true 的 token event
       yield {
@@ -127,8 +218,10 @@ export class OpenAICompatibleProvider implements LLMProvider {
           promptTokens,
           completionTokens,
           totalTokens,
+          ...(cacheReadTokens > 0 && { cacheReadTokens }),
         },
         costUsd,
+        ...(toolCalls.length > 0 && { toolCalls }),
       };
 
     } finally {
@@ -140,11 +233,13 @@ export class OpenAICompatibleProvider implements LLMProvider {
     text: string;
     tokens: number;
     costUsd: number;
+    toolCalls?: LLMToolCall[];
     providerMeta: { provider: string; model: string; temperature?: number; topP?: number };
   }> {
     let fullText = "";
     let totalTokens = 0;
     let costUsd = 0;
+    let toolCalls: LLMToolCall[] | undefined;
 
     for await (const event of this.generate(request)) {
       if (!event.done) {
@@ -152,6 +247,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
       } else {
         totalTokens = event.usage?.totalTokens ?? 0;
         costUsd = event.costUsd ?? 0;
+        toolCalls = event.toolCalls;
       }
     }
 
@@ -159,6 +255,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
       text: fullText,
       tokens: totalTokens,
       costUsd,
+      ...(toolCalls !== undefined && { toolCalls }),
       providerMeta: {
         provider: this.config.id,
         model: request.model,
@@ -197,9 +294,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
     }
   }
 
-  private calculateCost(model: string, promptTokens: number, completionTokens: number): number {
-    const pricing = this.config.pricing?.[model];
-    if (!pricing) return 0;
-    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1000;
+  private get pricing(): PricingCatalog {
+    return this.config.pricing ?? defaultPricingCatalog;
   }
 }
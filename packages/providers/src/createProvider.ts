@@ -0,0 +1,42 @@
+﻿import type { LLMProvider } from "./LLMProvider.js";
+import { OpenAICompatibleProvider } from "./adapters/OpenAICompatibleProvider.js";
+import { OllamaProvider } from "./adapters/OllamaProvider.js";
+import { AnthropicProvider } from "./adapters/AnthropicProvider.js";
+import { GeminiProvider } from "./adapters/GeminiProvider.js";
+import type { PricingCatalog } from "./pricing.js";
+
+/** 创建 Provider 实例所需的连接信息（对应 providers 表的一行） */
+export interface ProviderConnection {
+  id: string;
+  name: string;
+  /** openai-compatible | ollama | lm-studio | custom | anthropic | gemini */
+  type: string;
+  baseUrl: string;
+  apiKey?: string | undefined;
+}
+
+export interface CreateProviderOptions {
+  /** 价格表（省略时云端适配器使用内置价格表，Ollama 不计费） */
+  pricing?: PricingCatalog | undefined;
+}
+
+/**
+ * 按类型创建 Provider 适配器
+ * lm-studio / custom 走 OpenAI 兼容协议；未知类型按 Ollama 处理（与早期版本的默认行为一致）
+ */
+export function createProvider(connection: ProviderConnection, options: CreateProviderOptions = {}): LLMProvider {
+  const { id, name, type, baseUrl, apiKey } = connection;
+  const { pricing } = options;
+  switch (type) {
+    case "anthropic":
+      return new AnthropicProvider({ id, name, baseUrl, ...(apiKey && { apiKey }), ...(pricing && { pricing }) });
+    case "gemini":
+      return new GeminiProvider({ id, name, baseUrl, ...(apiKey && { apiKey }), ...(pricing && { pricing }) });
+    case "openai-compatible":
+    case "lm-studio":
+    case "custom":
+      return new OpenAICompatibleProvider({ id, name, baseUrl, ...(apiKey && { apiKey }), ...(pricing && { pricing }) });
+    default:
+      return new OllamaProvider({ baseUrl, ...(pricing && { pricing }) });
+  }
+}
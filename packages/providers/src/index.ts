@@ -5,3 +5,11 @@ export type { LLMProvider } from "./LLMProvider.js";
 export { ProviderRegistry } from "./LLMProvider.js";
 export { OpenAICompatibleProvider } from "./adapters/OpenAICompatibleProvider.js";
 export { OllamaProvider } from "./adapters/OllamaProvider.js";
+export { AnthropicProvider } from "./adapters/AnthropicProvider.js";
+export { GeminiProvider } from "./adapters/GeminiProvider.js";
+export { FallbackProvider } from "./FallbackProvider.js";
+export type { FallbackTarget, FallbackOptions } from "./FallbackProvider.js";
+export { createProvider } from "./createProvider.js";
+export type { ProviderConnection, CreateProviderOptions } from "./createProvider.js";
+export { PricingCatalog, DEFAULT_MODEL_PRICING } from "./pricing.js";
+export type { PricedUsage } from "./pricing.js";
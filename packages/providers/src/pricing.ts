@@ -0,0 +1,114 @@
+﻿import type { LLMRequest, ModelPricing } from "@omega/shared";
+import type { ContentPart } from "@omega/core";
+
+/**
+ * 内置模型价格表（每 1000 token 的 USD，取自各厂商公开价目，可能滞后于官网调价）
+ * 首次启动写入 model_pricing 表，用户可在设置中覆盖；Gemini 2.5 Pro 按 200K 以内的 prompt 档位计
+ */
+export const DEFAULT_MODEL_PRICING: readonly ModelPricing[] = [
+  // OpenAI
+  { model: "gpt-5", input: 0.00125, output: 0.01, cachedInput: 0.000125 },
+  { model: "gpt-5-mini", input: 0.00025, output: 0.002, cachedInput: 0.000025 },
+  { model: "gpt-5-nano", input: 0.00005, output: 0.0004, cachedInput: 0.000005 },
+  { model: "gpt-4.1", input: 0.002, output: 0.008, cachedInput: 0.0005 },
+  { model: "gpt-4.1-mini", input: 0.0004, output: 0.0016, cachedInput: 0.0001 },
+  { model: "gpt-4.1-nano", input: 0.0001, output: 0.0004, cachedInput: 0.000025 },
+  { model: "gpt-4o", input: 0.0025, output: 0.01, cachedInput: 0.00125 },
+  { model: "gpt-4o-mini", input: 0.00015, output: 0.0006, cachedInput: 0.000075 },
+  { model: "o3", input: 0.002, output: 0.008, cachedInput: 0.0005 },
+  { model: "o3-mini", input: 0.0011, output: 0.0044, cachedInput: 0.00055 },
+  { model: "o4-mini", input: 0.0011, output: 0.0044, cachedInput: 0.000275 },
+  // Anthropic（cache write 为 5 分钟 TTL 的价格）
+  { model: "claude-opus-4-5", input: 0.005, output: 0.025, cachedInput: 0.0005, cacheWrite: 0.00625 },
+  { model: "claude-opus-4", input: 0.015, output: 0.075, cachedInput: 0.0015, cacheWrite: 0.01875 },
+  { model: "claude-sonnet-4", input: 0.003, output: 0.015, cachedInput: 0.0003, cacheWrite: 0.00375 },
+  { model: "claude-haiku-4-5", input: 0.001, output: 0.005, cachedInput: 0.0001, cacheWrite: 0.00125 },
+  { model: "claude-3-7-sonnet", input: 0.003, output: 0.015, cachedInput: 0.0003, cacheWrite: 0.00375 },
+  { model: "claude-3-5-sonnet", input: 0.003, output: 0.015, cachedInput: 0.0003, cacheWrite: 0.00375 },
+  { model: "claude-3-5-haiku", input: 0.0008, output: 0.004, cachedInput: 0.00008, cacheWrite: 0.001 },
+  // Google Gemini
+  { model: "gemini-2.5-pro", input: 0.00125, output: 0.01, cachedInput: 0.00031 },
+  { model: "gemini-2.5-flash", input: 0.0003, output: 0.0025, cachedInput: 0.000075 },
+  { model: "gemini-2.5-flash-lite", input: 0.0001, output: 0.0004, cachedInput: 0.000025 },
+  { model: "gemini-2.0-flash", input: 0.0001, output: 0.0004, cachedInput: 0.000025 },
+  // DeepSeek
+  { model: "deepseek-chat", input: 0.00027, output: 0.0011, cachedInput: 0.00007 },
+  { model: "deepseek-reasoner", input: 0.00055, output: 0.00219, cachedInput: 0.00014 },
+];
+
+/** 计费用的用量（缓存 token 已计入 promptTokens，与 TokenEvent.usage 一致） */
+export interface PricedUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cacheCreationTokens?: number | undefined;
+  cacheReadTokens?: number | undefined;
+  /** 请求中的输入图片数（仅配置了 image 单价的模型计费） */
+  images?: number | undefined;
+}
+
+/** 统计请求中的图片数（多模态消息为 OpenAI vision 格式的 ContentPart[]） */
+export function countImages(messages: LLMRequest["messages"]): number {
+  let count = 0;
+  for (const message of messages) {
+    const content = message.content as string | ContentPart[];
+    if (Array.isArray(content)) count += content.filter(part => part.type === "image_url").length;
+  }
+  return count;
+}
+
+/**
+ * 模型价格表
+ * 按模型名查价：先精确匹配，再取最长的前缀匹配（前缀后须以 - / : / @ 分隔，覆盖日期后缀与量化标签），
+ * 均未命中时去掉厂商前缀（openai/gpt-4o、models/gemini-2.5-flash）重试
+ * 同一实例可被多个适配器共享，replace() 后立即对所有适配器生效
+ */
+export class PricingCatalog {
+  private entries = new Map<string, ModelPricing>();
+
+  constructor(entries: readonly ModelPricing[] = DEFAULT_MODEL_PRICING) {
+    this.replace(entries);
+  }
+
+  /** 整体替换价格表（如用户在设置中修改后重新加载） */
+  replace(entries: readonly ModelPricing[]): void {
+    this.entries = new Map(entries.map(entry => [entry.model.toLowerCase(), entry]));
+  }
+
+  lookup(model: string): ModelPricing | undefined {
+    const name = model.trim().toLowerCase();
+    const slash = name.lastIndexOf("/");
+    return this.match(name) ?? (slash >= 0 ? this.match(name.slice(slash + 1)) : undefined);
+  }
+
+  /** 计算一次调用的花费 (USD)；模型未定价时返回 0 */
+  cost(model: string, usage: PricedUsage): number {
+    const pricing = this.lookup(model);
+    if (!pricing) return 0;
+    const cacheRead = usage.cacheReadTokens ?? 0;
+    const cacheWrite = usage.cacheCreationTokens ?? 0;
+    const uncached = Math.max(0, usage.promptTokens - cacheRead - cacheWrite);
+    return (
+      uncached * pricing.input
+      + cacheRead * (pricing.cachedInput ?? pricing.input)
+      + cacheWrite * (pricing.cacheWrite ?? pricing.input)
+      + usage.completionTokens * pricing.output
+    ) / 1000 + (usage.images ?? 0) * (pricing.image ?? 0);
+  }
+
+  private match(name: string): ModelPricing | undefined {
+    const exact = this.entries.get(name);
+    if (exact) return exact;
+    let best: ModelPricing | undefined;
+    let bestLength = 0;
+    for (const [key, entry] of this.entries) {
+      if (key.length > bestLength && name.startsWith(key) && "-:@".includes(name[key.length]!)) {
+        best = entry;
+        bestLength = key.length;
+      }
+    }
+    return best;
+  }
+}
+
+/** 未显式传入价格表的适配器共用的内置价格表 */
+export const defaultPricingCatalog = new PricingCatalog();
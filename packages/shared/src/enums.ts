@@ -11,6 +11,8 @@ export const RunState = {
   COMPLETED: "COMPLETED",
   FAILED: "FAILED",
   CANCELLED: "CANCELLED",
+  /** 超出资源预算（BudgetConfig）被中止 */
+  BUDGET_EXCEEDED: "BUDGET_EXCEEDED",
 } as const;
 export type RunState = (typeof RunState)[keyof typeof RunState];
 
@@ -46,6 +48,7 @@ export const ErrorType = {
   TIMEOUT_ERROR: "TIMEOUT_ERROR",
   PERMISSION_ERROR: "PERMISSION_ERROR",
   SYSTEM_ERROR: "SYSTEM_ERROR",
+  BUDGET_EXCEEDED: "BUDGET_EXCEEDED",
 } as const;
 export type ErrorType = (typeof ErrorType)[keyof typeof ErrorType];
 
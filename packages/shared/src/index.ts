@@ -8,6 +8,9 @@
 // 枚举常量
 export * from "./enums.js";
 
+// 工具函数
+export { stableStringify } from "./stableStringify.js";
+
 // Schema 定义和推导类型
 export * from "./schemas/error.js";
 export * from "./schemas/node.js";  // AgentLoopConfig, AgentStep, LLMNodeConfig 等
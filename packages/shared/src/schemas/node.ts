@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { NodeType, BackoffStrategy, CacheStrategy } from "../enums.js";
+import { LLMToolCallSchema, ProviderMetaSchema } from "./provider.js";
 
 /**
  * 重试策略配置
@@ -21,7 +22,7 @@ export const GuardrailConfigSchema = z.object({
   schemaValidation: z.boolean().default(true),
   /** 是否启用 LLM 结构化输出校验 */
   llmOutputValidation: z.boolean().default(false),
-  /** 置信度阈值 (0-1, 仅对 Reflection Node 有效) */
+  /** 置信度阈值 (0-1, Reflection Node 与 AgentLoop 完成校验使用) */
   confidenceThreshold: z.number().min(0).max(1).default(0.7),
 });
 export type GuardrailConfig = z.infer<typeof GuardrailConfigSchema>;
@@ -67,6 +68,46 @@ export const AgentLoopConfigSchema = z.object({
   maxTokens: z.number().int().positive().default(4096),
   /** LLM 温度 */
   temperature: z.number().min(0).max(2).default(0.6),
+  /**
+   * 工具调用协议
+   * xml    — 从响应文本中解析 XML 标签（适用于不支持函数调用的模型）
+   * native — 以 tools 定义发送工具 Schema，读取 Provider 返回的结构化 tool_calls；
+   *          响应中没有 tool_calls 时仍回退到 XML 解析
+   */
+  toolCallMode: z.enum(["xml", "native"]).default("xml"),
+  /** 执行前需要用户审批的工具（如 fs_write / code_exec），由主进程在运行时填充 */
+  requireApproval: z.array(z.string()).default([]),
+  /**
+   * 上下文超出 80% maxTokens 时的处理策略
+   * summarize — 调用 LLM 把移出的中间消息压缩为结构化摘要（文件 / 发现 / 待解决问题）
+   * truncate  — 直接删除中间消息，仅插入截断说明
+   */
+  contextStrategy: z.enum(["summarize", "truncate"]).default("summarize"),
+  /** 累计 token 预算（所有 LLM 调用的输入+输出，含子 Agent）；用尽后强制总结，省略时不限制 */
+  maxTotalTokens: z.number().int().positive().optional(),
+  /**
+   * 子 Agent 委派（delegate_task 工具）；省略时不提供该工具
+   * 子 Agent 使用父 Agent 工具的子集，步骤以 parentPath 关联到发起委派的父步骤
+   */
+  delegation: z.object({
+    /** 子 Agent 最大迭代轮次（调用时可指定更小的值） */
+    maxIterations: z.number().int().positive().default(8),
+    /** 单个子 Agent 的累计 token 预算 */
+    maxTotalTokens: z.number().int().positive().default(50000),
+    /** 最大委派深度（1 = 子 Agent 不能继续委派） */
+    maxDepth: z.number().int().positive().default(1),
+  }).optional(),
+  /**
+   * 完成前自检：attempt_completion 的答案先由校验模型对照任务和观察结果打分（0-1），
+   * 低于 guardrails.confidenceThreshold 时把评语退回 Agent 继续迭代；省略时不校验
+   */
+  verification: z.object({
+    /** 校验模型（省略时与 Agent 使用同一模型） */
+    model: z.string().optional(),
+    guardrails: GuardrailConfigSchema.default({}),
+    /** 最多退回次数，用尽后直接接受答案 */
+    maxRejections: z.number().int().min(0).default(2),
+  }).optional(),
 });
 export type AgentLoopConfig = z.infer<typeof AgentLoopConfigSchema>;
 
@@ -90,6 +131,20 @@ export const AgentStepSchema = z.object({
   status: z.enum(["thinking", "acting", "observing", "done", "error"]).default("thinking"),
   /** token 消耗 */
   tokens: z.number().int().default(0),
+  /** 本轮 LLM 调用花费（USD） */
+  costUsd: z.number().optional(),
+  /** 本轮完整的 assistant 响应（LLM 返回后的各阶段都携带，用于持久化和 fork） */
+  response: z.string().optional(),
+  /** 本轮实际响应的 Provider（经过故障转移切换时填充，持久化时覆盖 Run 级默认值） */
+  providerMeta: ProviderMetaSchema.optional(),
+  /** 本轮实际处理的原生工具调用（toolCallMode = "native"） */
+  toolCalls: z.array(LLMToolCallSchema).optional(),
+  /** 该工具调用对应的原生 tool_call ID（observing 阶段，用于回传 tool 消息） */
+  toolCallId: z.string().optional(),
+  /** 该工具调用在本轮响应中的位置（从 0 开始；并行调用按完成顺序推送，fork 按此恢复回传顺序） */
+  toolCallIndex: z.number().int().nonnegative().optional(),
+  /** 子 Agent 步骤的父步骤路径（顶层步骤序号 → … → 直接父步骤序号），顶层步骤省略 */
+  parentPath: z.array(z.number().int().positive()).optional(),
 });
 export type AgentStep = z.infer<typeof AgentStepSchema>;
 
@@ -151,5 +206,7 @@ export type EdgeDefinition = z.infer<typeof EdgeDefinitionSchema>;
 export const ParallelGroupSchema = z.object({
   id: z.string(),
   nodeIds: z.array(z.string()).min(2),
+  /** 组内最大并发数（默认 4） */
+  maxConcurrency: z.number().int().positive().optional(),
 });
 export type ParallelGroup = z.infer<typeof ParallelGroupSchema>;
@@ -6,7 +6,7 @@ import { z } from "zod";
 export const ProviderInfoSchema = z.object({
   id: z.string(),
   name: z.string(),
-  type: z.enum(["openai-compatible", "ollama", "lm-studio", "custom"]),
+  type: z.enum(["openai-compatible", "ollama", "lm-studio", "custom", "anthropic", "gemini"]),
   /** API 基础 URL */
   baseUrl: z.string().url(),
   /** 支持的模型列表 */
@@ -37,22 +37,88 @@ export const ProviderRecordSchema = ProviderInfoSchema.extend({
 });
 export type ProviderRecord = z.infer<typeof ProviderRecordSchema>;
 
+/**
+ * 模型价格（cost reporting 用，token 单价均为每 1000 token 的 USD）
+ */
+export const ModelPricingSchema = z.object({
+  /** 模型名（也匹配带日期后缀 / 厂商前缀的变体，如 gpt-4o-2024-08-06、openai/gpt-4o） */
+  model: z.string().min(1),
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  /** 命中提示缓存的输入 token 单价（省略时按 input 计） */
+  cachedInput: z.number().nonnegative().optional(),
+  /** 写入提示缓存的输入 token 单价（省略时按 input 计） */
+  cacheWrite: z.number().nonnegative().optional(),
+  /** 每张输入图片的附加费用（按张计费的服务；图片已计入 prompt token 的模型留空） */
+  image: z.number().nonnegative().optional(),
+});
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+/**
+ * 原生函数调用（function calling）的工具定义
+ * 由各 Provider 适配器转换为自身 API 的 tools 格式
+ */
+export const LLMToolDefinitionSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  /** 参数的 JSON Schema */
+  parameters: z.record(z.unknown()),
+});
+export type LLMToolDefinition = z.infer<typeof LLMToolDefinitionSchema>;
+
+/**
+ * 模型返回的结构化工具调用
+ */
+export const LLMToolCallSchema = z.object({
+  /** 调用 ID（tool 消息通过 toolCallId 回传结果；API 不返回 ID 时由适配器生成） */
+  id: z.string(),
+  name: z.string(),
+  /** 已解析的 JSON 参数 */
+  arguments: z.record(z.unknown()),
+});
+export type LLMToolCall = z.infer<typeof LLMToolCallSchema>;
+
 /**
  * LLM 生成请求
  */
 export const LLMRequestSchema = z.object({
   model: z.string(),
   messages: z.array(z.object({
-    role: z.enum(["system", "user", "assistant"]),
+    role: z.enum(["system", "user", "assistant", "tool"]),
     content: z.string(),
+    /** assistant 消息中模型发起的工具调用 */
+    toolCalls: z.array(LLMToolCallSchema).optional(),
+    /** tool 消息对应的调用 ID */
+    toolCallId: z.string().optional(),
   })),
   temperature: z.number().min(0).max(2).optional(),
   topP: z.number().min(0).max(1).optional(),
   maxTokens: z.number().int().positive().optional(),
+  /** 可供模型调用的工具（原生函数调用模式） */
+  tools: z.array(LLMToolDefinitionSchema).optional(),
   stream: z.boolean().default(true),
 });
 export type LLMRequest = z.infer<typeof LLMRequestSchema>;
 
+/**
+ * 一次 LLM 调用实际使用的 Provider 元数据（保证 replay）
+ */
+export const ProviderMetaSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  temperature: z.number().optional(),
+  topP: z.number().optional(),
+  modelVersion: z.string().optional(),
+  /** 故障转移前依次失败的 Provider / 模型（按尝试顺序，未发生切换时省略） */
+  fallbackFrom: z.array(z.object({
+    provider: z.string(),
+    model: z.string(),
+    /** 失败原因（如 "HTTP 429"、"timeout"） */
+    reason: z.string(),
+  })).optional(),
+});
+export type ProviderMeta = z.infer<typeof ProviderMetaSchema>;
+
 /**
  * Token 流事件 (streaming)
  */
@@ -64,9 +130,17 @@ export const TokenEventSchema = z.object({
     promptTokens: z.number().int(),
     completionTokens: z.number().int(),
     totalTokens: z.number().int(),
+    /** 写入提示缓存的输入 token（已计入 promptTokens，仅支持 prompt caching 的 provider 填充） */
+    cacheCreationTokens: z.number().int().optional(),
+    /** 命中提示缓存的输入 token（已计入 promptTokens） */
+    cacheReadTokens: z.number().int().optional(),
   }).optional(),
   /** 花费 (仅在 done=true 且 provider 支持时填充) */
   costUsd: z.number().optional(),
+  /** 模型发起的工具调用 (仅在 done=true 时填充，流式分片已在适配器内拼接) */
+  toolCalls: z.array(LLMToolCallSchema).optional(),
+  /** 实际响应的 Provider（仅在 done=true 时由 FallbackProvider 填充，含切换记录） */
+  providerMeta: ProviderMetaSchema.optional(),
 });
 export type TokenEvent = z.infer<typeof TokenEventSchema>;
 
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { RunState, NodeState } from "../enums.js";
 import { ErrorEnvelopeSchema } from "./error.js";
+import { ProviderMetaSchema } from "./provider.js";
+import { BudgetConfigSchema } from "./node.js";
 
 /**
  * Run 记录 (一次完整的 Graph 执行实例)
@@ -12,6 +14,8 @@ export const RunSchema = z.object({
   graphId: z.string(),
   /** Graph 版本快照 (执行时的版本，保证 replay 一致性) */
   graphVersion: z.string(),
+  /** 执行时的图定义快照 hash (graphs 表，内容寻址) */
+  graphHash: z.string().optional(),
   /** 当前状态 */
   state: z.nativeEnum(RunState),
   /** 父 Run ID (fork 时记录) */
@@ -20,10 +24,14 @@ export const RunSchema = z.object({
   forkFromStepId: z.string().optional(),
   /** 父 Run 的 Graph 版本 (fork 时记录) */
   parentVersion: z.string().optional(),
+  /** 被回放的原 Run ID (omega replay 产生的 Run，不是真实执行) */
+  replayOfRunId: z.string().optional(),
   /** 输入数据 */
   input: z.record(z.unknown()).optional(),
   /** 最终输出 */
   output: z.record(z.unknown()).optional(),
+  /** 生效的资源预算 (graph.budget 与 budgetOverride 合并后；resume / fork 时沿用) */
+  budget: BudgetConfigSchema.optional(),
   /** 总 Token 消耗 */
   totalTokens: z.number().int().default(0),
   /** 总花费 (USD) */
@@ -102,13 +110,7 @@ export const StepEventSchema = z.object({
   /** 耗时 (ms) */
   durationMs: z.number().int().optional(),
   /** Provider 元数据 (model, temperature, top_p 等，保证 replay) */
-  providerMeta: z.object({
-    provider: z.string(),
-    model: z.string(),
-    temperature: z.number().optional(),
-    topP: z.number().optional(),
-    modelVersion: z.string().optional(),
-  }).optional(),
+  providerMeta: ProviderMetaSchema.optional(),
   /** Cache 命中情况 */
   cacheHit: z.boolean().optional(),
   /** 缓存 Key (如果有) */
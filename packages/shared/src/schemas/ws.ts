@@ -121,6 +121,21 @@ export const StepCompletedEventSchema = z.object({
   }),
 });
 
+export const StepSkippedEventSchema = z.object({
+  type: z.literal("event:step_skipped"),
+  payload: z.object({
+    runId: z.string(),
+    stepId: z.string(),
+    nodeId: z.string(),
+    nodeType: z.string(),
+    nodeLabel: z.string(),
+    sequence: z.number().int(),
+    /** 跳过原因（条件边未命中 / 上游全部被跳过） */
+    reason: z.string(),
+    skippedAt: z.string().datetime(),
+  }),
+});
+
 export const RunPausedEventSchema = z.object({
   type: z.literal("event:run_paused"),
   payload: z.object({
@@ -129,6 +144,14 @@ export const RunPausedEventSchema = z.object({
   }),
 });
 
+export const RunResumedEventSchema = z.object({
+  type: z.literal("event:run_resumed"),
+  payload: z.object({
+    runId: z.string(),
+    resumedAt: z.string().datetime(),
+  }),
+});
+
 export const RunErrorEventSchema = z.object({
   type: z.literal("event:error"),
   payload: z.object({
@@ -142,7 +165,9 @@ export const RunCompletedEventSchema = z.object({
   type: z.literal("event:run_completed"),
   payload: z.object({
     runId: z.string(),
-    state: z.enum(["COMPLETED", "FAILED", "CANCELLED"]),
+    state: z.enum(["COMPLETED", "FAILED", "CANCELLED", "BUDGET_EXCEEDED"]),
+    /** 非正常结束的原因（如超出的预算项） */
+    reason: z.string().optional(),
     output: z.record(z.unknown()).optional(),
     totalTokens: z.number().int(),
     totalCostUsd: z.number(),
@@ -170,7 +195,9 @@ export const WsEventSchema = z.discriminatedUnion("type", [
   StepStartedEventSchema,
   TokenStreamEventSchema,
   StepCompletedEventSchema,
+  StepSkippedEventSchema,
   RunPausedEventSchema,
+  RunResumedEventSchema,
   RunErrorEventSchema,
   RunCompletedEventSchema,
   RunForkedEventSchema,
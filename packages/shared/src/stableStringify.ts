@@ -0,0 +1,13 @@
+﻿/**
+ * 键排序后的 JSON 序列化，保证对象字段顺序不影响 hash
+ * 节点缓存 Key（@omega/core）与图定义快照 hash（@omega/db）共用，两者对"相同内容"的判定必须一致
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+}